@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import Thesis, { IThesis } from "../models/Thesis";
+import { AuthRequest } from "../middlewares/authMiddleware";
+import { computeThesisProgress, ThesisProgress } from "../utils/thesisProgress";
+
+interface StudentSummary {
+  student: unknown; // Populated owner: username and email
+  theses: (Record<string, unknown> & { progress: ThesisProgress })[];
+}
+
+// The earliest milestone that is not completed yet
+const nextMilestone = (thesis: IThesis) =>
+  thesis.timeline
+    .filter((entry) => !entry.completedAt)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())[0] || null;
+
+// Theses the advisor supervises, grouped by student
+export const getAdvisorStudents = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as AuthRequest;
+    const advisorId = new mongoose.Types.ObjectId(user);
+
+    const theses = await Thesis.find({
+      collaborators: { $elemMatch: { user: advisorId, relationship: "advisor" } },
+    })
+      .select("title status user collaborators roadmap schedule timeline updatedAt")
+      .populate("user", "username email")
+      .sort({ updatedAt: -1 });
+
+    const students = new Map<string, StudentSummary>();
+    for (const thesis of theses) {
+      const owner = thesis.user as unknown as { _id: mongoose.Types.ObjectId };
+      const key = owner._id.toString();
+      if (!students.has(key)) students.set(key, { student: owner, theses: [] });
+
+      const milestone = nextMilestone(thesis);
+      const completed = thesis.timeline.filter((entry) => entry.completedAt).length;
+      students.get(key)!.theses.push({
+        _id: thesis._id,
+        title: thesis.title,
+        status: thesis.status,
+        permission: thesis.collaborators.find((entry) => entry.user.equals(advisorId))?.permission,
+        nextMilestone: milestone && { _id: milestone._id, milestone: milestone.milestone, dueDate: milestone.dueDate },
+        milestonesCompleted: completed,
+        milestonesTotal: thesis.timeline.length,
+        deadline: thesis.schedule?.deadline ?? null,
+        atRisk: thesis.schedule?.atRisk ?? false,
+        progress: computeThesisProgress(thesis),
+        updatedAt: thesis.get("updatedAt"),
+      });
+    }
+
+    // Students with a thesis behind schedule first
+    const summaries = [...students.values()].map((summary) => ({
+      ...summary,
+      behind: summary.theses.some((thesis) => thesis.progress.behind),
+    }));
+    summaries.sort((a, b) => Number(b.behind) - Number(a.behind));
+
+    res.json({ students: summaries });
+  } catch (error) {
+    next(error);
+  }
+};
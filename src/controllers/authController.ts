@@ -1,30 +1,51 @@
 import { Request, Response, NextFunction, RequestHandler } from "express"; // Include NextFunction for better type safety
-import jwt from "jsonwebtoken";
-import bcrypt from "bcrypt";
 import User, { IUser } from "../models/User"; 
+import Session from "../models/Session";
+import { AuthRequest } from "../middlewares/authMiddleware";
+import {
+  REFRESH_COOKIE,
+  RefreshTokenError,
+  clearAuthCookies,
+  parseRefreshToken,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+  startSession,
+} from "../utils/sessionTokens";
+import {
+  EMAIL_VERIFICATION_TTL_HOURS,
+  PASSWORD_RESET_TTL_MINUTES,
+  consumeEmailToken,
+  issueEmailToken,
+} from "../utils/emailTokens";
+import { sendMail } from "../utils/mail";
+import { passwordResetEmail, verificationEmail } from "../utils/mail/templates";
+import { AppError, ConflictError, NotFoundError } from "../utils/errors";
 
-const generateToken = (userId: string) => {
-  return jwt.sign({ id: userId }, process.env.JWT_SECRET as string, { expiresIn: "1h" });
+// Mail failures are logged, never surfaced: the user can ask for another link
+const sendVerificationEmail = async (user: IUser) => {
+  try {
+    const token = await issueEmailToken(user, "verifyEmail");
+    await sendMail(verificationEmail(user.email, user.username, token, EMAIL_VERIFICATION_TTL_HOURS));
+  } catch (error) {
+    console.error(`Error sending verification email to user ${user._id}:`, error);
+  }
 };
 
 // Register a new user
 export const registerUser: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
-    try {
+  try {
     const { username, email, password } = req.body;
 
-    if (!username || !email || !password) {
-      res.status(400).json({ message: "All fields are required." });
-    }
-
-    const existingUser = await User.findOne({ email });
-    if (existingUser) {
-      res.status(400).json({ message: "User already exists." });
+    if (await User.exists({ email })) {
+      throw new AppError("AUTH_USER_EXISTS", "User already exists.");
     }
 
-    const user = new User({ username, email, password });
+    const user = new User({ username, email, password, role: "student" });
     await user.save();
+    await sendVerificationEmail(user);
 
-    res.status(201).json({ message: "User registered successfully!" });
+    res.status(201).json({ message: "User registered successfully! Check your inbox to verify your email." });
   } catch (error) {
     next(error); // Use next() for error handling
   }
@@ -32,48 +53,169 @@ export const registerUser: RequestHandler = async (req: Request, res: Response,
 
 // Login user
 export const loginUser: RequestHandler = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    try {
-			console.log("Login attempt:", req.body); // Log request data    
-      const { email, password } = req.body;
-  
-      const user = await User.findOne({ email }) as IUser | null; // 👈 Explicitly type user
-			console.log("User found:", user); // Log user data from DB
-
-      if (!user) {
-        res.status(400).json({ message: "Invalid credentials." });
-        return;
-      }
-  
-      const isMatch = await user.comparePassword(password);
-			console.log("Password match:", isMatch); // Log password comparison
-      if (!isMatch) {
-        res.status(400).json({ message: "Invalid credentials." });
-        return;
+  try {
+    const { email, password } = req.body;
+
+    const user = await User.findOne({ email }) as IUser | null; // 👈 Explicitly type user
+    // Same error for an unknown email and a wrong password, so accounts cannot be enumerated
+    if (!user || !(await user.comparePassword(password))) {
+      throw new AppError("AUTH_INVALID_CREDENTIALS", "Invalid credentials.");
+    }
+
+    // 🏆 Start a session: short-lived access token + rotating refresh token, both HTTP-only cookies
+    await startSession(req, res, user._id.toString());
+
+    res.json({ message: "Login successful" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Confirm an email address with the token from the verification email
+export const verifyEmail: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await consumeEmailToken(req.body.token, "verifyEmail");
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+    res.json({ message: "Email verified" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Send a fresh verification link to the logged-in user
+export const resendVerificationEmail: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  const { user: userId } = req as AuthRequest;
+  try {
+    const user = await User.findById(userId);
+    if (!user) throw new NotFoundError("User not found");
+    if (user.emailVerified) throw new ConflictError("Email is already verified");
+
+    await sendVerificationEmail(user);
+    res.json({ message: "Verification email sent" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Email a password reset link. Always answers the same way so emails cannot be enumerated.
+export const forgotPassword: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email });
+    if (user) {
+      try {
+        const token = await issueEmailToken(user, "resetPassword");
+        await sendMail(passwordResetEmail(user.email, user.username, token, PASSWORD_RESET_TTL_MINUTES));
+      } catch (error) {
+        console.error(`Error sending password reset email to user ${user._id}:`, error);
       }
-  
-      const token = generateToken(user._id.toString());
-		
-			// 🏆 Set the token as an HTTP-only cookie
-			res.cookie("token", token, {
-				httpOnly: true, // Prevents JavaScript access
-				secure: process.env.NODE_ENV === "production", // Enable secure flag in production
-				sameSite: "strict", // Helps prevent CSRF attacks
-				maxAge: 3600000 // 1 hour expiration
-			});
-
-			res.json({ message: "Login successful" });
-  
-    } catch (error) {
-      res.status(500).json({ message: "Server error", error });
     }
+
+    res.json({ message: "If an account exists for that email, a reset link has been sent." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Set a new password with the token from the reset email and sign out every session
+export const resetPassword: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, password } = req.body;
+
+    const user = await consumeEmailToken(token, "resetPassword");
+    user.password = password; // Hashed by the pre-save hook
+    // The link proves the user controls the inbox
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+    await revokeAllSessions(user._id.toString(), "password_reset");
+
+    clearAuthCookies(res);
+    res.json({ message: "Password reset. Please log in again." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Exchange the refresh token cookie for fresh access and refresh tokens
+export const refreshSession: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await rotateSession(res, req.cookies[REFRESH_COOKIE]);
+    res.json({ message: "Session refreshed" });
+  } catch (error) {
+    if (error instanceof RefreshTokenError) clearAuthCookies(res);
+    next(error);
+  }
 };
 
-// Logout user
+// Logout user: revoke the current session, not just the cookies
 export const logoutUser: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
-  res.clearCookie("token"); // ✅ Clears token cookie
-  res.json({ message: "User logged out successfully!" })
+  try {
+    const parsed = parseRefreshToken(req.cookies[REFRESH_COOKIE]);
+    const session = parsed ? await Session.findById(parsed.sessionId) : null;
+    if (session && !session.revokedAt) await revokeSession(session, "logout");
+
+    clearAuthCookies(res); // ✅ Clears both cookies
+    res.json({ message: "User logged out successfully!" });
+  } catch (error) {
+    next(error);
+  }
 };
 
+// Revoke every session of the current user
+export const logoutEverywhere: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  const { user } = req as AuthRequest;
+  try {
+    const revoked = await revokeAllSessions(user as string, "logout_all");
+    clearAuthCookies(res);
+    res.json({ message: "Logged out of all sessions", revoked });
+  } catch (error) {
+    next(error);
+  }
+};
 
+// List the current user's active sessions
+export const listSessions: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  const { user, sessionId } = req as AuthRequest;
+  try {
+    const sessions = await Session.find({ user, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 })
+      .select("userAgent ip createdAt lastUsedAt expiresAt");
 
+    res.json(
+      sessions.map((session) => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === sessionId,
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke one of the current user's sessions (e.g. a lost laptop)
+export const revokeSessionById: RequestHandler<{ id: string }> = async (req, res, next) => {
+  const { user, sessionId } = req as unknown as AuthRequest;
+  try {
+    const session = await Session.findOne({ _id: req.params.id, user, revokedAt: { $exists: false } });
+    if (!session) throw new NotFoundError("Session not found");
 
+    await revokeSession(session, "revoked");
+    if (session._id.toString() === sessionId) clearAuthCookies(res);
+    res.json({ message: "Session revoked" });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from "express";
+import CacheEntry from "../models/CacheEntry";
+import { CACHE_SOURCES, getCacheTtlSeconds } from "../utils/cache";
+import { NotFoundError } from "../utils/errors";
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Entry counts and hits per source, plus the configured TTLs
+export const getCacheStats = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const stats = await CacheEntry.aggregate([
+      { $match: { expiresAt: { $gt: new Date() } } },
+      {
+        $group: {
+          _id: "$source",
+          entries: { $sum: 1 },
+          hits: { $sum: "$hits" },
+          oldest: { $min: "$createdAt" },
+          newest: { $max: "$createdAt" },
+        },
+      },
+    ]);
+
+    res.json({
+      sources: CACHE_SOURCES.map((source) => {
+        const found = stats.find((stat) => stat._id === source);
+        return {
+          source,
+          ttlSeconds: getCacheTtlSeconds(source),
+          entries: found?.entries || 0,
+          hits: found?.hits || 0,
+          oldest: found?.oldest || null,
+          newest: found?.newest || null,
+        };
+      }),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List entries (without their values), optionally filtered by ?source=
+export const listCacheEntries = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { source } = req.query;
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const filter = source ? { source: String(source) } : {};
+
+    const [entries, total] = await Promise.all([
+      CacheEntry.find(filter)
+        .select("-value")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      CacheEntry.countDocuments(filter),
+    ]);
+
+    res.json({ entries, total, page, limit });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCacheEntry = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const entry = await CacheEntry.findById(req.params.id);
+    if (!entry) throw new NotFoundError("Cache entry not found");
+
+    res.json({ entry });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Purge everything, or only one source with ?source=
+export const purgeCache = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { source } = req.query;
+    const result = await CacheEntry.deleteMany(source ? { source: String(source) } : {});
+
+    res.json({ message: "Cache purged", deleted: result.deletedCount });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteCacheEntry = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const entry = await CacheEntry.findByIdAndDelete(req.params.id);
+    if (!entry) throw new NotFoundError("Cache entry not found");
+
+    res.json({ message: "Cache entry deleted" });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,171 @@
+import { Request, Response, NextFunction } from "express";
+import GenerationJob, { IGenerationJob } from "../models/GenerationJob";
+import { AuthRequest } from "../middlewares/authMiddleware";
+import { ROADMAP_STEPS } from "../utils/generateThesisRoadmap";
+import { GenerationJobEvent, startGenerationJob, subscribeToJob } from "../utils/generationJobs";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+const HEARTBEAT_INTERVAL_MS = 15000; // Keeps proxies from closing an idle stream
+const POLL_INTERVAL_MS = 2000; // Picks up progress made by other instances
+
+const findOwnedJob = async (jobId: string, userId?: string) => {
+  const job = await GenerationJob.findOne({ _id: jobId, user: userId });
+  if (!job) throw new NotFoundError("Generation job not found");
+  return job;
+};
+
+const serializeJob = (job: IGenerationJob) => ({
+  id: job._id,
+  thesisId: job.thesis,
+  status: job.status,
+  completedSteps: job.completedSteps,
+  totalSteps: ROADMAP_STEPS.length,
+  sections: job.sections,
+  sectionErrors: job.sectionErrors,
+  error: job.error,
+  errorCode: job.errorCode,
+  attempts: job.attempts,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+});
+
+const writeEvent = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+export const getGenerationJob = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as AuthRequest;
+    const job = await findOwnedJob(req.params.id, user);
+
+    res.json({ job: serializeJob(job) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Server-Sent Events: replays the completed sections, then streams new ones until the job ends.
+// Events come from this instance when it runs the job; the job document is also polled,
+// since the job may be running on another instance.
+export const streamGenerationJob = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  const { user } = req as AuthRequest;
+  const jobId = req.params.id;
+  const sentSteps = new Set<string>();
+  const buffered: GenerationJobEvent[] = [];
+  let ready = false;
+  let closed = false;
+  let heartbeat: NodeJS.Timeout | undefined;
+  let poll: NodeJS.Timeout | undefined;
+
+  const cleanup = () => {
+    closed = true;
+    unsubscribe();
+    if (heartbeat) clearInterval(heartbeat);
+    if (poll) clearInterval(poll);
+  };
+  const end = () => {
+    cleanup();
+    res.end();
+  };
+
+  const sendSection = (step: string, data: unknown, issues: unknown) => {
+    if (sentSteps.has(step)) return;
+    sentSteps.add(step);
+    writeEvent(res, "section", { section: step, data, issues });
+  };
+
+  const handleEvent = (event: GenerationJobEvent) => {
+    if (closed) return;
+    if (!ready) {
+      buffered.push(event); // Wait until the stored sections have been replayed
+      return;
+    }
+    if (event.type === "section") {
+      sendSection(event.step, event.data, event.issues);
+      return;
+    }
+    writeEvent(res, event.type, event);
+    end();
+  };
+
+  // Sends the sections stored since the last call; ends the stream once the job is done
+  const sendStoredState = (job: IGenerationJob) => {
+    for (const step of ROADMAP_STEPS) {
+      if (job.completedSteps.includes(step)) sendSection(step, job.sections?.[step] ?? null, job.sectionErrors?.[step]);
+    }
+    if (job.status === "completed") {
+      writeEvent(res, "completed", { type: "completed", thesisId: job.thesis, errors: job.sectionErrors });
+      end();
+    } else if (job.status === "failed") {
+      writeEvent(res, "failed", { type: "failed", error: job.error, code: job.errorCode });
+      end();
+    }
+  };
+
+  const pollJob = async () => {
+    try {
+      const job = await GenerationJob.findById(jobId);
+      if (closed) return;
+      if (!job) {
+        writeEvent(res, "failed", { type: "failed", error: "Generation job not found", code: "NOT_FOUND" });
+        end();
+        return;
+      }
+      sendStoredState(job);
+    } catch (error) {
+      console.error(`Error polling generation job ${jobId}:`, error);
+    }
+  };
+
+  // Subscribe before reading the job so no section is lost in between
+  const unsubscribe = subscribeToJob(jobId, handleEvent);
+
+  try {
+    const job = await findOwnedJob(jobId, user);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Disable nginx response buffering
+    });
+    req.on("close", cleanup);
+
+    writeEvent(res, "status", { status: job.status, completedSteps: job.completedSteps, totalSteps: ROADMAP_STEPS.length });
+    sendStoredState(job);
+    if (closed) return;
+
+    ready = true;
+    buffered.splice(0).forEach(handleEvent);
+    if (closed) return;
+    heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+    poll = setInterval(pollJob, POLL_INTERVAL_MS);
+  } catch (error) {
+    cleanup();
+    // Once the stream has started the error handler can only log it
+    if (res.headersSent) res.end();
+    next(error);
+  }
+};
+
+// Retry a failed job from its last completed step
+export const resumeGenerationJob = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as AuthRequest;
+    const job = await findOwnedJob(req.params.id, user);
+
+    if (job.status !== "failed") {
+      throw new ConflictError(`Only failed jobs can be resumed (job is ${job.status})`, { status: job.status });
+    }
+
+    job.status = "queued";
+    job.quotaConsumedAt = res.locals.quotaConsumedAt; // A failed job gave its generation back
+    await job.save();
+    startGenerationJob(job._id.toString());
+
+    res.status(202).json({ job: serializeJob(job) });
+  } catch (error) {
+    next(error);
+  }
+};
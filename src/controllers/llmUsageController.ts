@@ -0,0 +1,98 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import LlmUsage from "../models/LlmUsage";
+import { LlmUsageGrouping } from "../utils/validation/adminSchemas";
+
+const GROUPINGS = {
+  day: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt" } },
+  month: { $dateToString: { format: "%Y-%m", date: "$createdAt" } },
+  user: "$user",
+  thesis: "$thesis",
+  section: "$context",
+  model: "$modelName",
+} as const satisfies Record<LlmUsageGrouping, unknown>;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// ?from, ?to (dates), ?user, ?thesis, ?section, ?provider; checked by the route's query schema
+const buildFilter = (query: Request["query"]): Record<string, unknown> => {
+  const filter: Record<string, unknown> = {};
+
+  const createdAt: Record<string, Date> = {};
+  for (const [param, operator] of [["from", "$gte"], ["to", "$lt"]] as const) {
+    if (query[param] !== undefined) createdAt[operator] = new Date(String(query[param]));
+  }
+  if (Object.keys(createdAt).length) filter.createdAt = createdAt;
+
+  for (const field of ["user", "thesis"] as const) {
+    if (query[field] !== undefined) filter[field] = new mongoose.Types.ObjectId(String(query[field]));
+  }
+  if (query.section !== undefined) filter.context = String(query.section);
+  if (query.provider !== undefined) filter.provider = String(query.provider);
+  return filter;
+};
+
+const TOTALS = {
+  calls: { $sum: 1 },
+  errors: { $sum: { $cond: [{ $eq: ["$status", "error"] }, 1, 0] } },
+  repairs: { $sum: { $cond: ["$repair", 1, 0] } },
+  promptTokens: { $sum: "$promptTokens" },
+  completionTokens: { $sum: "$completionTokens" },
+  totalTokens: { $sum: "$totalTokens" },
+  estimatedCostUsd: { $sum: "$estimatedCostUsd" },
+  avgLatencyMs: { $avg: "$latencyMs" },
+};
+
+// Totals for the filtered calls, grouped by ?groupBy=day|month|user|thesis|section|model (default day)
+export const getLlmUsageStats = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const groupBy = (req.query.groupBy || "day") as LlmUsageGrouping;
+    const filter = buildFilter(req.query);
+
+    const [{ _id, ...totals } = { _id: null, calls: 0 }] = await LlmUsage.aggregate([{ $match: filter }, { $group: { _id: null, ...TOTALS } }]);
+    const groups = await LlmUsage.aggregate([
+      { $match: filter },
+      { $group: { _id: GROUPINGS[groupBy], ...TOTALS } },
+      { $sort: groupBy === "day" || groupBy === "month" ? { _id: 1 } : { estimatedCostUsd: -1 } },
+    ]);
+
+    // Show who the ids are
+    if (groupBy === "user" || groupBy === "thesis") {
+      await LlmUsage.populate(groups, {
+        path: "_id",
+        model: groupBy === "user" ? "User" : "Thesis",
+        select: groupBy === "user" ? "username email" : "title",
+      });
+    }
+
+    res.json({
+      groupBy,
+      totals,
+      groups: groups.map(({ _id, ...stats }) => ({ key: _id, ...stats })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Individual calls, newest first, with the same filters
+export const listLlmCalls = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const filter = buildFilter(req.query);
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const page = Math.max(Number(req.query.page) || 1, 1);
+
+    const [calls, total] = await Promise.all([
+      LlmUsage.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      LlmUsage.countDocuments(filter),
+    ]);
+
+    res.json({ calls, total, page, limit });
+  } catch (error) {
+    next(error);
+  }
+};
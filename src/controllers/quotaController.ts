@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from "express";
+import User from "../models/User";
+import { AuthRequest } from "../middlewares/authMiddleware";
+import { NotFoundError } from "../utils/errors";
+import { generationQuotaKey, getGenerationQuota, monthWindow, peekLimit } from "../utils/rateLimiter";
+
+// The user's generation quota for the current month
+export const getGenerationQuotaStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user: userId } = req as AuthRequest;
+    const user = await User.findById(userId).select("role");
+    if (!user) throw new NotFoundError("User not found");
+
+    const quota = getGenerationQuota(user.role);
+    if (!quota) {
+      res.json({ role: user.role, unlimited: true });
+      return;
+    }
+
+    const usage = await peekLimit(generationQuotaKey(userId as string), quota, monthWindow());
+    res.json({ role: user.role, limit: usage.limit, used: usage.used, remaining: usage.remaining, resetAt: usage.resetAt });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,179 @@
+import { Request, Response, NextFunction } from "express";
+import ReadingItem, { IReadingItem, ReadingStatus } from "../models/ReadingItem";
+import Thesis from "../models/Thesis";
+import { IPaper } from "../models/Paper";
+import { AuthRequest } from "../middlewares/authMiddleware";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { getThesisAccess } from "../utils/thesisAccess";
+import { findOrCreatePaper, normalizeTags, paperFromRelatedPaper, PaperInput, ReadingItemUpdate } from "../utils/readingList";
+import { ReadingListSort } from "../utils/validation/readingListSchemas";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+
+type ItemParams = { itemId: string };
+type PopulatedItem = Omit<IReadingItem, "paper"> & { paper: IPaper };
+
+// Reading order: what is being read first, discarded papers last
+const STATUS_ORDER: Record<ReadingStatus, number> = { reading: 0, toRead: 1, read: 2, discarded: 3 };
+
+const SORT_VALUES: Record<ReadingListSort, (item: PopulatedItem) => number | string> = {
+  added: (item) => item.createdAt.getTime(),
+  updated: (item) => item.updatedAt.getTime(),
+  rating: (item) => item.rating || 0,
+  title: (item) => item.paper.title.toLowerCase(),
+  year: (item) => item.paper.year || 0,
+  status: (item) => STATUS_ORDER[item.status],
+};
+
+const findOwnItem = async (userId: string, itemId: string) => {
+  const item = await ReadingItem.findOne({ _id: itemId, user: userId });
+  if (!item) throw new NotFoundError("Reading item not found");
+  return item;
+};
+
+// Apply the fields of an add / update request (the raw body, checked by the route's schema); null clears notes and rating
+const applyItemUpdate = (item: IReadingItem, update: ReadingItemUpdate) => {
+  if (update.status && update.status !== item.status) {
+    item.status = update.status;
+    item.statusChangedAt = new Date();
+  }
+  if (update.tags) item.tags = normalizeTags(update.tags);
+  if (update.highlights) item.set("highlights", update.highlights);
+  if (update.notes !== undefined) item.notes = update.notes || undefined;
+  if (update.rating !== undefined) item.rating = update.rating || undefined;
+};
+
+/**
+ * The user's reading list. Filters: status (comma-separated), tag, thesis (an id or "none"),
+ * minRating and q (title / author search). Sort by added, updated, rating, title, year
+ * or status with order=asc|desc.
+ */
+export const listReadingItems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as AuthRequest;
+    const { status, tag, thesis, minRating, q } = req.query;
+    const sort = String(req.query.sort || "added") as ReadingListSort;
+    const order = req.query.order === "asc" ? 1 : -1;
+
+    const filter: Record<string, unknown> = { user };
+    if (typeof status === "string") filter.status = { $in: status.split(",") };
+    if (typeof tag === "string" && tag) filter.tags = tag.trim().toLowerCase();
+    if (thesis === "none") filter.thesis = null;
+    else if (typeof thesis === "string") filter.thesis = thesis;
+    if (minRating !== undefined) filter.rating = { $gte: Number(minRating) };
+
+    const items = (await ReadingItem.find(filter).populate("paper").populate("thesis", "title")) as unknown as PopulatedItem[];
+
+    const search = typeof q === "string" ? q.trim().toLowerCase() : "";
+    const value = SORT_VALUES[sort];
+    const result = items
+      .filter((item) => item.paper)
+      .filter((item) => !search || `${item.paper.title} ${item.paper.authors}`.toLowerCase().includes(search))
+      .sort((a, b) => (value(a) < value(b) ? -order : value(a) > value(b) ? order : 0));
+
+    res.json({ items: result, total: result.length });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Add any paper as { paper: { title, doi?, url?, ... }, thesisId?, status?, tags?, notes?, rating? }
+export const addReadingItem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as AuthRequest;
+    const body = req.body;
+    const paper: PaperInput = body.paper;
+
+    if (!paper.doi && !paper.url) throw new BadRequestError("A paper needs a DOI or a URL");
+
+    // Papers can only be read for theses the user has access to
+    if (body.thesisId) {
+      const thesis = await Thesis.findById(body.thesisId).select("user collaborators");
+      if (!thesis || !getThesisAccess(thesis, user)) throw new NotFoundError("Thesis not found");
+    }
+
+    const stored = await findOrCreatePaper(paper);
+    const thesis = body.thesisId || null;
+    if (await ReadingItem.exists({ user, paper: stored._id, thesis })) {
+      throw new ConflictError("This paper is already on your reading list");
+    }
+
+    const item = new ReadingItem({ user, paper: stored._id, thesis });
+    applyItemUpdate(item, body);
+    await item.save();
+
+    res.status(201).json({ item: await item.populate("paper") });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add related papers of a generated roadmap to the user's reading list for that thesis.
+ * Body: { paperIds? } (related paper ids, every related paper when omitted).
+ * Papers already on the list are skipped.
+ */
+export const addRelatedPapersToReadingList = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { paperIds } = (req.body || {}) as { paperIds?: string[] };
+
+    const related = paperIds
+      ? thesis.relatedPapers.filter((paper) => paper._id && paperIds.includes(paper._id.toString()))
+      : thesis.relatedPapers;
+    if (related.length === 0) throw new BadRequestError("No related papers to add");
+
+    const added: IReadingItem[] = [];
+    let skipped = 0;
+    for (const paper of related) {
+      const stored = await findOrCreatePaper(paperFromRelatedPaper(thesis, paper));
+      if (await ReadingItem.exists({ user, paper: stored._id, thesis: thesis._id })) {
+        skipped++;
+        continue;
+      }
+      added.push(await ReadingItem.create({ user, paper: stored._id, thesis: thesis._id }));
+    }
+
+    res.status(201).json({ added: added.length, skipped, items: await ReadingItem.populate(added, { path: "paper" }) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReadingItem = async (req: Request<ItemParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as unknown as AuthRequest;
+    const item = await findOwnItem(user as string, req.params.itemId);
+
+    res.json({ item: await item.populate("paper") });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update status, tags, highlights (replaced as a whole), notes or rating
+export const updateReadingItem = async (req: Request<ItemParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as unknown as AuthRequest;
+    const item = await findOwnItem(user as string, req.params.itemId);
+
+    applyItemUpdate(item, req.body);
+    await item.save();
+
+    res.json({ item: await item.populate("paper") });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// The paper itself stays stored for the other reading lists
+export const deleteReadingItem = async (req: Request<ItemParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as unknown as AuthRequest;
+    const item = await findOwnItem(user as string, req.params.itemId);
+
+    await item.deleteOne();
+    res.json({ message: "Paper removed from reading list" });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from "express";
+import { AuthRequest } from "../middlewares/authMiddleware";
+import { normalizeLanguage } from "../utils/prompts";
+import { SEARCH_TYPES, searchUserContent, SearchType } from "../utils/search";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Full-text search over the user's theses and reading list.
+ * ?q (required), ?types (comma-separated: thesis, step, methodology, paper, note),
+ * ?thesis (an id), ?language (query stemming), ?page, ?limit.
+ * When `truncated` is true, some collection had more matches than the search looks at:
+ * `total` and `counts` are then lower bounds and later pages may be incomplete.
+ */
+export const search = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as AuthRequest;
+    const q = String(req.query.q).trim();
+    const types = typeof req.query.types === "string" ? (req.query.types.split(",") as SearchType[]) : undefined;
+    const thesis = typeof req.query.thesis === "string" ? req.query.thesis : undefined;
+    const language = normalizeLanguage(req.query.language) ?? undefined;
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const page = Math.max(Number(req.query.page) || 1, 1);
+
+    const { hits, truncated } = await searchUserContent(q, user as string, { types, thesis, language });
+
+    // Hits per type, so the frontend can show counts on its type filters
+    const counts = Object.fromEntries(SEARCH_TYPES.map((type) => [type, hits.filter((hit) => hit.type === type).length]));
+
+    res.json({ results: hits.slice((page - 1) * limit, page * limit), total: hits.length, truncated, counts, page, limit });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from "express";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { getUnansweredQuestions } from "../utils/clarifyingQuestions";
+import { BadRequestError } from "../utils/errors";
+
+// The questions asked before generation, with the answers given so far
+export const getClarifyingQuestions = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+
+    res.json({
+      questions: thesis.clarifyingQuestions,
+      unanswered: getUnansweredQuestions(thesis).length,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Save answers as [{ questionId, answer }]; an empty answer clears it
+export const answerClarifyingQuestions = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const answers: { questionId: string; answer: string }[] = req.body.answers;
+
+    for (const entry of answers) {
+      const question = thesis.clarifyingQuestions.find((q) => q._id.toString() === entry.questionId);
+      if (!question) throw new BadRequestError(`Unknown clarifying question: ${entry.questionId}`);
+
+      const answer = entry.answer.trim();
+      question.answer = answer || undefined;
+      question.answeredAt = answer ? new Date() : undefined;
+    }
+    await thesis.save();
+
+    const unanswered = getUnansweredQuestions(thesis).length;
+    res.json({ questions: thesis.clarifyingQuestions, unanswered, readyToGenerate: unanswered === 0 });
+  } catch (error) {
+    next(error);
+  }
+};
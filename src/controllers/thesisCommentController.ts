@@ -0,0 +1,215 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import Comment, { IComment } from "../models/Comment";
+import { IThesis } from "../models/Thesis";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { CommentAnchor, resolveCommentAnchor } from "../utils/commentAnchors";
+import { BadRequestError, ForbiddenError, NotFoundError } from "../utils/errors";
+import { ThesisSection } from "../models/Thesis";
+
+// "@[Display Name](userId)": usernames may contain spaces and are not unique, so mentions carry the user id
+const MENTION_PATTERN = /@\[([^\]\n]{1,100})\]\(([a-f\d]{24})\)/gi;
+
+type CommentParams = { id: string; commentId: string };
+
+// Users mentioned in the body, kept only if they are the thesis owner or a collaborator
+const resolveMentions = (thesis: IThesis, body: string): mongoose.Types.ObjectId[] => {
+  const ids = new Set([...body.matchAll(MENTION_PATTERN)].map((match) => match[2].toLowerCase()));
+  const participants = [thesis.user, ...thesis.collaborators.map((entry) => entry.user)];
+  return participants.filter((id, index) => ids.has(id.toString()) && participants.findIndex((other) => other.equals(id)) === index);
+};
+
+const findThesisComment = async (thesis: IThesis, commentId: string, message = "Comment not found") => {
+  const comment = await Comment.findOne({ _id: commentId, thesis: thesis._id });
+  if (!comment) throw new NotFoundError(message);
+  return comment;
+};
+
+// Shape a comment for the current user
+const present = (comment: IComment, userId: string) => {
+  const { readBy, ...rest } = comment.toObject();
+  return { ...rest, unread: !readBy.some((reader: mongoose.Types.ObjectId) => reader.toString() === userId) };
+};
+
+type CommentNode = ReturnType<typeof present> & { replies: CommentNode[] };
+
+// Comments on a thesis as threads, optionally filtered by section / item
+export const listComments = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { section, itemId, includeResolved } = req.query;
+
+    const filter: Record<string, unknown> = { thesis: thesis._id };
+    if (typeof section === "string") filter.section = section;
+    if (typeof itemId === "string") filter.itemId = itemId;
+
+    const comments = await Comment.find(filter).populate("author", "username").sort({ createdAt: 1 });
+
+    // Build the reply tree; resolution is tracked on the thread's root comment
+    const nodes = new Map<string, CommentNode>(
+      comments.map((comment) => [comment._id.toString(), { ...present(comment, user as string), replies: [] }])
+    );
+    const threads: CommentNode[] = [];
+    for (const comment of comments) {
+      const node = nodes.get(comment._id.toString())!;
+      const parent = comment.parent && nodes.get(comment.parent.toString());
+      if (parent) parent.replies.push(node);
+      else threads.push(node);
+    }
+
+    res.json({ threads: includeResolved === "true" ? threads : threads.filter((thread) => !thread.resolved) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Start a thread on a section or item, or reply to a comment (body.parent)
+export const createComment = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { section, itemId, body, parent: parentId } = req.body as {
+      section?: ThesisSection;
+      itemId?: string;
+      body: string;
+      parent?: string;
+    };
+
+    let anchor: { section: string; itemId?: string } & Partial<CommentAnchor>;
+    let parent: IComment | null = null;
+    if (parentId) {
+      parent = await findThesisComment(thesis, parentId, "Parent comment not found");
+      // Replies share the anchor of the comment they answer
+      anchor = { section: parent.section, itemId: parent.itemId, fingerprint: parent.fingerprint, anchorText: parent.anchorText };
+    } else {
+      if (!section) throw new BadRequestError("A section is required unless the comment replies to another one");
+      const resolved = itemId !== undefined ? resolveCommentAnchor(thesis, section, itemId) : null;
+      if (itemId !== undefined && !resolved) throw new NotFoundError("Item not found in section");
+      anchor = { section, ...resolved };
+    }
+
+    const comment = await Comment.create({
+      thesis: thesis._id,
+      ...anchor,
+      orphaned: parent?.orphaned ?? false,
+      parent: parent?._id,
+      author: user,
+      body: body.trim(),
+      mentions: resolveMentions(thesis, body),
+      readBy: [user],
+    });
+
+    res.status(201).json({ comment: present(comment, user as string) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Authors can edit their own comments
+export const updateComment = async (req: Request<CommentParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { body } = req.body;
+    const comment = await findThesisComment(thesis, req.params.commentId);
+
+    if (comment.author.toString() !== user) throw new ForbiddenError("Only the author can edit a comment");
+
+    comment.body = body.trim();
+    comment.mentions = resolveMentions(thesis, body);
+    comment.editedAt = new Date();
+    comment.readBy = [comment.author]; // Edits are news to everyone else
+    await comment.save();
+
+    res.json({ comment: present(comment, user as string) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// The author or the thesis owner can delete a comment; its replies go with it
+export const deleteComment = async (req: Request<CommentParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, thesisAccess, user } = req as unknown as ThesisRequest;
+    const comment = await findThesisComment(thesis, req.params.commentId);
+
+    if (comment.author.toString() !== user && thesisAccess !== "owner") {
+      throw new ForbiddenError("Only the author or the thesis owner can delete a comment");
+    }
+
+    const ids = [comment._id];
+    for (let frontier = [comment._id]; frontier.length; ) {
+      const replies = await Comment.find({ parent: { $in: frontier } }).select("_id");
+      frontier = replies.map((reply) => reply._id);
+      ids.push(...frontier);
+    }
+    await Comment.deleteMany({ _id: { $in: ids } });
+
+    res.json({ message: "Comment deleted", deleted: ids.length });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Resolve or reopen a thread
+const setResolved = (resolved: boolean) => {
+  return async (req: Request<CommentParams>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { thesis, user } = req as unknown as ThesisRequest;
+      const comment = await findThesisComment(thesis, req.params.commentId);
+
+      comment.resolved = resolved;
+      comment.resolvedAt = resolved ? new Date() : undefined;
+      comment.resolvedBy = resolved ? new mongoose.Types.ObjectId(user) : undefined;
+      await comment.save();
+
+      res.json({ comment: present(comment, user as string) });
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const resolveComment = setResolved(true);
+export const unresolveComment = setResolved(false);
+
+// Mark comments as read: the given ids, or every comment on the thesis
+export const markCommentsRead = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { commentIds } = req.body || {};
+
+    const filter: Record<string, unknown> = { thesis: thesis._id };
+    if (commentIds) filter._id = { $in: commentIds };
+    const result = await Comment.updateMany(filter, { $addToSet: { readBy: user } });
+
+    res.json({ marked: result.modifiedCount });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Unread comments for the current user, in total, per section and mentioning them
+export const getUnreadCommentCount = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const userId = new mongoose.Types.ObjectId(user);
+
+    const counts = await Comment.aggregate([
+      { $match: { thesis: thesis._id, readBy: { $ne: userId } } },
+      {
+        $group: {
+          _id: "$section",
+          unread: { $sum: 1 },
+          mentions: { $sum: { $cond: [{ $in: [userId, "$mentions"] }, 1, 0] } },
+        },
+      },
+    ]);
+
+    res.json({
+      unread: counts.reduce((sum, entry) => sum + entry.unread, 0),
+      mentions: counts.reduce((sum, entry) => sum + entry.mentions, 0),
+      bySection: Object.fromEntries(counts.map((entry) => [entry._id, entry.unread])),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
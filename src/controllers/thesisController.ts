@@ -1,20 +1,204 @@
-import { Request, Response } from "express";
-import { generateThesisRoadmap } from "../utils/generateThesisRoadmap";
+import { Request, Response, NextFunction } from "express";
+import Thesis from "../models/Thesis";
+import GenerationJob from "../models/GenerationJob";
+import { AuthRequest } from "../middlewares/authMiddleware";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { recordRevisionSafely } from "../utils/thesisRevisions";
+import { accessibleThesesFilter, getThesisAccess } from "../utils/thesisAccess";
+import { startGenerationJob } from "../utils/generationJobs";
+import Comment from "../models/Comment";
+import ThesisInvitation from "../models/ThesisInvitation";
+import ThesisRevision from "../models/ThesisRevision";
+import { detachReadingItems } from "../utils/readingList";
+import { SECTION_FIELDS, THESIS_SECTIONS } from "../utils/thesisSections";
+import { reanchorComments } from "../utils/commentAnchors";
+import { computeThesisProgress, updateThesisStatus } from "../utils/thesisProgress";
+import { DEFAULT_LANGUAGE, normalizeLanguage } from "../utils/prompts";
+import { generateClarifyingQuestions, getClarifications, getUnansweredQuestions } from "../utils/clarifyingQuestions";
+import { getThesisProfile, hasThesisProfile, parseThesisProfile, PROFILE_FIELDS } from "../utils/thesisProfile";
+import { ConflictError, ValidationError } from "../utils/errors";
 
-export const createThesisRoadmap = async (req: Request, res: Response): Promise<void> => {
+const MAX_TITLE_LENGTH = 120;
+
+// Fields a student may edit through PUT /api/thesis/:id
+const EDITABLE_FIELDS = [
+  "title",
+  "description",
+  "language", // Used by later regenerations; existing sections are not translated
+  "status",
+  "roadmap",
+  "relatedPapers",
+  "methodology",
+  "researchGapAnalysis",
+  "prosAndCons",
+  "timeline",
+] as const;
+
+const deriveTitle = (thesisDescription: string): string => {
+  const firstLine = thesisDescription.trim().split("\n")[0];
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 3)}...` : firstLine;
+};
+
+// Create a draft thesis and ask its clarifying questions; the roadmap is generated once they are answered
+export const createThesisRoadmap = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as AuthRequest;
+    const { thesisDescription, title, searchKeywords } = req.body;
+    const language = normalizeLanguage(req.body.language) ?? DEFAULT_LANGUAGE;
+
+    const profile = parseThesisProfile(Object.fromEntries(PROFILE_FIELDS.map((field) => [field, req.body[field]])));
+    if (!profile.ok) throw new ValidationError(profile.issues, "Invalid or inconsistent thesis profile");
+
+    const thesis = new Thesis({
+      title: title || deriveTitle(thesisDescription),
+      description: thesisDescription,
+      language,
+      searchKeywords,
+      profile: hasThesisProfile(profile.value) ? profile.value : undefined,
+      user,
+    });
+    const questions = await generateClarifyingQuestions(thesisDescription, {
+      language,
+      profile: profile.value,
+      call: { user, thesis: thesis._id },
+    });
+    thesis.set("clarifyingQuestions", questions);
+    await thesis.save();
+
+    res.status(201).json({
+      thesisId: thesis._id,
+      questions: thesis.clarifyingQuestions,
+      answersUrl: `/api/thesis/${thesis._id}/clarifications`,
+      generateUrl: `/api/thesis/${thesis._id}/generate`,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Queue the roadmap generation of a draft thesis; progress is served by the job routes
+export const startThesisGeneration = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+
+    const existingJob = await GenerationJob.findOne({ thesis: thesis._id }).sort({ createdAt: -1 });
+    if (existingJob || thesis.roadmap.length > 0) {
+      throw new ConflictError(
+        "The roadmap of this thesis has already been generated",
+        existingJob ? { jobId: existingJob._id, statusUrl: `/api/thesis/jobs/${existingJob._id}` } : undefined
+      );
+    }
+
+    const unanswered = getUnansweredQuestions(thesis);
+    if (unanswered.length > 0) {
+      throw new ConflictError("Answer every clarifying question before generating the roadmap", {
+        unanswered: unanswered.map((entry) => entry._id),
+      });
+    }
+
+    const job = await GenerationJob.create({
+      user,
+      thesis: thesis._id,
+      thesisDescription: thesis.description,
+      language: thesis.language,
+      searchKeywords: thesis.searchKeywords,
+      clarifications: getClarifications(thesis),
+      profile: getThesisProfile(thesis),
+      quotaConsumedAt: res.locals.quotaConsumedAt, // Given back if the job fails
+    });
+
+    startGenerationJob(job._id.toString());
+
+    res.status(202).json({
+      jobId: job._id,
+      thesisId: thesis._id,
+      statusUrl: `/api/thesis/jobs/${job._id}`,
+      eventsUrl: `/api/thesis/jobs/${job._id}/events`,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the theses the authenticated user owns or collaborates on, newest first
+export const listTheses = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user } = req as AuthRequest;
+    const theses = await Thesis.find(accessibleThesesFilter(user as string))
+      .select("title description language status user collaborators roadmap timeline schedule createdAt updatedAt")
+      .sort({ createdAt: -1 });
+
+    res.json({
+      theses: theses.map((thesis) => ({
+        _id: thesis._id,
+        title: thesis.title,
+        description: thesis.description,
+        language: thesis.language,
+        status: thesis.status,
+        access: getThesisAccess(thesis, user),
+        progress: computeThesisProgress(thesis),
+        createdAt: thesis.createdAt,
+        updatedAt: thesis.get("updatedAt"),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getThesis = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, thesisAccess } = req as unknown as ThesisRequest;
+
+    // Read-only: overdue milestones are moved by POST /:id/timeline/reschedule or the next milestone update
+    res.json({ thesis, access: thesisAccess, progress: computeThesisProgress(thesis) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateThesis = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { thesisDescription } = req.body;
+    const { thesis, user } = req as unknown as ThesisRequest;
 
-    if (!thesisDescription) {
-      res.status(400).json({ message: "Thesis description is required" });
-      return;
+    if (req.body.profile !== undefined) {
+      const profile = parseThesisProfile(req.body.profile);
+      if (!profile.ok) throw new ValidationError(profile.issues, "Invalid or inconsistent thesis profile");
+      thesis.set("profile", profile.value);
     }
+    for (const field of EDITABLE_FIELDS) {
+      if (req.body[field] !== undefined) {
+        thesis.set(field, req.body[field]);
+      }
+    }
+    const editedSections = THESIS_SECTIONS.filter((section) => req.body[SECTION_FIELDS[section]] !== undefined);
+    if (req.body.roadmap !== undefined && req.body.status === undefined) {
+      updateThesisStatus(thesis);
+    }
+    await thesis.save();
+    await reanchorComments(thesis, editedSections);
+    await recordRevisionSafely(thesis, { author: user, cause: "manual_edit" });
+
+    res.json({ thesis });
+  } catch (error) {
+    next(error); // Mongoose validation errors of edited sections answer VALIDATION_FAILED
+  }
+};
+
+export const deleteThesis = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
 
-    const roadmap = await generateThesisRoadmap(thesisDescription);
+    await thesis.deleteOne();
+    await Promise.all([
+      Comment.deleteMany({ thesis: thesis._id }),
+      ThesisRevision.deleteMany({ thesis: thesis._id }),
+      ThesisInvitation.deleteMany({ thesis: thesis._id }),
+      detachReadingItems(thesis._id),
+    ]);
 
-    res.json({ roadmap }); // ✅ No need to return Response explicitly
+    res.json({ message: "Thesis deleted successfully" });
   } catch (error) {
-    console.error("Error generating thesis roadmap:", error);
-    res.status(500).json({ message: "Failed to generate thesis roadmap" });
+    next(error);
   }
 };
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from "express";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { buildThesisMarkdown } from "../utils/export/thesisDocument";
+import { markdownToHtmlDocument } from "../utils/export/renderHtml";
+import { markdownToLatexDocument } from "../utils/export/renderLatex";
+
+const EXPORT_FORMATS = {
+  md: { contentType: "text/markdown; charset=utf-8", inline: false },
+  tex: { contentType: "application/x-tex; charset=utf-8", inline: false },
+  html: { contentType: "text/html; charset=utf-8", inline: true }, // Opened in the browser to print
+};
+
+type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+// "The Impact of AI on Education" -> "the-impact-of-ai-on-education"
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "thesis";
+
+// Download the roadmap as one Markdown, LaTeX or printable HTML document
+export const exportThesis = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const format = String(req.query.format || "md") as ExportFormat;
+
+    const markdown = buildThesisMarkdown(thesis);
+    const body =
+      format === "html"
+        ? markdownToHtmlDocument(markdown, thesis.title)
+        : format === "tex"
+          ? markdownToLatexDocument(markdown, thesis.title)
+          : markdown;
+
+    const { contentType, inline } = EXPORT_FORMATS[format];
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `${inline ? "inline" : "attachment"}; filename="${slugify(thesis.title)}.${format}"`);
+    res.send(body);
+  } catch (error) {
+    next(error);
+  }
+};
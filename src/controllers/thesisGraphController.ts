@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from "express";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { NotFoundError } from "../utils/errors";
+
+// Nodes and citation edges around the top-ranked papers, for the frontend graph view
+export const getCitationGraph = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+
+    if (!thesis.citationGraph) throw new NotFoundError("No citation graph was built for this thesis");
+
+    const { nodes, edges, builtAt } = thesis.citationGraph;
+    res.json({ nodes, edges, builtAt });
+  } catch (error) {
+    next(error);
+  }
+};
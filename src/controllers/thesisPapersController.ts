@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from "express";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { mergePapers } from "../utils/paperMerge";
+import { CitationRecord, fromRelatedPapers, fromResearchPapers, toResearchPaper } from "../utils/citations/citationRecord";
+import { formatBibtex, parseBibtex } from "../utils/citations/bibtex";
+import { formatRis, parseRis } from "../utils/citations/ris";
+import { formatCslJson } from "../utils/citations/cslJson";
+import { BadRequestError } from "../utils/errors";
+
+const BIBLIOGRAPHY_FORMATS = {
+  bibtex: { extension: "bib", contentType: "application/x-bibtex; charset=utf-8", format: formatBibtex },
+  ris: { extension: "ris", contentType: "application/x-research-info-systems; charset=utf-8", format: formatRis },
+  "csl-json": { extension: "json", contentType: "application/vnd.citationstyles.csl+json; charset=utf-8", format: formatCslJson },
+};
+
+type BibliographyFormat = keyof typeof BIBLIOGRAPHY_FORMATS;
+type ImportFormat = "bibtex" | "ris";
+
+const IMPORT_SOURCE = "Import";
+
+// Guess the format of an uploaded library from its content
+const detectImportFormat = (content: string): ImportFormat | null => {
+  if (/^\s*TY  - /m.test(content)) return "ris";
+  if (/@\w+\s*\{/.test(content)) return "bibtex";
+  return null;
+};
+
+// Write the thesis's papers as BibTeX, RIS or CSL-JSON
+export const exportThesisPapers = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const format = String(req.query.format || "bibtex") as BibliographyFormat;
+    const scope = String(req.query.scope || "related"); // "related" (ranked papers) or "sources" (every paper found)
+
+    const records = scope === "sources" ? fromResearchPapers(thesis.sourcePapers) : fromRelatedPapers(thesis.relatedPapers);
+    const { extension, contentType, format: write } = BIBLIOGRAPHY_FORMATS[format];
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="thesis-${thesis._id}-papers.${extension}"`);
+    res.send(write(records));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add the references of an uploaded .bib or .ris file to the thesis's source papers,
+ * which feed the ranking and gap-analysis prompts. Accepts the raw file as the body
+ * or JSON { content, format? }.
+ */
+export const importThesisPapers = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const content: unknown = typeof req.body === "string" ? req.body : req.body?.content;
+    const requested = req.query.format || (typeof req.body === "object" ? req.body?.format : undefined);
+
+    if (typeof content !== "string" || !content.trim()) {
+      throw new BadRequestError("Upload a .bib or .ris file as the request body, or send { content, format }");
+    }
+
+    const format = (requested ? String(requested) : detectImportFormat(content)) as ImportFormat | null;
+    if (format !== "bibtex" && format !== "ris") {
+      throw new BadRequestError("Could not detect the file format. Pass format=bibtex or format=ris");
+    }
+
+    let records: CitationRecord[];
+    try {
+      records = format === "bibtex" ? parseBibtex(content) : parseRis(content);
+    } catch (error: any) {
+      throw new BadRequestError(`Invalid ${format} file: ${error.message}`);
+    }
+    if (records.length === 0) throw new BadRequestError("No references with a title were found in the file");
+
+    const before = thesis.sourcePapers.length;
+    thesis.sourcePapers = mergePapers([thesis.toObject().sourcePapers, records.map((record) => toResearchPaper(record, IMPORT_SOURCE))]);
+    await thesis.save();
+
+    const added = thesis.sourcePapers.length - before;
+    res.json({
+      message: `Imported ${added} new paper(s)`,
+      parsed: records.length,
+      added,
+      duplicates: records.length - added,
+      sourcePapers: thesis.sourcePapers,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
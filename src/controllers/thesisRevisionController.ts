@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction } from "express";
+import ThesisRevision from "../models/ThesisRevision";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { applyRevisionSnapshot, recordRevision } from "../utils/thesisRevisions";
+import { diffSnapshots } from "../utils/revisionDiff";
+import { reanchorComments } from "../utils/commentAnchors";
+import { THESIS_SECTIONS } from "../utils/thesisSections";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const parseRevisionNumber = (value: unknown): number | null => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : null;
+};
+
+// Revisions of a thesis, newest first, without their snapshots
+export const listRevisions = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const before = parseRevisionNumber(req.query.before);
+
+    const revisions = await ThesisRevision.find({ thesis: thesis._id, ...(before && { number: { $lt: before } }) })
+      .select("-snapshot")
+      .populate("author", "username")
+      .sort({ number: -1 })
+      .limit(limit);
+
+    res.json({ revisions });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getRevision = async (req: Request<{ id: string; number: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const number = parseRevisionNumber(req.params.number);
+    const revision = number && (await ThesisRevision.findOne({ thesis: thesis._id, number }).populate("author", "username"));
+    if (!revision) throw new NotFoundError("Revision not found");
+
+    res.json({ revision });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Structural diff between ?from and ?to (defaults: the latest revision and the one before it)
+export const diffRevisions = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+
+    let to = parseRevisionNumber(req.query.to);
+    if (!to) {
+      const latest = await ThesisRevision.findOne({ thesis: thesis._id }).sort({ number: -1 }).select("number");
+      to = latest?.number ?? null;
+    }
+    const from = req.query.from === undefined ? (to ? to - 1 : null) : parseRevisionNumber(req.query.from);
+    if (!to || !from) throw new BadRequestError("from and to must be revision numbers, and the thesis needs two revisions");
+
+    const revisions = await ThesisRevision.find({ thesis: thesis._id, number: { $in: [from, to] } });
+    const before = revisions.find((revision) => revision.number === from);
+    const after = revisions.find((revision) => revision.number === to);
+    if (!before || !after) throw new NotFoundError("Revision not found");
+
+    res.json({ from, to, diff: diffSnapshots(before.snapshot, after.snapshot) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Restore the content of an earlier revision; the rollback itself becomes a new revision
+export const rollbackToRevision = async (req: Request<{ id: string; number: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const number = parseRevisionNumber(req.params.number);
+    const revision = number && (await ThesisRevision.findOne({ thesis: thesis._id, number }));
+    if (!revision) throw new NotFoundError("Revision not found");
+
+    applyRevisionSnapshot(thesis, revision.snapshot);
+    await thesis.save();
+    await reanchorComments(thesis, THESIS_SECTIONS);
+    const created = await recordRevision(thesis, { author: user, cause: "rollback", note: `Rolled back to revision ${number}` });
+
+    res.json({ thesis, revision: created && { number: created.number, changedFields: created.changedFields } });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction } from "express";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { recordRevisionSafely } from "../utils/thesisRevisions";
+import { generateSection } from "../utils/generateThesisRoadmap";
+import { PromptGenerator, PromptOptions } from "../utils/promptGenerator";
+import { getClarifications } from "../utils/clarifyingQuestions";
+import { getThesisProfile } from "../utils/thesisProfile";
+import { LlmCallContext } from "../utils/llm";
+import { setStepStatus, updateThesisStatus } from "../utils/thesisProgress";
+import { Blackout, rescheduleIfSlipped, ScheduleError, scheduleSteps, startOfDay } from "../utils/timelineScheduler";
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+
+const DEFAULT_WEIGHT = 1;
+
+type DateValue = string | number; // Checked by the route's schema
+
+// Blackouts ending before they start are the only thing the schema can't catch
+const parseBlackouts = (value: { start: DateValue; end: DateValue; label?: string }[] = []): Blackout[] => {
+  const issues = value
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => new Date(entry.end) < new Date(entry.start))
+    .map(({ index }) => ({ path: `body.blackouts[${index}].end`, message: "Must be on or after start" }));
+  if (issues.length > 0) throw new ValidationError(issues);
+
+  return value.map((entry) => ({ start: new Date(entry.start), end: new Date(entry.end), label: entry.label }));
+};
+
+// Ask the LLM for a weight per step; fall back to equal weights if it can't answer
+const estimateWeights = async (
+  thesisDescription: string,
+  steps: { stepNumber: number; title: string; details: string }[],
+  call: LlmCallContext,
+  promptOptions: PromptOptions
+) => {
+  const weights = new Map<number, number>();
+  try {
+    const prompt = PromptGenerator.effortEstimates(thesisDescription, JSON.stringify(steps, null, 2), promptOptions);
+    const result = await generateSection("effortEstimates", prompt, { call });
+    result.value?.forEach((estimate) => weights.set(estimate.stepNumber, estimate.weight));
+    if (!result.value) {
+      console.warn("Effort estimation failed validation, using equal weights.");
+    }
+  } catch (error: any) {
+    console.warn("Effort estimation failed, using equal weights:", error.message || error);
+  }
+  return weights;
+};
+
+// Build the timeline from the roadmap steps, a deadline and optional blackout periods
+export const scheduleThesis = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { skipWeekends = false } = req.body;
+    const startDate = req.body.startDate === undefined ? startOfDay(new Date()) : new Date(req.body.startDate);
+    const deadline = new Date(req.body.deadline);
+    const blackouts = parseBlackouts(req.body.blackouts);
+
+    const steps = thesis.roadmap.map(({ stepNumber, title, details }) => ({ stepNumber, title, details }));
+    if (steps.length === 0) throw new ConflictError("The thesis has no roadmap steps to schedule yet");
+
+    const weights = await estimateWeights(thesis.description, steps, { user, thesis: thesis._id }, {
+      language: thesis.language,
+      clarifications: getClarifications(thesis),
+      profile: getThesisProfile(thesis),
+    });
+    const options = { startDate, deadline, blackouts, skipWeekends: Boolean(skipWeekends) };
+    const milestones = scheduleSteps(
+      steps.map((step) => ({ ...step, weight: weights.get(step.stepNumber) ?? DEFAULT_WEIGHT })),
+      options
+    );
+
+    thesis.set("schedule", { ...options, rescheduleCount: 0, atRisk: false });
+    thesis.set("timeline", milestones);
+    await thesis.save();
+    await recordRevisionSafely(thesis, { author: user, cause: "schedule" });
+
+    res.json({ schedule: thesis.schedule, timeline: thesis.timeline });
+  } catch (error) {
+    next(error instanceof ScheduleError ? new BadRequestError(error.message) : error);
+  }
+};
+
+// Spread the unfinished milestones over the remaining time if one of them is overdue
+export const rescheduleTimeline = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    if (!thesis.schedule) throw new ConflictError("The thesis has no schedule yet");
+
+    const rescheduled = rescheduleIfSlipped(thesis);
+    if (rescheduled) {
+      await thesis.save();
+      await recordRevisionSafely(thesis, { author: user, cause: "schedule", note: "Overdue milestones rescheduled" });
+    }
+
+    res.json({ rescheduled, schedule: thesis.schedule, timeline: thesis.timeline });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Mark a milestone done (or not) or move its due date; overdue milestones are rescheduled
+export const updateMilestone = async (req: Request<{ id: string; milestoneId: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { completed, dueDate } = req.body;
+
+    const milestone = thesis.timeline.find((entry) => entry._id.toString() === req.params.milestoneId);
+    if (!milestone) throw new NotFoundError("Milestone not found");
+
+    if (completed !== undefined) {
+      milestone.completedAt = completed ? milestone.completedAt || new Date() : undefined;
+      // Keep the roadmap step in sync; the thesis status follows
+      const step = thesis.roadmap.find((entry) => entry.stepNumber === milestone.stepNumber);
+      if (step && completed) setStepStatus(thesis, step, "done");
+      if (step && !completed && step.status === "done") setStepStatus(thesis, step, "doing");
+      updateThesisStatus(thesis);
+    }
+    if (dueDate !== undefined) milestone.dueDate = new Date(dueDate);
+
+    rescheduleIfSlipped(thesis);
+    await thesis.save();
+    await recordRevisionSafely(thesis, { author: user, cause: "manual_edit" });
+
+    res.json({ schedule: thesis.schedule, timeline: thesis.timeline });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from "express";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { recordRevisionSafely } from "../utils/thesisRevisions";
+import { buildSectionPrompt, generateSection } from "../utils/generateThesisRoadmap";
+import { reanchorComments } from "../utils/commentAnchors";
+import { getClarifications } from "../utils/clarifyingQuestions";
+import { getThesisProfile } from "../utils/thesisProfile";
+import { getReadingNotes } from "../utils/readingList";
+import { applyRoadmapSections, archiveThesisSection, getThesisSection, restoreThesisSection } from "../utils/thesisSections";
+import { AppError, NotFoundError } from "../utils/errors";
+import { ThesisSection } from "../models/Thesis";
+
+type SectionParams = { id: string; section: ThesisSection };
+
+// Regenerate one section from the saved description and papers, keeping the old version
+export const regenerateThesisSection = async (req: Request<SectionParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { section } = req.params;
+    const { guidance } = req.body || {};
+
+    const prompt = buildSectionPrompt(section, thesis.description, thesis.sourcePapers, {
+      guidance,
+      language: thesis.language,
+      clarifications: getClarifications(thesis),
+      profile: getThesisProfile(thesis),
+      // What the student noted while reading shows which gaps are still open (never other collaborators' notes)
+      readingNotes: section === "researchGapAnalysis" ? await getReadingNotes(thesis._id, [user as string, thesis.user]) : undefined,
+    });
+    const result = await generateSection(section, prompt, { useCache: false, call: { user, thesis: thesis._id } });
+
+    if (result.value === null) {
+      throw new AppError("LLM_PARSE_FAILED", `The LLM answer for ${section} could not be parsed`, { issues: result.issues });
+    }
+
+    const historyId = archiveThesisSection(thesis, section, guidance);
+    applyRoadmapSections(thesis, { [section]: result.value });
+    await thesis.save();
+    await reanchorComments(thesis, [section]);
+    await recordRevisionSafely(thesis, { author: user, cause: "regeneration", note: guidance });
+
+    res.json({ section, value: getThesisSection(thesis, section), previousVersionId: historyId });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Previous versions of one section, newest first
+export const getThesisSectionHistory = async (req: Request<SectionParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const { section } = req.params;
+    const history = thesis.sectionHistory.filter((entry) => entry.section === section).reverse();
+
+    res.json({ section, history });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Restore a previous version (the latest one unless body.versionId is given). The current version is archived too.
+export const revertThesisSection = async (req: Request<SectionParams>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { section } = req.params;
+    const { versionId } = req.body || {};
+
+    const versions = thesis.sectionHistory.filter((entry) => entry.section === section);
+    const version = versionId
+      ? versions.find((entry) => entry._id.toString() === String(versionId))
+      : versions[versions.length - 1];
+
+    if (!version) throw new NotFoundError("No previous version of this section to revert to");
+
+    const previousValue = version.value;
+    archiveThesisSection(thesis, section);
+    restoreThesisSection(thesis, section, previousValue);
+    await thesis.save();
+    await reanchorComments(thesis, [section]);
+    await recordRevisionSafely(thesis, { author: user, cause: "revert", note: `Reverted ${section}` });
+
+    res.json({ section, value: getThesisSection(thesis, section) });
+  } catch (error) {
+    next(error);
+  }
+};
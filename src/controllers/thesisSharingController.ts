@@ -0,0 +1,201 @@
+import { Request, Response, NextFunction } from "express";
+import Thesis, { CollaboratorRelationship, ThesisPermission } from "../models/Thesis";
+import ThesisInvitation from "../models/ThesisInvitation";
+import User from "../models/User";
+import { AuthRequest } from "../middlewares/authMiddleware";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { sendMail } from "../utils/mail";
+import { thesisInvitationEmail } from "../utils/mail/templates";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+
+const invitationTtlDays = () => Number(process.env.INVITATION_TTL_DAYS) || 14;
+
+const activeInvitationFilter = () => ({ status: "pending", expiresAt: { $gt: new Date() } });
+
+// --- Owner side: /api/thesis/:id/... ---
+
+// Invite someone by email. Re-inviting a pending address updates and resends the invitation.
+export const inviteCollaborator = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { email, permission = "viewer", relationship = "coauthor" } = req.body as {
+      email: string;
+      permission?: ThesisPermission;
+      relationship?: CollaboratorRelationship;
+    };
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const [inviter, invitee] = await Promise.all([
+      User.findById(user).select("username email"),
+      User.findOne({ email: normalizedEmail }).select("_id"),
+    ]);
+    if (inviter?.email.toLowerCase() === normalizedEmail) throw new BadRequestError("You cannot invite yourself");
+    if (invitee && thesis.collaborators.some((entry) => entry.user.equals(invitee._id))) {
+      throw new ConflictError("This user already collaborates on the thesis");
+    }
+
+    const invitation = await ThesisInvitation.findOneAndUpdate(
+      { thesis: thesis._id, email: normalizedEmail, status: "pending" },
+      {
+        $set: {
+          invitedBy: user,
+          permission,
+          relationship,
+          expiresAt: new Date(Date.now() + invitationTtlDays() * 24 * 60 * 60 * 1000),
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    try {
+      await sendMail(
+        thesisInvitationEmail(normalizedEmail, inviter?.username || "A student", thesis.title, permission, relationship)
+      );
+    } catch (error) {
+      console.error(`Error sending invitation ${invitation._id}:`, error);
+    }
+
+    res.status(201).json({ invitation });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Collaborators of a thesis; the owner also sees pending invitations
+export const listCollaborators = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, thesisAccess } = req as unknown as ThesisRequest;
+
+    await thesis.populate([
+      { path: "user", select: "username email role" },
+      { path: "collaborators.user", select: "username email role" },
+    ]);
+    const invitations =
+      thesisAccess === "owner"
+        ? await ThesisInvitation.find({ thesis: thesis._id, ...activeInvitationFilter() }).sort({ createdAt: -1 })
+        : [];
+
+    res.json({ owner: thesis.user, collaborators: thesis.collaborators, invitations });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Change a collaborator's permission level
+export const updateCollaborator = async (req: Request<{ id: string; userId: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const { permission } = req.body;
+
+    const collaborator = thesis.collaborators.find((entry) => entry.user.toString() === req.params.userId);
+    if (!collaborator) throw new NotFoundError("Collaborator not found");
+
+    collaborator.permission = permission;
+    await thesis.save();
+
+    res.json({ collaborator });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// The owner removes a collaborator, or a collaborator leaves the thesis
+export const removeCollaborator = async (req: Request<{ id: string; userId: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, thesisAccess, user } = req as unknown as ThesisRequest;
+
+    if (thesisAccess !== "owner" && req.params.userId !== user) {
+      throw new ForbiddenError("Only the owner can remove other collaborators");
+    }
+
+    const before = thesis.collaborators.length;
+    thesis.collaborators = thesis.collaborators.filter((entry) => entry.user.toString() !== req.params.userId);
+    if (thesis.collaborators.length === before) throw new NotFoundError("Collaborator not found");
+    await thesis.save();
+
+    res.json({ message: "Collaborator removed" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeInvitation = async (req: Request<{ id: string; invitationId: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis } = req as unknown as ThesisRequest;
+    const invitation = await ThesisInvitation.findOneAndUpdate(
+      { _id: req.params.invitationId, thesis: thesis._id, status: "pending" },
+      { $set: { status: "revoked", respondedAt: new Date() } },
+      { new: true }
+    );
+    if (!invitation) throw new NotFoundError("Invitation not found");
+
+    res.json({ invitation });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// --- Invitee side: /api/invitations/... ---
+
+// Pending invitations addressed to the logged-in user's email
+export const listMyInvitations = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { user: userId } = req as AuthRequest;
+    const user = await User.findById(userId).select("email");
+    if (!user) throw new NotFoundError("User not found");
+
+    const invitations = await ThesisInvitation.find({ email: user.email.toLowerCase(), ...activeInvitationFilter() })
+      .populate("thesis", "title")
+      .populate("invitedBy", "username email")
+      .sort({ createdAt: -1 });
+
+    res.json({ invitations });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Accept or decline an invitation addressed to the logged-in user
+const respondToInvitation = (accept: boolean) => {
+  return async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { user: userId } = req as unknown as AuthRequest;
+      const user = await User.findById(userId).select("email role");
+      const invitation = await ThesisInvitation.findOne({ _id: req.params.id, ...activeInvitationFilter() });
+
+      if (!user || !invitation || invitation.email !== user.email.toLowerCase()) {
+        throw new NotFoundError("Invitation not found");
+      }
+      if (accept && invitation.relationship === "advisor" && user.role !== "advisor") {
+        throw new ForbiddenError("Only advisor accounts can accept an advisor invitation");
+      }
+
+      if (accept) {
+        const thesis = await Thesis.findById(invitation.thesis);
+        if (!thesis) throw new NotFoundError("Thesis not found");
+        if (!thesis.user.equals(user._id)) {
+          thesis.collaborators = thesis.collaborators.filter((entry) => !entry.user.equals(user._id));
+          thesis.collaborators.push({
+            user: user._id,
+            permission: invitation.permission,
+            relationship: invitation.relationship,
+            addedAt: new Date(),
+          });
+          await thesis.save();
+        }
+      }
+
+      invitation.status = accept ? "accepted" : "declined";
+      invitation.respondedAt = new Date();
+      invitation.respondedBy = user._id;
+      await invitation.save();
+
+      res.json({ invitation });
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const acceptInvitation = respondToInvitation(true);
+export const declineInvitation = respondToInvitation(false);
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from "express";
+import { IThesis } from "../models/Thesis";
+import { ThesisRequest } from "../middlewares/thesisAccessMiddleware";
+import { recordRevisionSafely } from "../utils/thesisRevisions";
+import { computeThesisProgress, setStepStatus, updateThesisStatus } from "../utils/thesisProgress";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+
+type LinkedPaper = IThesis["roadmap"][number]["linkedPapers"][number];
+
+// Update a roadmap step's status, notes or linked papers; the thesis status follows the steps
+export const updateRoadmapStep = async (req: Request<{ id: string; stepId: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { thesis, user } = req as unknown as ThesisRequest;
+    const { status, notes, linkedPapers } = req.body || {};
+
+    const step = thesis.roadmap.find((entry) => entry._id?.toString() === req.params.stepId);
+    if (!step) throw new NotFoundError("Step not found");
+
+    // linkedPapers: ids of entries in relatedPapers; a copy is kept so links survive regeneration
+    let papers: LinkedPaper[] | undefined;
+    if (linkedPapers !== undefined) {
+      papers = [];
+      for (const paperId of linkedPapers as string[]) {
+        const paper = thesis.relatedPapers.find((entry) => entry._id?.toString() === paperId);
+        if (!paper) throw new BadRequestError(`Unknown related paper: ${paperId}`);
+        papers.push({ paperId, title: paper.title, doi: paper.doi, link: paper.link });
+      }
+    }
+
+    if (status !== undefined) setStepStatus(thesis, step, status);
+    if (notes !== undefined) step.notes = notes;
+    if (papers) step.linkedPapers = papers;
+    updateThesisStatus(thesis);
+    await thesis.save();
+    await recordRevisionSafely(thesis, { author: user, cause: "manual_edit" }); // Milestones follow step status
+
+    res.json({ step, status: thesis.status, progress: computeThesisProgress(thesis) });
+  } catch (error) {
+    next(error);
+  }
+};
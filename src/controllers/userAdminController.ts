@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from "express";
+import User from "../models/User";
+import { NotFoundError } from "../utils/errors";
+
+// Change a user's role
+export const updateUserRole = async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { role } = req.body;
+    const user = await User.findByIdAndUpdate(req.params.id, { $set: { role } }, { new: true }).select("username email role");
+    if (!user) throw new NotFoundError("User not found");
+
+    res.json({ user });
+  } catch (error) {
+    next(error);
+  }
+};
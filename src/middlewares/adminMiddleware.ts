@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import User, { UserRole } from "../models/User";
+import { AuthRequest } from "./authMiddleware";
+import { ForbiddenError } from "../utils/errors";
+
+// Comma-separated list of bootstrap admin emails, e.g. ADMIN_EMAILS=alice@uni.edu,bob@uni.edu.
+// They count as admins whatever their stored role, so the first admin can promote others.
+const adminEmails = () =>
+  (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+// Middleware factory restricting a route to the given roles. Use after authenticateUser.
+export const requireRole = (...roles: UserRole[]): RequestHandler => {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const { user: userId } = req as AuthRequest;
+      const user = await User.findById(userId).select("email role");
+      const role = user && adminEmails().includes(user.email.toLowerCase()) ? "admin" : user?.role;
+
+      if (!role || !roles.includes(role)) {
+        throw new ForbiddenError(`This action is restricted to: ${roles.join(", ")}`);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Middleware to restrict a route to admins. Use after authenticateUser.
+export const requireAdmin = requireRole("admin");
@@ -1,23 +1,57 @@
 import { Request, Response, NextFunction, RequestHandler } from "express";
 import jwt from "jsonwebtoken";
+import Session from "../models/Session";
+import User from "../models/User";
+import { ACCESS_COOKIE, AccessTokenPayload, isSessionActive } from "../utils/sessionTokens";
+import { AppError } from "../utils/errors";
 
 export interface AuthRequest extends Request {
   user?: string; // Store user ID here
+  sessionId?: string; // Session the access token belongs to
 }
 
 // Middleware to authenticate user
-export const authenticateUser: RequestHandler = (req: AuthRequest, res: Response, next: NextFunction) => {
-  const token = req.cookies.token; // Get token from cookies
+export const authenticateUser: RequestHandler = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = req.cookies[ACCESS_COOKIE]; // Get token from cookies
 
   if (!token) {
-    res.status(401).json({ message: "Not authorized, token missing" });
+    return next(new AppError("AUTH_TOKEN_MISSING", "Not authorized, token missing"));
   }
 
+  let decoded: AccessTokenPayload;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as { id: string };
+    decoded = jwt.verify(token, process.env.JWT_SECRET as string) as AccessTokenPayload;
+  } catch (error) {
+    return next(new AppError("AUTH_TOKEN_INVALID", "Not authorized, token invalid"));
+  }
+
+  try {
+    // ✅ A revoked session invalidates its access tokens immediately
+    const session = decoded.sid ? await Session.findById(decoded.sid) : null;
+    if (!isSessionActive(session) || session.user.toString() !== decoded.id) {
+      throw new AppError("AUTH_SESSION_REVOKED", "Not authorized, session revoked");
+    }
+
     req.user = decoded.id; // Attach user ID to request
+    req.sessionId = decoded.sid;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Middleware to block unverified accounts from expensive actions. Use after authenticateUser.
+export const requireVerifiedEmail: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { user: userId } = req as AuthRequest;
+    const user = await User.findById(userId).select("emailVerified");
+
+    if (!user?.emailVerified) {
+      throw new AppError("AUTH_EMAIL_NOT_VERIFIED", "Verify your email address to use this feature");
+    }
+
     next();
   } catch (error) {
-    res.status(401).json({ message: "Not authorized, token invalid" });
+    next(error);
   }
 };
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { AppError, ERROR_STATUS, ErrorCode } from "../utils/errors";
+
+// The one JSON shape of every error response
+export interface ErrorBody {
+  code: ErrorCode;
+  message: string;
+  requestId: string;
+  details?: Record<string, unknown>;
+}
+
+// Errors thrown by libraries, mapped onto application errors
+const toAppError = (error: any): AppError => {
+  if (error instanceof AppError) return error;
+  if (error?.type === "entity.parse.failed") return new AppError("MALFORMED_JSON", "Request body is not valid JSON");
+  if (error?.type === "entity.too.large") return new AppError("PAYLOAD_TOO_LARGE", `Request body is larger than ${error.limit} bytes`);
+  if (error instanceof mongoose.Error.CastError) return new AppError("VALIDATION_FAILED", `Invalid ${error.path}`);
+  if (error instanceof mongoose.Error.ValidationError) {
+    const issues = Object.values(error.errors).map((issue) => ({ path: issue.path, message: issue.message }));
+    return new AppError("VALIDATION_FAILED", "Invalid request", { issues });
+  }
+  if (error?.code === 11000) return new AppError("CONFLICT", "A record with the same unique fields already exists");
+  return new AppError("INTERNAL_ERROR", "Something went wrong. Please try again later.");
+};
+
+export const sendError = (res: Response, error: AppError) => {
+  const body: ErrorBody = {
+    code: error.code,
+    message: error.message,
+    requestId: res.locals.requestId,
+    ...(error.details && { details: error.details }),
+  };
+  res.status(ERROR_STATUS[error.code]).json(body);
+};
+
+// Requests that matched no route
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction) => {
+  next(new AppError("ROUTE_NOT_FOUND", `Cannot ${req.method} ${req.path}`));
+};
+
+// 🚨 Registered last in server.ts: every error passed to next() ends up here
+export const errorHandler = (error: unknown, req: Request, res: Response, next: NextFunction) => {
+  const appError = toAppError(error);
+  if (appError.status >= 500) {
+    console.error(`[${res.locals.requestId}] ${req.method} ${req.originalUrl} failed:`, error);
+  }
+
+  // Streaming responses (e.g. server-sent events) can only be closed
+  if (res.headersSent) return next(error);
+  sendError(res, appError);
+};
@@ -0,0 +1,126 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import User from "../models/User";
+import { AuthRequest } from "./authMiddleware";
+import {
+  LimitResult,
+  consumeLimit,
+  fixedWindow,
+  generationQuotaKey,
+  getGenerationQuota,
+  monthWindow,
+  refundLimit,
+} from "../utils/rateLimiter";
+import { AppError } from "../utils/errors";
+
+export interface RateLimitOptions {
+  name: string; // Counter namespace, e.g. "generate"
+  limit: number; // Requests per window; 0 disables the limiter
+  windowSeconds: number;
+  keyBy: "user" | "ip"; // "user" needs authenticateUser first
+}
+
+const secondsUntil = (date: Date) => Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+// RateLimit-* headers (IETF draft). With several limiters on a route the most restrictive one is reported.
+const setRateLimitHeaders = (res: Response, result: LimitResult, windowSeconds: number) => {
+  const current = res.locals.rateLimit as LimitResult | undefined;
+  if (current && current.remaining < result.remaining) return;
+
+  res.locals.rateLimit = result;
+  res.setHeader("RateLimit-Limit", String(result.limit));
+  res.setHeader("RateLimit-Remaining", String(result.remaining));
+  res.setHeader("RateLimit-Reset", String(secondsUntil(result.resetAt)));
+  res.setHeader("RateLimit-Policy", `${result.limit};w=${windowSeconds}`);
+};
+
+// The 429 for an exhausted limit, with the numbers clients need to back off
+const limitError = (res: Response, result: LimitResult, code: "RATE_LIMITED" | "QUOTA_EXCEEDED", message: string) => {
+  const retryAfterSeconds = secondsUntil(result.resetAt);
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  return new AppError(code, message, {
+    limit: result.limit,
+    remaining: 0,
+    resetAt: result.resetAt,
+    retryAfterSeconds,
+  });
+};
+
+/**
+ * Middleware factory: fixed-window rate limit per user or per IP, counted in MongoDB
+ * so every server instance shares the same counters.
+ */
+export const rateLimit = ({ name, limit, windowSeconds, keyBy }: RateLimitOptions): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!limit) return next();
+    try {
+      const subject = keyBy === "user" ? (req as AuthRequest).user : req.ip;
+      const result = await consumeLimit(`${name}-${keyBy}:${subject}`, limit, fixedWindow(windowSeconds * 1000));
+      setRateLimitHeaders(res, result, windowSeconds);
+
+      if (!result.allowed) {
+        throw limitError(res, result, "RATE_LIMITED", `Too many requests. Try again in ${secondsUntil(result.resetAt)} seconds.`);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Counts one generation against the user's monthly quota for their role.
+ * The generation is given back if the request then fails (4xx/5xx). Once a job is queued,
+ * the controller stores res.locals.quotaConsumedAt on it so the job gives it back if it fails.
+ */
+export const requireGenerationQuota: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { user: userId } = req as AuthRequest;
+    const user = await User.findById(userId).select("role");
+    const quota = user ? getGenerationQuota(user.role) : 0;
+    if (!user || !quota) return next(); // Unlimited
+
+    const key = generationQuotaKey(userId as string);
+    const consumedAt = new Date();
+    const window = monthWindow(consumedAt);
+    const result = await consumeLimit(key, quota, window);
+    res.setHeader("X-Generation-Quota-Limit", String(result.limit));
+    res.setHeader("X-Generation-Quota-Remaining", String(result.remaining));
+
+    if (!result.allowed) {
+      throw limitError(
+        res,
+        result,
+        "QUOTA_EXCEEDED",
+        `Monthly generation quota of ${quota} reached. It resets on ${result.resetAt.toISOString().slice(0, 10)}.`
+      );
+    }
+
+    res.locals.quotaConsumedAt = consumedAt;
+    res.on("finish", () => {
+      if (res.statusCode >= 400) {
+        refundLimit(key, window).catch((error) => console.error("Error refunding generation quota:", error));
+      }
+    });
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// --- Limits on the routes that call the LLM and the paper APIs ---
+// Override with e.g. GENERATE_RATE_LIMIT_PER_USER=10 (0 disables a limiter)
+
+const LIMIT_WINDOW_SECONDS = Number(process.env.GENERATE_RATE_LIMIT_WINDOW_SECONDS) || 3600;
+
+const envLimit = (name: string, fallback: number) =>
+  process.env[name] !== undefined && process.env[name] !== "" ? Number(process.env[name]) : fallback;
+
+export const generationLimits = [
+  rateLimit({ name: "generate", keyBy: "user", limit: envLimit("GENERATE_RATE_LIMIT_PER_USER", 5), windowSeconds: LIMIT_WINDOW_SECONDS }),
+  rateLimit({ name: "generate", keyBy: "ip", limit: envLimit("GENERATE_RATE_LIMIT_PER_IP", 20), windowSeconds: LIMIT_WINDOW_SECONDS }),
+];
+
+export const regenerationLimits = [
+  rateLimit({ name: "regenerate", keyBy: "user", limit: envLimit("REGENERATE_RATE_LIMIT_PER_USER", 30), windowSeconds: LIMIT_WINDOW_SECONDS }),
+  rateLimit({ name: "regenerate", keyBy: "ip", limit: envLimit("REGENERATE_RATE_LIMIT_PER_IP", 100), windowSeconds: LIMIT_WINDOW_SECONDS }),
+];
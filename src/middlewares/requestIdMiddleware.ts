@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Tag every request with an id (the caller's X-Request-Id when it sends a sane one), echoed in the
+// response header and in error bodies so a failure can be found in the logs
+export const assignRequestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+
+  res.locals.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  next();
+};
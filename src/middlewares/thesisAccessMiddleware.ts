@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import mongoose, { HydratedDocument } from "mongoose";
+import Thesis, { IThesis } from "../models/Thesis";
+import { AuthRequest } from "./authMiddleware";
+import { ThesisAccessLevel, getThesisAccess, hasThesisAccess } from "../utils/thesisAccess";
+import { ForbiddenError, NotFoundError } from "../utils/errors";
+
+export interface ThesisRequest extends AuthRequest {
+  // Set by authorizeThesis
+  thesis: HydratedDocument<IThesis>;
+  thesisAccess: ThesisAccessLevel;
+}
+
+/**
+ * Middleware factory: loads the thesis named by `req.params.id` and checks that the
+ * user has at least `required` access (viewer < commenter < editor < owner).
+ * Use after authenticateUser. Users with no access at all get a 404, not a 403,
+ * so thesis ids cannot be probed.
+ */
+export const authorizeThesis = (required: ThesisAccessLevel): RequestHandler => {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const thesisReq = req as ThesisRequest;
+      const thesisId = req.params.id as string;
+      const thesis = mongoose.isValidObjectId(thesisId) ? await Thesis.findById(thesisId) : null;
+      const access = thesis ? getThesisAccess(thesis, thesisReq.user) : null;
+
+      if (!thesis || !access) throw new NotFoundError("Thesis not found");
+      if (!hasThesisAccess(access, required)) {
+        throw new ForbiddenError(`This action needs ${required} access to the thesis`);
+      }
+
+      thesisReq.thesis = thesis;
+      thesisReq.thesisAccess = access;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
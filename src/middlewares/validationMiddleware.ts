@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { Schema, ValidationIssue } from "../utils/schema";
+import { ValidationError } from "../utils/errors";
+
+export interface RequestSchemas {
+  params?: Schema<unknown>;
+  query?: Schema<unknown>;
+  body?: Schema<unknown>;
+}
+
+/**
+ * Middleware factory: checks req.params, req.query and req.body against their schemas
+ * (see utils/validation) and fails with VALIDATION_FAILED listing every issue, e.g.
+ * { path: "body.title", message: "Must not be empty" }. The request itself is left as sent.
+ */
+export const validateRequest = (schemas: RequestSchemas): RequestHandler => {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const issues: ValidationIssue[] = [];
+    for (const part of ["params", "query", "body"] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = schema.validate(req[part] ?? {}, part);
+      if (!result.ok) issues.push(...result.issues);
+    }
+    next(issues.length > 0 ? new ValidationError(issues) : undefined);
+  };
+};
@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ICacheEntry extends Document {
+  key: string; // sha256 of the source plus the normalized query or prompt
+  source: string; // e.g. "semanticScholar", "openAlex", "llm"
+  preview: string; // Start of the normalized input, for the admin routes
+  value: unknown;
+  hits: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CacheEntrySchema = new Schema<ICacheEntry>(
+  {
+    key: { type: String, required: true, unique: true },
+    source: { type: String, required: true, index: true },
+    preview: { type: String, default: "" },
+    value: { type: Schema.Types.Mixed },
+    hits: { type: Number, default: 0 },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+// ✅ MongoDB removes entries once expiresAt has passed
+CacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ICacheEntry>("CacheEntry", CacheEntrySchema);
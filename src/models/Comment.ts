@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { ThesisSection } from "./Thesis";
+
+export interface IComment extends Document {
+  _id: mongoose.Types.ObjectId;
+  thesis: mongoose.Types.ObjectId;
+  section: ThesisSection;
+  // Roadmap step / related paper subdocument id, or a dotted field path for object sections
+  // (e.g. "researchApproach.selectedApproach"). Missing for comments on a whole section.
+  itemId?: string;
+  fingerprint?: string; // Content-derived key used to find the item again after regeneration
+  anchorText?: string; // What the item said when the thread started
+  orphaned: boolean; // The item no longer exists
+  orphanedAt?: Date;
+  parent?: mongoose.Types.ObjectId; // Replies point at the comment they answer
+  author: mongoose.Types.ObjectId;
+  body: string;
+  mentions: mongoose.Types.ObjectId[];
+  resolved: boolean;
+  resolvedAt?: Date;
+  resolvedBy?: mongoose.Types.ObjectId;
+  readBy: mongoose.Types.ObjectId[];
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommentSchema = new Schema<IComment>(
+  {
+    thesis: { type: Schema.Types.ObjectId, ref: "Thesis", required: true },
+    section: {
+      type: String,
+      enum: ["stepByStep", "relatedPapers", "methodology", "researchGapAnalysis", "prosAndCons"],
+      required: true,
+    },
+    itemId: { type: String },
+    fingerprint: { type: String },
+    anchorText: { type: String },
+    orphaned: { type: Boolean, default: false },
+    orphanedAt: { type: Date },
+    parent: { type: Schema.Types.ObjectId, ref: "Comment" },
+    author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    body: { type: String, required: true, maxlength: 10000 },
+    mentions: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    resolved: { type: Boolean, default: false },
+    resolvedAt: { type: Date },
+    resolvedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    readBy: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    editedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+CommentSchema.index({ thesis: 1, section: 1, itemId: 1 });
+
+export default mongoose.model<IComment>("Comment", CommentSchema);
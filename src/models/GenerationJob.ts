@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { RoadmapErrors, RoadmapSections, RoadmapStep, ROADMAP_STEPS } from "../utils/generateThesisRoadmap";
+import { Clarification, DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, SupportedLanguage } from "../utils/prompts";
+import { ThesisProfile } from "../utils/thesisProfile";
+import { ErrorCode } from "../utils/errors";
+
+export type GenerationJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface IGenerationJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  thesis: mongoose.Types.ObjectId;
+  status: GenerationJobStatus;
+  thesisDescription: string;
+  language: SupportedLanguage;
+  searchKeywords?: string; // English keywords given by the student for the paper search
+  clarifications: Clarification[]; // Answers to the clarifying questions when the job was queued
+  profile?: ThesisProfile; // The thesis profile when the job was queued
+  completedSteps: RoadmapStep[];
+  sections: RoadmapSections; // Results of the completed steps, used to resume after a restart
+  sectionErrors: RoadmapErrors; // Validation issues of sections that could not be generated
+  error?: string; // The failure that stopped the job
+  errorCode?: ErrorCode; // Its machine-readable code, e.g. PROVIDER_RATE_LIMITED
+  attempts: number;
+  quotaConsumedAt?: Date; // When the run counted against the monthly quota; cleared once given back
+  owner?: string; // Server instance that claimed the job
+  heartbeatAt?: Date; // Refreshed by the owner while the job runs; a stale one means the owner is gone
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GenerationJobSchema = new Schema<IGenerationJob>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    thesis: { type: Schema.Types.ObjectId, ref: "Thesis", required: true },
+    status: {
+      type: String,
+      enum: ["queued", "running", "completed", "failed"],
+      default: "queued",
+      index: true,
+    },
+    thesisDescription: { type: String, required: true },
+    language: { type: String, enum: SUPPORTED_LANGUAGES, default: DEFAULT_LANGUAGE },
+    searchKeywords: { type: String },
+    profile: { type: Schema.Types.Mixed },
+    clarifications: [{ _id: false, question: { type: String, required: true }, answer: { type: String, required: true } }],
+    completedSteps: [{ type: String, enum: ROADMAP_STEPS }],
+    sections: { type: Schema.Types.Mixed, default: {} },
+    sectionErrors: { type: Schema.Types.Mixed, default: {} },
+    error: { type: String },
+    errorCode: { type: String },
+    attempts: { type: Number, default: 0 },
+    quotaConsumedAt: { type: Date },
+    owner: { type: String },
+    heartbeatAt: { type: Date },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+  },
+  { timestamps: true, minimize: false }
+);
+
+export default mongoose.model<IGenerationJob>("GenerationJob", GenerationJobSchema);
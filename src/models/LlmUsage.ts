@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// One LLM call
+export interface ILlmUsage extends Document {
+  provider: string;
+  modelName: string; // As reported by the provider, e.g. "gemini-1.5-flash-002"
+  context: string; // LlmContext, e.g. "methodology"
+  repair: boolean; // A re-prompt after a failed validation
+  status: "success" | "error";
+  error?: string;
+  finishReason?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  tokensEstimated: boolean; // The provider reported no usage; counts estimated from text length
+  latencyMs: number;
+  estimatedCostUsd: number;
+  user?: mongoose.Types.ObjectId;
+  thesis?: mongoose.Types.ObjectId;
+  job?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const LlmUsageSchema = new Schema<ILlmUsage>(
+  {
+    provider: { type: String, required: true },
+    modelName: { type: String, required: true },
+    context: { type: String, required: true },
+    repair: { type: Boolean, default: false },
+    status: { type: String, enum: ["success", "error"], required: true },
+    error: { type: String },
+    finishReason: { type: String },
+    promptTokens: { type: Number, default: 0 },
+    completionTokens: { type: Number, default: 0 },
+    totalTokens: { type: Number, default: 0 },
+    tokensEstimated: { type: Boolean, default: false },
+    latencyMs: { type: Number, required: true },
+    estimatedCostUsd: { type: Number, default: 0 },
+    user: { type: Schema.Types.ObjectId, ref: "User", index: true },
+    thesis: { type: Schema.Types.ObjectId, ref: "Thesis", index: true },
+    job: { type: Schema.Types.ObjectId, ref: "GenerationJob" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+LlmUsageSchema.index({ createdAt: -1 });
+
+export default mongoose.model<ILlmUsage>("LlmUsage", LlmUsageSchema);
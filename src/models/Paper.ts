@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// A paper shared by every reading list it was added to, deduplicated by DOI, then URL
+export interface IPaper extends Document {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  authors: string;
+  year?: number;
+  doi?: string; // Normalized, without the https://doi.org/ prefix
+  url?: string; // Normalized by normalizePaperUrl
+  abstract?: string;
+  citationCount?: number;
+  pdfLink?: string;
+  externalIds?: { semanticScholar?: string; openAlex?: string };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaperSchema = new Schema<IPaper>(
+  {
+    title: { type: String, required: true },
+    authors: { type: String, default: "Unknown authors" },
+    year: { type: Number },
+    doi: { type: String },
+    url: { type: String },
+    abstract: { type: String },
+    citationCount: { type: Number },
+    pdfLink: { type: String },
+    externalIds: {
+      semanticScholar: { type: String },
+      openAlex: { type: String },
+    },
+  },
+  { timestamps: true }
+);
+
+PaperSchema.index({ doi: 1 }, { unique: true, partialFilterExpression: { doi: { $type: "string" } } });
+PaperSchema.index({ url: 1 }, { unique: true, partialFilterExpression: { url: { $type: "string" } } });
+PaperSchema.index(
+  { title: "text", authors: "text", abstract: "text" },
+  { name: "paper_text", weights: { title: 10, authors: 3, abstract: 1 } }
+);
+
+export default mongoose.model<IPaper>("Paper", PaperSchema);
@@ -0,0 +1,20 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IRateLimitCounter extends Document {
+  key: string; // "<limiter>:<subject>:<window start>", e.g. "generate-user:64b...:1718000000000"
+  count: number;
+  resetAt: Date; // End of the window
+  expiresAt: Date;
+}
+
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: { type: String, required: true, unique: true },
+  count: { type: Number, default: 0 },
+  resetAt: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+// ✅ Counters of past windows are removed by MongoDB
+RateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRateLimitCounter>("RateLimitCounter", RateLimitCounterSchema);
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const READING_STATUSES = ["toRead", "reading", "read", "discarded"] as const;
+export type ReadingStatus = typeof READING_STATUSES[number];
+
+// A paper on a user's reading list, optionally read for one of their theses
+export interface IReadingItem extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  paper: mongoose.Types.ObjectId;
+  thesis?: mongoose.Types.ObjectId;
+  status: ReadingStatus;
+  statusChangedAt?: Date;
+  tags: string[]; // Lowercase
+  highlights: {
+    _id: mongoose.Types.ObjectId;
+    text: string; // Passage quoted from the paper
+    note?: string;
+    page?: number;
+    createdAt: Date;
+  }[];
+  notes?: string;
+  rating?: number; // Relevance to the thesis, 1-5
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReadingItemSchema = new Schema<IReadingItem>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    paper: { type: Schema.Types.ObjectId, ref: "Paper", required: true },
+    thesis: { type: Schema.Types.ObjectId, ref: "Thesis" },
+    status: { type: String, enum: READING_STATUSES, default: "toRead" },
+    statusChangedAt: { type: Date },
+    tags: [{ type: String }],
+    highlights: [
+      {
+        text: { type: String, required: true, maxlength: 5000 },
+        note: { type: String, maxlength: 2000 },
+        page: { type: Number },
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+    notes: { type: String, maxlength: 20000 },
+    rating: { type: Number, min: 1, max: 5 },
+  },
+  { timestamps: true }
+);
+
+// A paper appears once per user and thesis; papers read outside a thesis have thesis: null
+ReadingItemSchema.index({ user: 1, paper: 1, thesis: 1 }, { unique: true });
+ReadingItemSchema.index({ user: 1, status: 1 });
+ReadingItemSchema.index({ thesis: 1 });
+ReadingItemSchema.index(
+  { notes: "text", "highlights.text": "text", "highlights.note": "text", tags: "text" },
+  { name: "reading_item_text", weights: { tags: 5, notes: 3, "highlights.note": 3, "highlights.text": 2 } }
+);
+
+export default mongoose.model<IReadingItem>("ReadingItem", ReadingItemSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type SessionRevokeReason = "logout" | "logout_all" | "revoked" | "reuse_detected" | "password_reset";
+
+// One login = one session = one refresh token family
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  tokenHash: string; // sha256 of the current refresh token secret
+  previousTokenHashes: string[]; // Rotated-out secrets; presenting one again means the token was stolen
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    tokenHash: { type: String, required: true },
+    previousTokenHashes: [{ type: String }],
+    userAgent: { type: String },
+    ip: { type: String },
+    lastUsedAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    revokedReason: { type: String, enum: ["logout", "logout_all", "revoked", "reuse_detected", "password_reset"] },
+  },
+  { timestamps: true }
+);
+
+// ✅ Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>("Session", SessionSchema);
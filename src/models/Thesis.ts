@@ -1,32 +1,136 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { CitationGraphEdge, CitationGraphNode } from "../utils/citationGraph";
+import { ResearchPaper } from "../utils/paperSearch";
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, SupportedLanguage } from "../utils/prompts";
+import { DEGREE_LEVELS, METHODOLOGY_PREFERENCES, ThesisProfile } from "../utils/thesisProfile";
+
+export type ThesisSection = "stepByStep" | "relatedPapers" | "methodology" | "researchGapAnalysis" | "prosAndCons";
+
+export type ThesisPermission = "viewer" | "commenter" | "editor";
+export type StepStatus = "todo" | "doing" | "blocked" | "done";
+export type CollaboratorRelationship = "advisor" | "coauthor";
 
 export interface IThesis extends Document {
   title: string;
   description: string;
-  user: mongoose.Types.ObjectId;
+  language: SupportedLanguage; // Language the generated sections are written in
+  searchKeywords?: string; // English keywords given by the student for the paper search
+  profile?: ThesisProfile; // Degree level, discipline, time available... used by every prompt
+  clarifyingQuestions: {
+    _id: mongoose.Types.ObjectId;
+    question: string;
+    purpose?: string; // Why the answer matters for the roadmap
+    suggestedAnswers: string[];
+    answer?: string;
+    answeredAt?: Date;
+  }[];
+  user: mongoose.Types.ObjectId; // The owning student
+  collaborators: {
+    user: mongoose.Types.ObjectId;
+    permission: ThesisPermission;
+    relationship: CollaboratorRelationship;
+    addedAt: Date;
+  }[];
   status: "draft" | "in progress" | "completed";
   roadmap: {
+    _id?: mongoose.Types.ObjectId; // Assigned by mongoose
     stepNumber: number;
     title: string;
     details: string;
+    status: StepStatus;
+    notes?: string;
+    linkedPapers: { paperId?: string; title: string; doi?: string; link?: string }[]; // Copies of related papers
+    startedAt?: Date; // First moved to "doing"
+    completedAt?: Date;
+    statusChangedAt?: Date;
   }[];
   relatedPapers: {
+    _id?: mongoose.Types.ObjectId; // Assigned by mongoose
+    rank?: number;
     title: string;
     author: string;
+    summary?: string;
+    date?: string;
     link?: string;
+    doi?: string; // Copied from the matching source paper when a provider gave one
+    year?: number;
+  }[];
+  methodology: Record<string, any> | null;
+  researchGapAnalysis: Record<string, any> | null;
+  prosAndCons: Record<string, any> | null;
+  sourcePapers: ResearchPaper[]; // Papers returned by the search APIs, reused when sections are regenerated
+  methodologyText?: string; // Every string of the methodology, for the text index (not selected by default)
+  citationGraph: { nodes: CitationGraphNode[]; edges: CitationGraphEdge[]; builtAt: string } | null; // Snowballed around the top-ranked papers
+  sectionHistory: {
+    _id: mongoose.Types.ObjectId;
+    section: ThesisSection;
+    value: unknown; // The section as it was before being replaced
+    replacedAt: Date;
+    guidance?: string; // Guidance given for the regeneration that replaced it
   }[];
+  schedule?: {
+    startDate: Date;
+    deadline: Date; // Submission deadline
+    blackouts: { start: Date; end: Date; label?: string }[]; // Exams, holidays... no work is planned on these days
+    skipWeekends: boolean;
+    rescheduledAt?: Date;
+    rescheduleCount: number;
+    atRisk: boolean; // Remaining milestones no longer fit before the deadline
+  };
   timeline: {
+    _id: mongoose.Types.ObjectId;
     milestone: string;
     dueDate: Date;
+    startDate?: Date;
+    stepNumber?: number;
+    weight?: number; // Relative effort estimated by the LLM (1-10)
+    completedAt?: Date;
   }[];
   createdAt: Date;
 }
 
+// Validated by parseThesisProfile before it is saved
+const ThesisProfileSchema = new Schema(
+  {
+    degreeLevel: { type: String, enum: DEGREE_LEVELS },
+    discipline: { type: String },
+    preferredMethodology: { type: String, enum: METHODOLOGY_PREFERENCES },
+    timeAvailable: {
+      type: new Schema({ months: { type: Number, required: true }, hoursPerWeek: { type: Number } }, { _id: false }),
+    },
+    requiredChapters: { type: [String], default: undefined },
+  },
+  { _id: false }
+);
+
 const ThesisSchema = new Schema<IThesis>(
   {
     title: { type: String, required: true },
     description: { type: String, required: true },
+    language: { type: String, enum: SUPPORTED_LANGUAGES, default: DEFAULT_LANGUAGE },
+    searchKeywords: { type: String },
+    profile: { type: ThesisProfileSchema },
+    // Asked before the roadmap is generated; the answers are added to every section prompt
+    clarifyingQuestions: [
+      {
+        question: { type: String, required: true },
+        purpose: { type: String },
+        suggestedAnswers: [{ type: String }],
+        answer: { type: String },
+        answeredAt: { type: Date },
+      },
+    ],
     user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    // Added when an invitation is accepted
+    collaborators: [
+      {
+        _id: false,
+        user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        permission: { type: String, enum: ["viewer", "commenter", "editor"], required: true },
+        relationship: { type: String, enum: ["advisor", "coauthor"], required: true },
+        addedAt: { type: Date, default: Date.now },
+      },
+    ],
     status: {
       type: String,
       enum: ["draft", "in progress", "completed"],
@@ -37,19 +141,101 @@ const ThesisSchema = new Schema<IThesis>(
         stepNumber: { type: Number, required: true },
         title: { type: String, required: true },
         details: { type: String, required: true },
+        status: { type: String, enum: ["todo", "doing", "blocked", "done"], default: "todo" },
+        notes: { type: String },
+        linkedPapers: [
+          {
+            _id: false,
+            paperId: { type: String },
+            title: { type: String, required: true },
+            doi: { type: String },
+            link: { type: String },
+          },
+        ],
+        startedAt: { type: Date },
+        completedAt: { type: Date },
+        statusChangedAt: { type: Date },
       },
     ],
     relatedPapers: [
       {
+        rank: { type: Number },
         title: { type: String, required: true },
         author: { type: String, required: true },
+        summary: { type: String },
+        date: { type: String },
         link: { type: String },
+        doi: { type: String },
+        year: { type: Number },
       },
     ],
+    // LLM sections are stored as returned by generateThesisRoadmap
+    methodology: { type: Schema.Types.Mixed, default: null },
+    researchGapAnalysis: { type: Schema.Types.Mixed, default: null },
+    prosAndCons: { type: Schema.Types.Mixed, default: null },
+    sourcePapers: [
+      {
+        _id: false,
+        title: { type: String, required: true },
+        url: { type: String },
+        paperLink: { type: String },
+        abstract: { type: String },
+        citationCount: { type: Number, default: 0 },
+        authors: { type: String },
+        doi: { type: String },
+        pdfLink: { type: String },
+        year: { type: Number },
+        externalIds: {
+          semanticScholar: { type: String },
+          openAlex: { type: String },
+        },
+        sources: [{ type: String }],
+      },
+    ],
+    methodologyText: { type: String, select: false },
+    // Stored as built by buildCitationGraph, without the full records of the added papers (see sourcePapers)
+    citationGraph: { type: Schema.Types.Mixed, default: null },
+    sectionHistory: [
+      {
+        section: {
+          type: String,
+          enum: ["stepByStep", "relatedPapers", "methodology", "researchGapAnalysis", "prosAndCons"],
+          required: true,
+        },
+        value: { type: Schema.Types.Mixed },
+        replacedAt: { type: Date, default: Date.now },
+        guidance: { type: String },
+      },
+    ],
+    schedule: {
+      type: new Schema(
+        {
+          startDate: { type: Date, required: true },
+          deadline: { type: Date, required: true },
+          blackouts: [
+            {
+              _id: false,
+              start: { type: Date, required: true },
+              end: { type: Date, required: true },
+              label: { type: String },
+            },
+          ],
+          skipWeekends: { type: Boolean, default: false },
+          rescheduledAt: { type: Date },
+          rescheduleCount: { type: Number, default: 0 },
+          atRisk: { type: Boolean, default: false },
+        },
+        { _id: false }
+      ),
+    },
     timeline: [
       {
         milestone: { type: String, required: true },
         dueDate: { type: Date, required: true },
+        startDate: { type: Date },
+        stepNumber: { type: Number },
+        weight: { type: Number },
+        completedAt: { type: Date },
       },
     ],
     createdAt: { type: Date, default: Date.now },
@@ -57,4 +243,54 @@ const ThesisSchema = new Schema<IThesis>(
   { timestamps: true }
 );
 
+ThesisSchema.index({ "collaborators.user": 1 });
+
+// Full-text search (GET /api/search). Each thesis is stemmed in its own language: "en", "pt" and "es"
+// are valid text-index languages and `language` is the field MongoDB reads them from by default.
+ThesisSchema.index(
+  {
+    title: "text",
+    description: "text",
+    "roadmap.title": "text",
+    "roadmap.details": "text",
+    "roadmap.notes": "text",
+    methodologyText: "text",
+    "relatedPapers.title": "text",
+    "relatedPapers.summary": "text",
+    "sourcePapers.title": "text",
+    "sourcePapers.abstract": "text",
+  },
+  {
+    name: "thesis_text",
+    weights: {
+      title: 10,
+      "relatedPapers.title": 6,
+      "roadmap.title": 5,
+      "sourcePapers.title": 4,
+      description: 4,
+      "roadmap.details": 2,
+      "roadmap.notes": 2,
+      methodologyText: 2,
+      "relatedPapers.summary": 2,
+      "sourcePapers.abstract": 1,
+    },
+  }
+);
+
+// All strings of a (Mixed) section, e.g. the methodology
+const collectText = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectText);
+  if (value && typeof value === "object") return Object.values(value).flatMap(collectText);
+  return [];
+};
+
+// ✅ Keep the indexed copy of the methodology in sync
+ThesisSchema.pre("save", function (next) {
+  if (this.isModified("methodology")) {
+    this.methodologyText = collectText(this.methodology).join("\n") || undefined;
+  }
+  next();
+});
+
 export default mongoose.model<IThesis>("Thesis", ThesisSchema);
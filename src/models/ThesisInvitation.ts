@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { CollaboratorRelationship, ThesisPermission } from "./Thesis";
+
+export interface IThesisInvitation extends Document {
+  _id: mongoose.Types.ObjectId;
+  thesis: mongoose.Types.ObjectId;
+  invitedBy: mongoose.Types.ObjectId;
+  email: string; // Lower-cased; the invitee may not have an account yet
+  permission: ThesisPermission;
+  relationship: CollaboratorRelationship;
+  status: "pending" | "accepted" | "declined" | "revoked";
+  expiresAt: Date;
+  respondedAt?: Date;
+  respondedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ThesisInvitationSchema = new Schema<IThesisInvitation>(
+  {
+    thesis: { type: Schema.Types.ObjectId, ref: "Thesis", required: true, index: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    email: { type: String, required: true, lowercase: true, trim: true, index: true },
+    permission: { type: String, enum: ["viewer", "commenter", "editor"], required: true },
+    relationship: { type: String, enum: ["advisor", "coauthor"], required: true },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "declined", "revoked"],
+      default: "pending",
+    },
+    expiresAt: { type: Date, required: true },
+    respondedAt: { type: Date },
+    respondedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IThesisInvitation>("ThesisInvitation", ThesisInvitationSchema);
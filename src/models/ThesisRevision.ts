@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type RevisionCause = "generation" | "regeneration" | "manual_edit" | "revert" | "rollback" | "schedule";
+
+// Tracked thesis content at one point in time, as plain JSON
+export interface RevisionSnapshot {
+  roadmap: { _id?: string; stepNumber: number; title: string; details: string }[];
+  relatedPapers: Record<string, any>[];
+  methodology: Record<string, any> | null;
+  researchGapAnalysis: Record<string, any> | null;
+  prosAndCons: Record<string, any> | null;
+  timeline: Record<string, any>[];
+  schedule: Record<string, any> | null;
+}
+
+export interface IThesisRevision extends Document {
+  _id: mongoose.Types.ObjectId;
+  thesis: mongoose.Types.ObjectId;
+  number: number; // 1, 2, 3... per thesis
+  author?: mongoose.Types.ObjectId;
+  cause: RevisionCause;
+  changedFields: (keyof RevisionSnapshot)[];
+  note?: string; // Regeneration guidance, rollback target...
+  snapshot: RevisionSnapshot;
+  createdAt: Date;
+}
+
+// Revisions are immutable: every field is set once, on insert
+const ThesisRevisionSchema = new Schema<IThesisRevision>(
+  {
+    thesis: { type: Schema.Types.ObjectId, ref: "Thesis", required: true, immutable: true },
+    number: { type: Number, required: true, immutable: true },
+    author: { type: Schema.Types.ObjectId, ref: "User", immutable: true },
+    cause: {
+      type: String,
+      enum: ["generation", "regeneration", "manual_edit", "revert", "rollback", "schedule"],
+      required: true,
+      immutable: true,
+    },
+    changedFields: { type: [String], immutable: true },
+    note: { type: String, immutable: true },
+    snapshot: { type: Schema.Types.Mixed, required: true, immutable: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false }, minimize: false }
+);
+
+ThesisRevisionSchema.index({ thesis: 1, number: -1 }, { unique: true });
+
+export default mongoose.model<IThesisRevision>("ThesisRevision", ThesisRevisionSchema);
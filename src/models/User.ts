@@ -1,11 +1,19 @@
 import mongoose, { Document } from "mongoose";
 import bcrypt from "bcrypt";
 
+export type UserRole = "student" | "advisor" | "admin";
+
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId; // ✅ Explicitly add _id
   username: string;
   email: string;
   password: string;
+  role: UserRole;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  // Nonces of the outstanding email tokens; cleared when a token is used so each works once
+  emailVerificationNonce?: string;
+  passwordResetNonce?: string;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
@@ -13,6 +21,11 @@ const UserSchema = new mongoose.Schema<IUser>({
   username: { type: String, required: true },
   email: { type: String, required: true, unique: true },
   password: { type: String, required: true },
+  role: { type: String, enum: ["student", "advisor", "admin"], default: "student" },
+  emailVerified: { type: Boolean, default: false },
+  emailVerifiedAt: { type: Date },
+  emailVerificationNonce: { type: String },
+  passwordResetNonce: { type: String },
 });
 
 // ✅ Hash password before saving
@@ -30,7 +43,6 @@ UserSchema.pre("save", async function (next) {
 
 // ✅ Password comparison function
 UserSchema.methods.comparePassword = async function (candidatePassword: string): Promise<boolean> {
-  console.log("Comparing:", candidatePassword, this.password);
   return bcrypt.compare(candidatePassword, this.password);
 };
 
@@ -0,0 +1,38 @@
+import express from "express";
+import {
+  getCacheStats,
+  listCacheEntries,
+  getCacheEntry,
+  purgeCache,
+  deleteCacheEntry,
+} from "../controllers/cacheController";
+import { updateUserRole } from "../controllers/userAdminController";
+import { getLlmUsageStats, listLlmCalls } from "../controllers/llmUsageController";
+import { authenticateUser } from "../middlewares/authMiddleware";
+import { requireAdmin } from "../middlewares/adminMiddleware";
+import { validateRequest } from "../middlewares/validationMiddleware";
+import { idParams } from "../utils/validation/common";
+import {
+  cacheSourceQuery,
+  listCacheEntriesQuery,
+  listLlmCallsQuery,
+  llmUsageStatsQuery,
+  updateUserRoleSchema,
+} from "../utils/validation/adminSchemas";
+
+const router = express.Router();
+
+router.use(authenticateUser, requireAdmin);
+
+router.get("/cache", getCacheStats);
+router.get("/cache/entries", validateRequest({ query: listCacheEntriesQuery }), listCacheEntries);
+router.get("/cache/entries/:id", validateRequest({ params: idParams }), getCacheEntry);
+router.delete("/cache", validateRequest({ query: cacheSourceQuery }), purgeCache);
+router.delete("/cache/entries/:id", validateRequest({ params: idParams }), deleteCacheEntry);
+
+router.get("/llm-usage", validateRequest({ query: llmUsageStatsQuery }), getLlmUsageStats);
+router.get("/llm-usage/calls", validateRequest({ query: listLlmCallsQuery }), listLlmCalls);
+
+router.patch("/users/:id/role", validateRequest({ params: idParams, body: updateUserRoleSchema }), updateUserRole);
+
+export default router;
@@ -0,0 +1,12 @@
+import express from "express";
+import { getAdvisorStudents } from "../controllers/advisorController";
+import { authenticateUser } from "../middlewares/authMiddleware";
+import { requireRole } from "../middlewares/adminMiddleware";
+
+const router = express.Router();
+
+router.use(authenticateUser, requireRole("advisor"));
+
+router.get("/students", getAdvisorStudents);
+
+export default router;
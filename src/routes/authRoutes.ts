@@ -1,12 +1,45 @@
 import express, { Request, Response } from "express";
-import { registerUser, loginUser, logoutUser } from "../controllers/authController";
+import {
+  registerUser,
+  loginUser,
+  logoutUser,
+  refreshSession,
+  logoutEverywhere,
+  listSessions,
+  revokeSessionById,
+  verifyEmail,
+  resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
+} from "../controllers/authController";
 import { authenticateUser, AuthRequest } from "../middlewares/authMiddleware"; // ✅ Import both
+import { validateRequest } from "../middlewares/validationMiddleware";
+import { idParams } from "../utils/validation/common";
+import {
+  emailTokenSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  registerSchema,
+  resetPasswordSchema,
+} from "../utils/validation/authSchemas";
 
 const router = express.Router();
 
-router.post("/register", registerUser);
-router.post("/login", loginUser);
+router.post("/register", validateRequest({ body: registerSchema }), registerUser);
+router.post("/login", validateRequest({ body: loginSchema }), loginUser);
+router.post("/refresh", refreshSession);
 router.post("/logout", logoutUser);
+router.post("/logout-all", authenticateUser, logoutEverywhere);
+
+// 📧 Email verification and password reset
+router.post("/verify-email", validateRequest({ body: emailTokenSchema }), verifyEmail);
+router.post("/verify-email/resend", authenticateUser, resendVerificationEmail);
+router.post("/forgot-password", validateRequest({ body: forgotPasswordSchema }), forgotPassword);
+router.post("/reset-password", validateRequest({ body: resetPasswordSchema }), resetPassword);
+
+// 🔐 Session management
+router.get("/sessions", authenticateUser, listSessions);
+router.delete("/sessions/:id", authenticateUser, validateRequest({ params: idParams }), revokeSessionById);
 
 // ✅ Fix protected route
 router.get("/protected", authenticateUser, (req: Request, res: Response) => {
@@ -0,0 +1,16 @@
+import express from "express";
+import { listMyInvitations, acceptInvitation, declineInvitation } from "../controllers/thesisSharingController";
+import { authenticateUser, requireVerifiedEmail } from "../middlewares/authMiddleware";
+import { validateRequest } from "../middlewares/validationMiddleware";
+import { idParams } from "../utils/validation/common";
+
+const router = express.Router();
+
+router.use(authenticateUser);
+
+router.get("/", listMyInvitations);
+// Invitations are matched by email, so the address must be proven first
+router.post("/:id/accept", validateRequest({ params: idParams }), requireVerifiedEmail, acceptInvitation);
+router.post("/:id/decline", validateRequest({ params: idParams }), declineInvitation);
+
+export default router;
@@ -0,0 +1,24 @@
+import express from "express";
+import {
+  listReadingItems,
+  addReadingItem,
+  getReadingItem,
+  updateReadingItem,
+  deleteReadingItem,
+} from "../controllers/readingListController";
+import { authenticateUser } from "../middlewares/authMiddleware";
+import { validateRequest } from "../middlewares/validationMiddleware";
+import { readingItemUpdateSchema } from "../utils/readingList";
+import { addReadingItemSchema, itemParams, listReadingItemsQuery } from "../utils/validation/readingListSchemas";
+
+const router = express.Router();
+
+router.use(authenticateUser); // 📚 Every reading list belongs to a logged-in user
+
+router.get("/", validateRequest({ query: listReadingItemsQuery }), listReadingItems);
+router.post("/", validateRequest({ body: addReadingItemSchema }), addReadingItem);
+router.get("/:itemId", validateRequest({ params: itemParams }), getReadingItem);
+router.patch("/:itemId", validateRequest({ params: itemParams, body: readingItemUpdateSchema }), updateReadingItem);
+router.delete("/:itemId", validateRequest({ params: itemParams }), deleteReadingItem);
+
+export default router;
@@ -0,0 +1,13 @@
+import express from "express";
+import { search } from "../controllers/searchController";
+import { authenticateUser } from "../middlewares/authMiddleware";
+import { validateRequest } from "../middlewares/validationMiddleware";
+import { searchQuery } from "../utils/validation/searchSchemas";
+
+const router = express.Router();
+
+router.use(authenticateUser); // 🔍 Only what the logged-in user can access is searched
+
+router.get("/", validateRequest({ query: searchQuery }), search);
+
+export default router;
@@ -1,8 +1,228 @@
 import express from "express";
-import { createThesisRoadmap } from "../controllers/thesisController";
+import {
+  createThesisRoadmap,
+  startThesisGeneration,
+  listTheses,
+  getThesis,
+  updateThesis,
+  deleteThesis,
+} from "../controllers/thesisController";
+import {
+  getGenerationJob,
+  streamGenerationJob,
+  resumeGenerationJob,
+} from "../controllers/generationJobController";
+import {
+  regenerateThesisSection,
+  getThesisSectionHistory,
+  revertThesisSection,
+} from "../controllers/thesisSectionController";
+import {
+  listRevisions,
+  diffRevisions,
+  getRevision,
+  rollbackToRevision,
+} from "../controllers/thesisRevisionController";
+import { getClarifyingQuestions, answerClarifyingQuestions } from "../controllers/thesisClarificationController";
+import { updateRoadmapStep } from "../controllers/thesisStepController";
+import { rescheduleTimeline, scheduleThesis, updateMilestone } from "../controllers/thesisScheduleController";
+import { exportThesis } from "../controllers/thesisExportController";
+import { exportThesisPapers, importThesisPapers } from "../controllers/thesisPapersController";
+import { getCitationGraph } from "../controllers/thesisGraphController";
+import { addRelatedPapersToReadingList } from "../controllers/readingListController";
+import {
+  inviteCollaborator,
+  listCollaborators,
+  updateCollaborator,
+  removeCollaborator,
+  revokeInvitation,
+} from "../controllers/thesisSharingController";
+import {
+  listComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  resolveComment,
+  unresolveComment,
+  markCommentsRead,
+  getUnreadCommentCount,
+} from "../controllers/thesisCommentController";
+import { authenticateUser, requireVerifiedEmail } from "../middlewares/authMiddleware";
+import { authorizeThesis } from "../middlewares/thesisAccessMiddleware";
+import { generationLimits, regenerationLimits, requireGenerationQuota } from "../middlewares/rateLimitMiddleware";
+import { getGenerationQuotaStatus } from "../controllers/quotaController";
+import { validateRequest } from "../middlewares/validationMiddleware";
+import { idParams } from "../utils/validation/common";
+import {
+  clarificationAnswersSchema,
+  collaboratorParams,
+  commentParams,
+  createCommentSchema,
+  createThesisSchema,
+  diffRevisionsQuery,
+  exportPapersQuery,
+  exportQuery,
+  importPapersQuery,
+  invitationParams,
+  inviteCollaboratorSchema,
+  listCommentsQuery,
+  listRevisionsQuery,
+  markCommentsReadSchema,
+  milestoneParams,
+  regenerateSectionSchema,
+  relatedPapersToReadingListSchema,
+  revertSectionSchema,
+  revisionParams,
+  scheduleSchema,
+  sectionParams,
+  stepParams,
+  updateCollaboratorSchema,
+  updateCommentSchema,
+  updateMilestoneSchema,
+  updateStepSchema,
+  updateThesisSchema,
+} from "../utils/validation/thesisSchemas";
 
 const router = express.Router();
 
-router.post("/generate", createThesisRoadmap);
+router.use(authenticateUser); // ✅ Every thesis route belongs to a logged-in user
+// :id is checked by authorizeThesis (a malformed id is a 404), the other params by their schemas
+
+router.get("/quota", getGenerationQuotaStatus);
+router.post(
+  "/generate",
+  validateRequest({ body: createThesisSchema }),
+  requireVerifiedEmail,
+  ...generationLimits,
+  createThesisRoadmap
+); // Draft + clarifying questions
+router.get("/jobs/:id", validateRequest({ params: idParams }), getGenerationJob);
+router.get("/jobs/:id/events", validateRequest({ params: idParams }), streamGenerationJob);
+router.post(
+  "/jobs/:id/resume",
+  validateRequest({ params: idParams }),
+  requireVerifiedEmail,
+  ...generationLimits,
+  requireGenerationQuota,
+  resumeGenerationJob
+);
+router.get("/", listTheses);
+router.get("/:id", authorizeThesis("viewer"), getThesis);
+router.put("/:id", authorizeThesis("editor"), validateRequest({ body: updateThesisSchema }), updateThesis);
+router.delete("/:id", authorizeThesis("owner"), deleteThesis);
+router.get("/:id/clarifications", authorizeThesis("viewer"), getClarifyingQuestions);
+router.put(
+  "/:id/clarifications",
+  authorizeThesis("editor"),
+  validateRequest({ body: clarificationAnswersSchema }),
+  answerClarifyingQuestions
+);
+router.post(
+  "/:id/generate",
+  authorizeThesis("owner"),
+  validateRequest({ params: idParams }),
+  requireVerifiedEmail,
+  ...generationLimits,
+  requireGenerationQuota,
+  startThesisGeneration
+);
+router.post(
+  "/:id/sections/:section/regenerate",
+  authorizeThesis("editor"),
+  validateRequest({ params: sectionParams, body: regenerateSectionSchema }),
+  requireVerifiedEmail,
+  ...regenerationLimits,
+  regenerateThesisSection
+);
+router.get(
+  "/:id/sections/:section/history",
+  authorizeThesis("viewer"),
+  validateRequest({ params: sectionParams }),
+  getThesisSectionHistory
+);
+router.post(
+  "/:id/sections/:section/revert",
+  authorizeThesis("editor"),
+  validateRequest({ params: sectionParams, body: revertSectionSchema }),
+  revertThesisSection
+);
+router.patch(
+  "/:id/roadmap/:stepId",
+  authorizeThesis("editor"),
+  validateRequest({ params: stepParams, body: updateStepSchema }),
+  updateRoadmapStep
+);
+router.post("/:id/schedule", authorizeThesis("editor"), validateRequest({ body: scheduleSchema }), scheduleThesis);
+router.post("/:id/timeline/reschedule", authorizeThesis("editor"), rescheduleTimeline);
+router.patch(
+  "/:id/timeline/:milestoneId",
+  authorizeThesis("editor"),
+  validateRequest({ params: milestoneParams, body: updateMilestoneSchema }),
+  updateMilestone
+);
+router.get("/:id/export", authorizeThesis("viewer"), validateRequest({ query: exportQuery }), exportThesis);
+router.get("/:id/papers/export", authorizeThesis("viewer"), validateRequest({ query: exportPapersQuery }), exportThesisPapers);
+router.get("/:id/graph", authorizeThesis("viewer"), getCitationGraph);
+router.post(
+  "/:id/reading-list",
+  authorizeThesis("viewer"),
+  validateRequest({ body: relatedPapersToReadingListSchema }),
+  addRelatedPapersToReadingList
+);
+router.post(
+  "/:id/papers/import",
+  authorizeThesis("editor"),
+  // Raw .bib / .ris uploads; JSON bodies are already parsed by express.json()
+  express.text({ type: ["text/plain", "application/x-bibtex", "application/x-research-info-systems"], limit: "2mb" }),
+  validateRequest({ query: importPapersQuery }),
+  importThesisPapers
+);
+
+// 🕓 Revisions
+router.get("/:id/revisions", authorizeThesis("viewer"), validateRequest({ query: listRevisionsQuery }), listRevisions);
+router.get("/:id/revisions/diff", authorizeThesis("viewer"), validateRequest({ query: diffRevisionsQuery }), diffRevisions);
+router.get("/:id/revisions/:number", authorizeThesis("viewer"), validateRequest({ params: revisionParams }), getRevision);
+router.post(
+  "/:id/revisions/:number/rollback",
+  authorizeThesis("editor"),
+  validateRequest({ params: revisionParams }),
+  rollbackToRevision
+);
+
+// 🤝 Sharing
+router.get("/:id/collaborators", authorizeThesis("viewer"), listCollaborators);
+router.patch(
+  "/:id/collaborators/:userId",
+  authorizeThesis("owner"),
+  validateRequest({ params: collaboratorParams, body: updateCollaboratorSchema }),
+  updateCollaborator
+);
+router.delete(
+  "/:id/collaborators/:userId",
+  authorizeThesis("viewer"),
+  validateRequest({ params: collaboratorParams }),
+  removeCollaborator
+);
+router.post("/:id/invitations", authorizeThesis("owner"), validateRequest({ body: inviteCollaboratorSchema }), inviteCollaborator);
+router.delete(
+  "/:id/invitations/:invitationId",
+  authorizeThesis("owner"),
+  validateRequest({ params: invitationParams }),
+  revokeInvitation
+);
+// 💬 Comments
+router.get("/:id/comments", authorizeThesis("viewer"), validateRequest({ query: listCommentsQuery }), listComments);
+router.get("/:id/comments/unread", authorizeThesis("viewer"), getUnreadCommentCount);
+router.post("/:id/comments", authorizeThesis("commenter"), validateRequest({ body: createCommentSchema }), createComment);
+router.post("/:id/comments/read", authorizeThesis("viewer"), validateRequest({ body: markCommentsReadSchema }), markCommentsRead);
+router.patch(
+  "/:id/comments/:commentId",
+  authorizeThesis("commenter"),
+  validateRequest({ params: commentParams, body: updateCommentSchema }),
+  updateComment
+);
+router.delete("/:id/comments/:commentId", authorizeThesis("commenter"), validateRequest({ params: commentParams }), deleteComment);
+router.post("/:id/comments/:commentId/resolve", authorizeThesis("commenter"), validateRequest({ params: commentParams }), resolveComment);
+router.post("/:id/comments/:commentId/unresolve", authorizeThesis("commenter"), validateRequest({ params: commentParams }), unresolveComment);
 
 export default router;
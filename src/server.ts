@@ -5,6 +5,14 @@ import dotenv from "dotenv";
 import authRoutes from "./routes/authRoutes";
 import cookieParser from "cookie-parser";
 import thesisRoutes from "./routes/thesisRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import advisorRoutes from "./routes/advisorRoutes";
+import invitationRoutes from "./routes/invitationRoutes";
+import readingListRoutes from "./routes/readingListRoutes";
+import searchRoutes from "./routes/searchRoutes";
+import { startJobSweeper } from "./utils/generationJobs";
+import { assignRequestId } from "./middlewares/requestIdMiddleware";
+import { errorHandler, notFoundHandler } from "./middlewares/errorMiddleware";
 
 // Load environment variables
 dotenv.config();
@@ -12,7 +20,13 @@ dotenv.config();
 // Initialize express app
 const app = express();
 
+// Behind a load balancer, e.g. TRUST_PROXY=1, so req.ip (used by the rate limits) is the client's address
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
+
 // Middleware
+app.use(assignRequestId); // First, so every response (errors included) carries X-Request-Id
 app.use(cors());
 app.use(express.json());
 app.use(cookieParser()); // 🏆 Enable cookie parsing
@@ -20,11 +34,20 @@ app.use(cookieParser()); // 🏆 Enable cookie parsing
 // Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/thesis", thesisRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/advisor", advisorRoutes);
+app.use("/api/invitations", invitationRoutes);
+app.use("/api/reading-list", readingListRoutes);
+app.use("/api/search", searchRoutes);
 
 app.get("/", (req, res) => {
   res.send("Thesis Planner API is running!");
 });
 
+// 🚨 Errors: unknown routes, then one handler turning every error into { code, message, requestId, details? }
+app.use(notFoundHandler);
+app.use(errorHandler);
+
 // Connect to MongoDB
 const PORT = process.env.PORT || 5000;
 const MONGO_URI = process.env.MONGO_URI || "mongodb://localhost:27017/thesis-planner";
@@ -33,6 +56,7 @@ mongoose
   .connect(MONGO_URI)
   .then(() => {
     console.log("Connected to MongoDB");
+    startJobSweeper(); // Also takes over jobs orphaned by crashed instances
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
     });
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import CacheEntry from "../models/CacheEntry";
+
+dotenv.config();
+
+// --- Configuration ---
+
+export const CACHE_SOURCES = ["semanticScholar", "openAlex", "core", "llm"] as const;
+export type CacheSource = typeof CACHE_SOURCES[number];
+
+const DAY_SECONDS = 24 * 60 * 60;
+const PREVIEW_LENGTH = 200;
+
+// Default TTL per source; override with CACHE_TTL_<SOURCE>_SECONDS (0 disables caching for that source)
+const DEFAULT_TTL_SECONDS: Record<CacheSource, number> = {
+    semanticScholar: DAY_SECONDS,
+    openAlex: DAY_SECONDS,
+    core: DAY_SECONDS,
+    llm: 7 * DAY_SECONDS,
+};
+
+const ENV_KEYS: Record<CacheSource, string> = {
+    semanticScholar: "CACHE_TTL_SEMANTIC_SCHOLAR_SECONDS",
+    openAlex: "CACHE_TTL_OPENALEX_SECONDS",
+    core: "CACHE_TTL_CORE_SECONDS",
+    llm: "CACHE_TTL_LLM_SECONDS",
+};
+
+export const getCacheTtlSeconds = (source: CacheSource): number => {
+    const configured = process.env[ENV_KEYS[source]];
+    return configured !== undefined && configured !== "" ? Number(configured) : DEFAULT_TTL_SECONDS[source];
+};
+
+// --- Keys ---
+
+export interface CacheInput {
+    text: string;
+    caseInsensitive?: boolean; // Search queries are; prompts aren't
+}
+
+// Collapse whitespace so formatting differences hit the same entry
+export const normalizeCacheInput = ({ text, caseInsensitive }: CacheInput): string => {
+    const collapsed = text.trim().replace(/\s+/g, " ");
+    return caseInsensitive ? collapsed.toLowerCase() : collapsed;
+};
+
+export const cacheKey = (source: CacheSource, input: CacheInput): string =>
+    crypto.createHash("sha256").update(`${source}\n${normalizeCacheInput(input)}`).digest("hex");
+
+// --- Read-Through Cache ---
+
+const isConnected = () => mongoose.connection.readyState === 1;
+
+/**
+ * Returns the cached value for `source` + `input`, or runs `compute` and stores its result.
+ * Cache failures never fail the call; without a MongoDB connection `compute` just runs.
+ * @param shouldCache Return false to skip storing a result (e.g. an invalid LLM answer).
+ */
+export const withCache = async <T>(
+    source: CacheSource,
+    input: CacheInput,
+    compute: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true
+): Promise<T> => {
+    const ttlSeconds = getCacheTtlSeconds(source);
+    if (ttlSeconds <= 0 || !isConnected()) return compute();
+
+    const key = cacheKey(source, input);
+    try {
+        const cached = await CacheEntry.findOneAndUpdate(
+            { key, expiresAt: { $gt: new Date() } },
+            { $inc: { hits: 1 } }
+        ).lean();
+        if (cached) {
+            console.log(`[Cache] Hit for ${source}.`);
+            return cached.value as T;
+        }
+    } catch (error: any) {
+        console.warn(`[Cache] Lookup failed for ${source}: ${error.message}`);
+    }
+
+    const value = await compute();
+
+    if (shouldCache(value)) {
+        const normalized = normalizeCacheInput(input);
+        CacheEntry.updateOne(
+            { key },
+            {
+                $set: {
+                    source,
+                    preview: normalized.slice(0, PREVIEW_LENGTH),
+                    value,
+                    hits: 0,
+                    expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+                },
+            },
+            { upsert: true }
+        ).catch((error) => console.warn(`[Cache] Write failed for ${source}: ${error.message}`));
+    }
+    return value;
+};
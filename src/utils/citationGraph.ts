@@ -0,0 +1,308 @@
+import axios from "axios";
+import dotenv from "dotenv";
+import { withCache } from "./cache";
+import { isSamePaper, mergePair, normalizeDoi, normalizeTitle } from "./paperMerge";
+import { fromOpenAlex, fromSemanticScholar, openAlexId, ResearchPaper, SEMANTIC_SCHOLAR_FIELDS } from "./paperSearch";
+import { RankedPaper } from "./roadmapSchemas";
+import { findSourcePaper } from "./thesisSections";
+
+dotenv.config();
+
+// --- Configuration ---
+
+const SEMANTIC_SCHOLAR_PAPER_API = "https://api.semanticscholar.org/graph/v1/paper";
+const OPENALEX_WORKS_API = "https://api.openalex.org/works";
+
+const envNumber = (key: string, fallback: number) => {
+    const value = Number(process.env[key]);
+    return process.env[key] !== undefined && process.env[key] !== "" && Number.isFinite(value) ? value : fallback;
+};
+
+const SEED_COUNT = envNumber("CITATION_GRAPH_SEEDS", 3); // Top-ranked papers to snowball from; 0 disables the stage
+const NEIGHBOUR_LIMIT = envNumber("CITATION_GRAPH_NEIGHBOURS", 20); // References and citing works fetched per seed and provider
+const MAX_ADDED = envNumber("CITATION_GRAPH_MAX_ADDED", 5); // Papers added to the related papers
+const MIN_SCORE = envNumber("CITATION_GRAPH_MIN_SCORE", 2);
+const TIMEOUT_MS = envNumber("CITATION_GRAPH_TIMEOUT_MS", 15000);
+
+// Shared references count less than direct links and co-citations: long reference lists overlap by chance
+const WEIGHTS = { seedLinks: 1, coCitation: 1, coupling: 0.5 };
+
+// --- Interfaces ---
+
+export interface CitationGraphNode {
+    id: string;
+    title: string;
+    authors: string;
+    year?: number;
+    doi?: string;
+    url: string;
+    citationCount: number;
+    seed: boolean; // One of the top-ranked papers the graph was expanded from
+    added: boolean; // Added to the related papers by the snowballing stage
+    seedLinks: number; // Seeds this paper cites or is cited by
+    coCitation: number; // Papers citing both this paper and a seed
+    coupling: number; // References shared with the seeds (bibliographic coupling)
+    score: number;
+}
+
+export interface CitationGraphEdge {
+    source: string; // The citing paper
+    target: string; // The cited paper
+}
+
+export interface CitationGraph {
+    nodes: CitationGraphNode[];
+    edges: CitationGraphEdge[];
+    added: ResearchPaper[]; // Full records of the added papers, appended to the source papers
+    builtAt: string;
+}
+
+// --- Graph Builder ---
+
+// Papers seen so far, deduplicated across providers like paper search results
+class GraphBuilder {
+    papers = new Map<string, ResearchPaper>();
+    edges = new Set<string>();
+    openAlexIds = new Map<string, string>(); // OpenAlex id -> node id
+    openAlexReferences = new Map<string, Set<string>>(); // Node id -> OpenAlex ids of its references
+
+    add(paper: ResearchPaper): string {
+        for (const [id, existing] of this.papers) {
+            if (isSamePaper(existing, paper)) {
+                this.papers.set(id, mergePair(existing, paper));
+                this.indexIds(id, paper);
+                return id;
+            }
+        }
+        const doi = normalizeDoi(paper.doi);
+        const id = doi
+            ? `doi:${doi}`
+            : paper.externalIds?.openAlex
+              ? `openalex:${paper.externalIds.openAlex}`
+              : paper.externalIds?.semanticScholar
+                ? `s2:${paper.externalIds.semanticScholar}`
+                : `title:${normalizeTitle(paper.title)}`;
+        this.papers.set(id, { ...paper, doi });
+        this.indexIds(id, paper);
+        return id;
+    }
+
+    // Merge another provider's record of an already known paper
+    merge(id: string, paper: ResearchPaper) {
+        const existing = this.papers.get(id);
+        if (existing) this.papers.set(id, mergePair(existing, paper));
+        this.indexIds(id, paper);
+    }
+
+    private indexIds(id: string, paper: ResearchPaper) {
+        if (paper.externalIds?.openAlex) this.openAlexIds.set(paper.externalIds.openAlex, id);
+    }
+
+    cite(source: string, target: string) {
+        if (source !== target) this.edges.add(`${source}>${target}`);
+    }
+
+    setOpenAlexReferences(id: string, references: string[] = []) {
+        const known = this.openAlexReferences.get(id) || new Set<string>();
+        references.forEach((reference) => {
+            const short = openAlexId(reference);
+            if (short) known.add(short);
+        });
+        this.openAlexReferences.set(id, known);
+    }
+
+    // OpenAlex lists the references of every work it returns; link those we also know as nodes
+    linkOpenAlexReferences() {
+        this.openAlexReferences.forEach((references, source) => {
+            references.forEach((reference) => {
+                const target = this.openAlexIds.get(reference);
+                if (target) this.cite(source, target);
+            });
+        });
+    }
+}
+
+// --- Provider Fetch Functions ---
+
+const isUsablePaper = (paper: any) => Boolean(paper?.paperId || paper?.id) && Boolean(paper?.title || paper?.display_name);
+
+const fetchSemanticScholarNeighbours = async (builder: GraphBuilder, seedId: string, seed: ResearchPaper) => {
+    const paperId = seed.externalIds?.semanticScholar || (seed.doi && `DOI:${seed.doi}`);
+    if (!paperId) return;
+
+    for (const direction of ["references", "citations"] as const) {
+        const results = await withCache("semanticScholar", { text: `${direction}:${paperId}` }, async () => {
+            const response = await axios.get(`${SEMANTIC_SCHOLAR_PAPER_API}/${encodeURIComponent(paperId)}/${direction}`, {
+                params: { fields: SEMANTIC_SCHOLAR_FIELDS, limit: NEIGHBOUR_LIMIT },
+                timeout: TIMEOUT_MS,
+            });
+            if (!Array.isArray(response.data.data)) throw new Error(`Invalid ${direction} format received from Semantic Scholar`);
+            return response.data.data
+                .map((entry: any) => (direction === "references" ? entry.citedPaper : entry.citingPaper))
+                .filter(isUsablePaper)
+                .map(fromSemanticScholar) as ResearchPaper[];
+        });
+
+        for (const paper of results) {
+            const id = builder.add(paper);
+            if (direction === "references") builder.cite(seedId, id);
+            else builder.cite(id, seedId);
+        }
+    }
+};
+
+const fetchOpenAlexWorks = async (filter: string, cacheText: string): Promise<any[]> =>
+    withCache("openAlex", { text: cacheText }, async () => {
+        const response = await axios.get(OPENALEX_WORKS_API, {
+            params: { filter, per_page: NEIGHBOUR_LIMIT, sort: "cited_by_count:desc" },
+            timeout: TIMEOUT_MS,
+        });
+        if (!Array.isArray(response.data.results)) throw new Error("Invalid data format received from OpenAlex");
+        return response.data.results;
+    });
+
+const fetchOpenAlexNeighbours = async (builder: GraphBuilder, seedId: string, seed: ResearchPaper) => {
+    const lookup = seed.externalIds?.openAlex || (seed.doi && `doi:${seed.doi}`);
+    if (!lookup) return;
+
+    const work = await withCache("openAlex", { text: `work:${lookup}` }, async () => {
+        const response = await axios.get(`${OPENALEX_WORKS_API}/${lookup}`, { timeout: TIMEOUT_MS });
+        return response.data;
+    });
+    const workId = openAlexId(work?.id);
+    if (!workId) return;
+
+    builder.merge(seedId, fromOpenAlex(work));
+    builder.setOpenAlexReferences(seedId, work.referenced_works);
+
+    const referenceIds = (work.referenced_works || []).map(openAlexId).filter(Boolean).slice(0, NEIGHBOUR_LIMIT);
+    const [references, citing] = await Promise.all([
+        referenceIds.length > 0 ? fetchOpenAlexWorks(`openalex:${referenceIds.join("|")}`, `references:${workId}`) : [],
+        fetchOpenAlexWorks(`cites:${workId}`, `citations:${workId}`),
+    ]);
+
+    for (const reference of references) {
+        const id = builder.add(fromOpenAlex(reference));
+        builder.cite(seedId, id);
+        builder.setOpenAlexReferences(id, reference.referenced_works);
+    }
+    for (const citingWork of citing) {
+        const id = builder.add(fromOpenAlex(citingWork));
+        builder.cite(id, seedId);
+        builder.setOpenAlexReferences(id, citingWork.referenced_works);
+    }
+};
+
+// --- Scoring ---
+
+const scoreNodes = (builder: GraphBuilder, seedIds: Set<string>, existingPapers: ResearchPaper[]): CitationGraphNode[] => {
+    const edges = Array.from(builder.edges, (edge) => edge.split(">") as [string, string]);
+    const citedBy = new Map<string, Set<string>>();
+    edges.forEach(([source, target]) => citedBy.set(target, (citedBy.get(target) || new Set()).add(source)));
+
+    const seedReferences = new Set<string>();
+    seedIds.forEach((seedId) => builder.openAlexReferences.get(seedId)?.forEach((reference) => seedReferences.add(reference)));
+    // Papers that cite at least one seed
+    const seedCiters = new Set(edges.filter(([, target]) => seedIds.has(target)).map(([source]) => source));
+
+    const nodes = Array.from(builder.papers, ([id, paper]): CitationGraphNode => {
+        const seed = seedIds.has(id);
+        const seedLinks = seed
+            ? 0
+            : new Set(edges.filter(([source, target]) => (source === id && seedIds.has(target)) || (target === id && seedIds.has(source))).map(([source, target]) => (source === id ? target : source))).size;
+        const coCitation = seed ? 0 : Array.from(citedBy.get(id) || []).filter((citer) => citer !== id && seedCiters.has(citer)).length;
+        const coupling = seed ? 0 : Array.from(builder.openAlexReferences.get(id) || []).filter((reference) => seedReferences.has(reference)).length;
+
+        return {
+            id,
+            title: paper.title,
+            authors: paper.authors,
+            year: paper.year,
+            doi: paper.doi,
+            url: paper.paperLink || paper.url,
+            citationCount: paper.citationCount,
+            seed,
+            added: false,
+            seedLinks,
+            coCitation,
+            coupling,
+            score: seedLinks * WEIGHTS.seedLinks + coCitation * WEIGHTS.coCitation + coupling * WEIGHTS.coupling,
+        };
+    });
+
+    // 📌 The best-connected candidates the search didn't already return join the related papers
+    nodes
+        .filter((node) => !node.seed && node.score >= MIN_SCORE && node.title !== "Untitled")
+        .filter((node) => !existingPapers.some((paper) => isSamePaper(paper, builder.papers.get(node.id) as ResearchPaper)))
+        .sort((a, b) => b.score - a.score || b.citationCount - a.citationCount)
+        .slice(0, MAX_ADDED)
+        .forEach((node) => { node.added = true; });
+
+    // Seeds first, then the best-connected papers: the order the added papers are ranked in
+    return nodes.sort((a, b) => Number(b.seed) - Number(a.seed) || b.score - a.score || b.citationCount - a.citationCount);
+};
+
+/**
+ * Snowballs from the top-ranked papers: fetches their references and citing works from
+ * Semantic Scholar and OpenAlex, scores every candidate by direct links to the seeds,
+ * co-citation and bibliographic coupling, and marks the best ones as added.
+ * Provider failures only shrink the graph.
+ * @returns The graph, or null when no ranked paper could be used as a seed.
+ */
+export const buildCitationGraph = async (
+    papers: ResearchPaper[] = [],
+    rankedPapers: RankedPaper[] | null | undefined
+): Promise<CitationGraph | null> => {
+    const seeds = [...(rankedPapers || [])]
+        .sort((a, b) => a.rank - b.rank)
+        .map((ranked) => findSourcePaper(ranked, papers))
+        .filter((paper): paper is ResearchPaper => Boolean(paper && (paper.doi || paper.externalIds?.semanticScholar || paper.externalIds?.openAlex)))
+        .slice(0, SEED_COUNT);
+    if (seeds.length === 0) return null;
+
+    const builder = new GraphBuilder();
+    const seedIds = new Set<string>();
+    for (const seed of seeds) {
+        const seedId = builder.add(seed);
+        seedIds.add(seedId);
+
+        // One seed at a time keeps us under the unauthenticated Semantic Scholar rate limit
+        const results = await Promise.allSettled([
+            fetchSemanticScholarNeighbours(builder, seedId, seed),
+            fetchOpenAlexNeighbours(builder, seedId, seed),
+        ]);
+        results.forEach((result) => {
+            if (result.status === "rejected") console.warn(`[Citation Graph] Expansion of "${seed.title}" failed:`, result.reason?.message || result.reason);
+        });
+    }
+    builder.linkOpenAlexReferences();
+
+    const nodes = scoreNodes(builder, seedIds, papers);
+    const added = nodes.filter((node) => node.added).map((node) => builder.papers.get(node.id) as ResearchPaper);
+    console.log(`[Citation Graph] ${nodes.length} papers and ${builder.edges.size} citations around ${seeds.length} seed(s), ${added.length} added.`);
+
+    return {
+        nodes,
+        edges: Array.from(builder.edges, (edge) => {
+            const [source, target] = edge.split(">");
+            return { source, target };
+        }),
+        added,
+        builtAt: new Date().toISOString(),
+    };
+};
+
+/**
+ * The added papers as ranked papers, ranked after the LLM-ranked ones.
+ */
+export const snowballedRankedPapers = (graph: CitationGraph | null | undefined, afterRank = 0): RankedPaper[] =>
+    (graph?.nodes || [])
+        .filter((node) => node.added)
+        .map((node, index) => ({
+            rank: afterRank + index + 1,
+            title: node.title,
+            summary: `Found by citation snowballing: linked to ${node.seedLinks} top-ranked paper(s), co-cited with them ${node.coCitation} time(s), ${node.coupling} shared reference(s).`,
+            authors: node.authors,
+            date: node.year ? String(node.year) : "",
+            link: node.url,
+        }));
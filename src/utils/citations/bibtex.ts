@@ -0,0 +1,122 @@
+import { CitationRecord, parsePersonName, PersonName } from "./citationRecord";
+
+// --- BibTeX ---
+
+const BIBTEX_SPECIALS = /[&%$#_{}]/g;
+
+const escapeBibtex = (value: string) =>
+    value.replace(/\\/g, "\\textbackslash{}").replace(BIBTEX_SPECIALS, (char) => `\\${char}`).replace(/\s+/g, " ").trim();
+
+const formatName = ({ family, given }: PersonName) => (given ? `${family}, ${given}` : family);
+
+export const formatBibtex = (records: CitationRecord[]): string =>
+    records
+        .map((record) => {
+            const fields: [string, string | undefined][] = [
+                ["title", `{${escapeBibtex(record.title)}}`], // Double braces keep the title's capitalization
+                ["author", record.authors.length > 0 ? record.authors.map((author) => escapeBibtex(formatName(author))).join(" and ") : undefined],
+                ["year", record.year ? String(record.year) : undefined],
+                ["journal", record.journal ? escapeBibtex(record.journal) : undefined],
+                ["doi", record.doi],
+                ["url", record.url],
+                ["abstract", record.abstract ? escapeBibtex(record.abstract) : undefined],
+            ];
+            const body = fields
+                .filter(([, value]) => value)
+                .map(([name, value]) => `  ${name} = {${value}}`)
+                .join(",\n");
+            return `@article{${record.key},\n${body}\n}`;
+        })
+        .join("\n\n") + "\n";
+
+// --- Parsing ---
+
+// {\"o} -> o, \'{e} -> e, {Title} -> Title
+const cleanLatex = (value: string) =>
+    value
+        .replace(/\\[`'"^~=.uvHckr]\s*\{?([A-Za-z])\}?/g, "$1")
+        .replace(/\\(textbackslash)\{\}/g, "\\")
+        .replace(/\\([&%$#_{}])/g, "$1")
+        .replace(/[{}]/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+
+// Read a {balanced} or "quoted" value starting at `start`; returns the value and the index after it
+const readDelimited = (text: string, start: number): [string, number] => {
+    const quoted = text[start] === '"';
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === "\\") {
+            i++; // Skip escaped characters such as \{ or \"
+        } else if (char === "{") {
+            depth++;
+        } else if (char === "}") {
+            depth--;
+            if (!quoted && depth === 0) return [text.slice(start + 1, i), i + 1];
+        } else if (quoted && char === '"' && i > start && depth === 0) {
+            return [text.slice(start + 1, i), i + 1];
+        }
+    }
+    throw new Error("Unterminated value in BibTeX entry");
+};
+
+const parseFields = (body: string): Record<string, string> => {
+    const fields: Record<string, string> = {};
+    let i = 0;
+    while (i < body.length) {
+        const match = /\s*,?\s*([A-Za-z][\w-]*)\s*=\s*/y;
+        match.lastIndex = i;
+        const found = match.exec(body);
+        if (!found) break;
+        i = match.lastIndex;
+
+        let value: string;
+        if (body[i] === "{" || body[i] === '"') {
+            [value, i] = readDelimited(body, i);
+        } else {
+            const bare = /[^,}\s]+/y;
+            bare.lastIndex = i;
+            value = bare.exec(body)?.[0] || "";
+            i = bare.lastIndex || body.length;
+        }
+        // "a" # "b" concatenation is rare in exported libraries; keep the first part
+        fields[found[1].toLowerCase()] = value;
+    }
+    return fields;
+};
+
+/**
+ * Parses the entries of a .bib file. @comment, @string and @preamble blocks are skipped.
+ * @returns One record per entry that has a title.
+ */
+export const parseBibtex = (text: string): CitationRecord[] => {
+    const records: CitationRecord[] = [];
+    const entryStart = /@(\w+)\s*\{/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = entryStart.exec(text))) {
+        const type = match[1].toLowerCase();
+        const [content, end] = readDelimited(text, match.index + match[0].length - 1);
+        entryStart.lastIndex = end;
+        if (["comment", "string", "preamble"].includes(type)) continue;
+
+        const comma = content.indexOf(",");
+        const key = comma === -1 ? content.trim() : content.slice(0, comma).trim();
+        const fields = parseFields(comma === -1 ? "" : content.slice(comma + 1));
+        if (!fields.title) continue;
+
+        const year = Number((fields.year || fields.date || "").match(/\d{4}/)?.[0]) || undefined;
+        records.push({
+            key,
+            title: cleanLatex(fields.title),
+            authors: fields.author ? cleanLatex(fields.author).split(/\s+and\s+/i).filter(Boolean).map(parsePersonName) : [],
+            year,
+            doi: fields.doi ? cleanLatex(fields.doi) : undefined,
+            url: fields.url ? fields.url.trim() : undefined,
+            abstract: fields.abstract ? cleanLatex(fields.abstract) : undefined,
+            journal: fields.journal || fields.booktitle ? cleanLatex(fields.journal || fields.booktitle) : undefined,
+        });
+    }
+    return records;
+};
@@ -0,0 +1,121 @@
+import { IThesis } from "../../models/Thesis";
+import { ResearchPaper } from "../paperSearch";
+import { normalizeDoi } from "../paperMerge";
+
+// --- Common Citation Record ---
+// Every bibliography format is written from and parsed into this shape.
+
+export interface PersonName {
+    family: string;
+    given?: string;
+}
+
+export interface CitationRecord {
+    key: string; // Citation key, e.g. "doe2021deep"
+    title: string;
+    authors: PersonName[];
+    year?: number;
+    doi?: string;
+    url?: string;
+    abstract?: string;
+    journal?: string;
+}
+
+const UNKNOWN_AUTHORS = "Unknown authors";
+const TITLE_STOP_WORDS = new Set(["a", "an", "the", "on", "of", "in", "for", "and", "to", "with", "from", "towards", "toward"]);
+
+// Strip accents and anything that's not a-z0-9
+const asciiWord = (value: string) =>
+    value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Parses one author name in either "Given Family" or "Family, Given" form.
+ */
+export const parsePersonName = (name: string): PersonName => {
+    const trimmed = name.trim().replace(/\s+/g, " ");
+    if (trimmed.includes(",")) {
+        const [family, given] = trimmed.split(/,\s*/, 2);
+        return { family, given: given || undefined };
+    }
+    const parts = trimmed.split(" ");
+    const family = parts.pop() || trimmed;
+    return { family, given: parts.length > 0 ? parts.join(" ") : undefined };
+};
+
+// "Jane Doe, John Roe" (the ResearchPaper / IThesis format) -> PersonName[]
+export const parseAuthorList = (authors?: string): PersonName[] =>
+    !authors || authors === UNKNOWN_AUTHORS ? [] : authors.split(/\s*,\s*/).filter(Boolean).map(parsePersonName);
+
+export const formatAuthorList = (authors: PersonName[]): string =>
+    authors.length === 0 ? UNKNOWN_AUTHORS : authors.map((author) => [author.given, author.family].filter(Boolean).join(" ")).join(", ");
+
+/**
+ * Builds citation keys as <first author family name><year><first significant title word>,
+ * e.g. "doe2021deep". Records that would share a key get a, b, c... suffixes in list order.
+ */
+export const assignCitationKeys = <T extends Omit<CitationRecord, "key">>(records: T[]): (T & { key: string })[] => {
+    const baseKeys = records.map((record) => {
+        const author = asciiWord(record.authors[0]?.family || "") || "anon";
+        const word = record.title.split(/\s+/).map(asciiWord).find((candidate) => candidate && !TITLE_STOP_WORDS.has(candidate)) || "";
+        return `${author}${record.year || "nd"}${word}`;
+    });
+
+    const totals = new Map<string, number>();
+    baseKeys.forEach((key) => totals.set(key, (totals.get(key) || 0) + 1));
+    const seen = new Map<string, number>();
+
+    return records.map((record, index) => {
+        const base = baseKeys[index];
+        if (totals.get(base) === 1) return { ...record, key: base };
+        const position = seen.get(base) || 0;
+        seen.set(base, position + 1);
+        return { ...record, key: `${base}${String.fromCharCode(97 + (position % 26))}${position >= 26 ? Math.floor(position / 26) : ""}` };
+    });
+};
+
+// --- Conversions ---
+
+const yearFromDate = (date?: string) => {
+    const match = date?.match(/\b(1[5-9]\d\d|20\d\d)\b/);
+    return match ? Number(match[1]) : undefined;
+};
+
+export const fromRelatedPapers = (papers: IThesis["relatedPapers"]): CitationRecord[] =>
+    assignCitationKeys(
+        papers.map((paper) => ({
+            title: paper.title,
+            authors: parseAuthorList(paper.author),
+            year: paper.year || yearFromDate(paper.date),
+            doi: normalizeDoi(paper.doi),
+            url: paper.link || undefined,
+            abstract: paper.summary || undefined,
+        }))
+    );
+
+export const fromResearchPapers = (papers: ResearchPaper[]): CitationRecord[] =>
+    assignCitationKeys(
+        papers.map((paper) => ({
+            title: paper.title,
+            authors: parseAuthorList(paper.authors),
+            year: paper.year,
+            doi: normalizeDoi(paper.doi),
+            url: paper.paperLink || paper.url || undefined,
+            abstract: paper.abstract && paper.abstract !== "No abstract available" ? paper.abstract : undefined,
+        }))
+    );
+
+export const toResearchPaper = (record: CitationRecord, source: string): ResearchPaper => {
+    const doi = normalizeDoi(record.doi);
+    const url = record.url || (doi ? `https://doi.org/${doi}` : "");
+    return {
+        title: record.title || "Untitled",
+        url,
+        paperLink: url,
+        abstract: record.abstract || "No abstract available",
+        citationCount: 0,
+        authors: formatAuthorList(record.authors),
+        doi,
+        year: record.year,
+        sources: [source],
+    };
+};
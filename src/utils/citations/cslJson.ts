@@ -0,0 +1,20 @@
+import { CitationRecord } from "./citationRecord";
+
+// --- CSL-JSON (Zotero, Mendeley, pandoc-citeproc) ---
+
+export const formatCslJson = (records: CitationRecord[]): string =>
+    JSON.stringify(
+        records.map((record) => ({
+            id: record.key,
+            type: "article-journal",
+            title: record.title,
+            author: record.authors.map(({ family, given }) => (given ? { family, given } : { family })),
+            ...(record.year && { issued: { "date-parts": [[record.year]] } }),
+            ...(record.journal && { "container-title": record.journal }),
+            ...(record.doi && { DOI: record.doi }),
+            ...(record.url && { URL: record.url }),
+            ...(record.abstract && { abstract: record.abstract }),
+        })),
+        null,
+        2
+    ) + "\n";
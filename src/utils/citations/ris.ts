@@ -0,0 +1,82 @@
+import { CitationRecord, parsePersonName } from "./citationRecord";
+
+// --- RIS ---
+
+const line = (tag: string, value: string) => `${tag}  - ${value.replace(/\s+/g, " ").trim()}`;
+
+export const formatRis = (records: CitationRecord[]): string =>
+    records
+        .map((record) =>
+            [
+                line("TY", "JOUR"),
+                line("ID", record.key),
+                line("TI", record.title),
+                ...record.authors.map((author) => line("AU", author.given ? `${author.family}, ${author.given}` : author.family)),
+                record.year && line("PY", String(record.year)),
+                record.journal && line("JO", record.journal),
+                record.doi && line("DO", record.doi),
+                record.url && line("UR", record.url),
+                record.abstract && line("AB", record.abstract),
+                "ER  - ",
+            ]
+                .filter(Boolean)
+                .join("\n")
+        )
+        .join("\n\n") + "\n";
+
+const RIS_LINE = /^([A-Z][A-Z0-9])  -\s?(.*)$/;
+
+/**
+ * Parses the references of a .ris file.
+ * @returns One record per reference that has a title.
+ */
+export const parseRis = (text: string): CitationRecord[] => {
+    const records: CitationRecord[] = [];
+    let current: Record<string, string[]> | null = null;
+    let lastTag = "";
+
+    const finish = () => {
+        if (!current) return;
+        const first = (...tags: string[]) => tags.map((tag) => current![tag]?.[0]).find(Boolean);
+        const title = first("TI", "T1", "CT", "BT");
+        if (title) {
+            records.push({
+                key: first("ID") || "",
+                title,
+                authors: [...(current.AU || []), ...(current.A1 || [])].map(parsePersonName),
+                year: Number(first("PY", "Y1", "DA")?.match(/\d{4}/)?.[0]) || undefined,
+                doi: first("DO"),
+                url: first("UR", "L2"),
+                abstract: first("AB", "N2"),
+                journal: first("JO", "JF", "T2"),
+            });
+        }
+        current = null;
+    };
+
+    for (const raw of text.replace(/\r\n?/g, "\n").split("\n")) {
+        const match = raw.match(RIS_LINE);
+        if (!match) {
+            // Continuation of a long value (e.g. a wrapped abstract)
+            if (current && lastTag && raw.trim()) {
+                const values: string[] = current[lastTag];
+                values[values.length - 1] += ` ${raw.trim()}`;
+            }
+            continue;
+        }
+
+        const [, tag, value] = match;
+        if (tag === "TY") {
+            finish();
+            current = {};
+        } else if (tag === "ER") {
+            finish();
+            continue;
+        }
+        if (!current) continue;
+        (current[tag] = current[tag] || []).push(value.trim());
+        lastTag = tag;
+    }
+    finish();
+    return records;
+};
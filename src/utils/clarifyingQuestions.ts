@@ -0,0 +1,37 @@
+import { IThesis } from "../models/Thesis";
+import { generateSection } from "./generateThesisRoadmap";
+import { LlmCallContext } from "./llm";
+import { PromptGenerator } from "./promptGenerator";
+import { Clarification } from "./prompts";
+import { ClarifyingQuestion } from "./roadmapSchemas";
+import { ThesisProfile } from "./thesisProfile";
+
+export const MAX_ANSWER_LENGTH = 2000;
+
+/**
+ * Asks the LLM for the questions of the first generation phase.
+ * @returns The questions, or an empty list when the LLM gave no valid answer (the roadmap is then generated without answers).
+ */
+export const generateClarifyingQuestions = async (
+    thesisDescription: string,
+    { language, profile, call }: { language?: string; profile?: ThesisProfile; call?: LlmCallContext } = {}
+): Promise<ClarifyingQuestion[]> => {
+    try {
+        const prompt = PromptGenerator.clarifyingQuestions(thesisDescription, { language, profile });
+        const result = await generateSection("clarifyingQuestions", prompt, { call });
+        if (result.value) return result.value;
+        console.warn("Clarifying questions failed validation, continuing without them.");
+    } catch (error: any) {
+        console.warn("Clarifying questions failed, continuing without them:", error.message || error);
+    }
+    return [];
+};
+
+// Answered questions, in the shape the prompts expect
+export const getClarifications = (thesis: IThesis): Clarification[] =>
+    thesis.clarifyingQuestions
+        .filter((entry) => entry.answer?.trim())
+        .map(({ question, answer }) => ({ question, answer: (answer as string).trim() }));
+
+export const getUnansweredQuestions = (thesis: IThesis) =>
+    thesis.clarifyingQuestions.filter((entry) => !entry.answer?.trim());
@@ -0,0 +1,99 @@
+import { IThesis, ThesisSection } from "../models/Thesis";
+import Comment from "../models/Comment";
+import { getThesisSection } from "./thesisSections";
+import { normalizeDoi, normalizeTitle, titleSimilarity } from "./paperMerge";
+
+export interface CommentAnchor {
+    itemId: string;
+    fingerprint: string;
+    anchorText: string;
+}
+
+const TITLE_MATCH_THRESHOLD = 0.85;
+const MAX_ANCHOR_TEXT = 200;
+
+// Sections stored as arrays of subdocuments; the others are JSON objects addressed by field path
+const ARRAY_SECTIONS: ThesisSection[] = ["stepByStep", "relatedPapers"];
+
+const truncate = (text: string) => (text.length > MAX_ANCHOR_TEXT ? `${text.slice(0, MAX_ANCHOR_TEXT - 3)}...` : text);
+
+// "doi:<doi>" or "title:<normalized title>"
+const itemFingerprint = (section: ThesisSection, item: any): string => {
+    const doi = section === "relatedPapers" ? normalizeDoi(item.doi) : undefined;
+    return doi ? `doi:${doi}` : `title:${normalizeTitle(item.title || "")}`;
+};
+
+const fingerprintsMatch = (a: string, b: string) => {
+    if (a === b) return true;
+    if (!a.startsWith("title:") || !b.startsWith("title:")) return false;
+    return titleSimilarity(a.slice(6), b.slice(6)) >= TITLE_MATCH_THRESHOLD;
+};
+
+const UNSAFE_PATH_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+// Follows own properties only (array items by index), so prototype members can't be anchored to
+const valueAtPath = (value: unknown, path: string): unknown =>
+    path.split(".").reduce<unknown>((current, key) => {
+        if (typeof current !== "object" || current === null || UNSAFE_PATH_KEYS.has(key)) return undefined;
+        if (Array.isArray(current) && !/^\d+$/.test(key)) return undefined;
+        return Object.prototype.hasOwnProperty.call(current, key) ? (current as Record<string, unknown>)[key] : undefined;
+    }, value);
+
+const describeValue = (value: unknown) => truncate(typeof value === "string" ? value : JSON.stringify(value));
+
+/**
+ * Resolves an item of a section to a comment anchor, or null when it does not exist.
+ * Array sections take the subdocument id; object sections a dotted field path.
+ */
+export const resolveCommentAnchor = (thesis: IThesis, section: ThesisSection, itemId: string): CommentAnchor | null => {
+    const value = getThesisSection(thesis, section);
+
+    if (ARRAY_SECTIONS.includes(section)) {
+        const item = ((value as any[]) || []).find((entry) => entry._id?.toString() === itemId);
+        return item ? { itemId, fingerprint: itemFingerprint(section, item), anchorText: truncate(item.title || "") } : null;
+    }
+
+    const target = valueAtPath(value, itemId);
+    return target === undefined ? null : { itemId, fingerprint: `path:${itemId}`, anchorText: describeValue(target) };
+};
+
+// Find the item a fingerprint now belongs to after the section was replaced
+const findByFingerprint = (thesis: IThesis, section: ThesisSection, fingerprint: string): string | null => {
+    const value = getThesisSection(thesis, section);
+
+    if (ARRAY_SECTIONS.includes(section)) {
+        const items = (value as any[]) || [];
+        const exact = items.find((item) => itemFingerprint(section, item) === fingerprint);
+        const match = exact || items.find((item) => fingerprintsMatch(itemFingerprint(section, item), fingerprint));
+        return match ? match._id.toString() : null;
+    }
+
+    const path = fingerprint.startsWith("path:") ? fingerprint.slice(5) : "";
+    return path && valueAtPath(value, path) !== undefined ? path : null;
+};
+
+/**
+ * Re-attaches the comments of the given sections after they were regenerated, reverted or edited:
+ * items are found by id, then by fingerprint; comments whose item is gone are marked orphaned
+ * (and un-orphaned if a revert brings the item back). Call after the thesis is saved.
+ */
+export const reanchorComments = async (thesis: IThesis, sections: ThesisSection[]) => {
+    for (const section of sections) {
+        const anchors = await Comment.aggregate<{ _id: { itemId: string; fingerprint?: string } }>([
+            { $match: { thesis: thesis._id, section, itemId: { $exists: true } } },
+            { $group: { _id: { itemId: "$itemId", fingerprint: "$fingerprint" } } },
+        ]);
+
+        for (const { _id: anchor } of anchors) {
+            const current = resolveCommentAnchor(thesis, section, anchor.itemId);
+            const newItemId = current ? anchor.itemId : anchor.fingerprint && findByFingerprint(thesis, section, anchor.fingerprint);
+            const filter = { thesis: thesis._id, section, itemId: anchor.itemId, fingerprint: anchor.fingerprint };
+
+            if (newItemId) {
+                await Comment.updateMany(filter, { $set: { itemId: newItemId, orphaned: false }, $unset: { orphanedAt: 1 } });
+            } else {
+                await Comment.updateMany({ ...filter, orphaned: false }, { $set: { orphaned: true, orphanedAt: new Date() } });
+            }
+        }
+    }
+};
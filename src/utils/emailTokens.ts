@@ -0,0 +1,73 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import jwt from "jsonwebtoken";
+import User, { IUser } from "../models/User";
+import { AppError } from "./errors";
+
+export type EmailTokenPurpose = "verifyEmail" | "resetPassword";
+
+dotenv.config();
+
+// --- Configuration ---
+export const EMAIL_VERIFICATION_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 48;
+export const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+
+const NONCE_FIELDS: Record<EmailTokenPurpose, "emailVerificationNonce" | "passwordResetNonce"> = {
+  verifyEmail: "emailVerificationNonce",
+  resetPassword: "passwordResetNonce",
+};
+
+const TTL_SECONDS: Record<EmailTokenPurpose, number> = {
+  verifyEmail: EMAIL_VERIFICATION_TTL_HOURS * 60 * 60,
+  resetPassword: PASSWORD_RESET_TTL_MINUTES * 60,
+};
+
+interface EmailTokenPayload {
+  id: string;
+  purpose: EmailTokenPurpose;
+  nonce: string;
+}
+
+export class EmailTokenError extends AppError {
+  constructor(message: string) {
+    super("AUTH_EMAIL_TOKEN_INVALID", message);
+  }
+}
+
+/**
+ * Issues a signed token for `purpose` and stores its nonce on the user.
+ * Issuing a new token invalidates the previous one of the same purpose.
+ */
+export const issueEmailToken = async (user: IUser, purpose: EmailTokenPurpose): Promise<string> => {
+  const nonce = crypto.randomBytes(16).toString("hex");
+  user.set(NONCE_FIELDS[purpose], nonce);
+  await user.save();
+
+  const payload: EmailTokenPayload = { id: user._id.toString(), purpose, nonce };
+  return jwt.sign(payload, process.env.JWT_SECRET as string, { expiresIn: TTL_SECONDS[purpose] });
+};
+
+/**
+ * Verifies a token and atomically clears its nonce so it cannot be used again.
+ * @throws EmailTokenError when the token is invalid, expired, for another purpose or already used.
+ */
+export const consumeEmailToken = async (token: unknown, purpose: EmailTokenPurpose): Promise<IUser> => {
+  if (typeof token !== "string" || !token) throw new EmailTokenError("Token is required");
+
+  let payload: EmailTokenPayload;
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET as string) as EmailTokenPayload;
+  } catch (error) {
+    throw new EmailTokenError(error instanceof jwt.TokenExpiredError ? "Token expired" : "Token invalid");
+  }
+  if (payload.purpose !== purpose || !payload.nonce) throw new EmailTokenError("Token invalid");
+
+  const field = NONCE_FIELDS[purpose];
+  const user = await User.findOneAndUpdate(
+    { _id: payload.id, [field]: payload.nonce },
+    { $unset: { [field]: 1 } },
+    { new: true }
+  );
+  if (!user) throw new EmailTokenError("Token already used or superseded");
+  return user;
+};
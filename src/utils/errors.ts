@@ -0,0 +1,83 @@
+import { ValidationIssue } from "./schema";
+
+// --- Application Errors ---
+// Thrown anywhere and turned into the JSON error response by errorHandler (middlewares/errorMiddleware).
+
+// Every machine-readable error code with its HTTP status. Codes are part of the API: never rename one.
+export const ERROR_STATUS = {
+    VALIDATION_FAILED: 400,
+    MALFORMED_JSON: 400,
+    AUTH_INVALID_CREDENTIALS: 400,
+    AUTH_EMAIL_TOKEN_INVALID: 400,
+    AUTH_TOKEN_MISSING: 401,
+    AUTH_TOKEN_INVALID: 401,
+    AUTH_SESSION_REVOKED: 401,
+    AUTH_REFRESH_INVALID: 401,
+    AUTH_EMAIL_NOT_VERIFIED: 403,
+    FORBIDDEN: 403,
+    NOT_FOUND: 404,
+    ROUTE_NOT_FOUND: 404,
+    AUTH_USER_EXISTS: 409,
+    CONFLICT: 409,
+    PAYLOAD_TOO_LARGE: 413,
+    LLM_PARSE_FAILED: 422,
+    RATE_LIMITED: 429,
+    QUOTA_EXCEEDED: 429,
+    INTERNAL_ERROR: 500,
+    LLM_UNAVAILABLE: 502,
+    PROVIDER_UNAVAILABLE: 502,
+    PROVIDER_RATE_LIMITED: 503,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+export class AppError extends Error {
+    readonly status: number;
+
+    /**
+     * @param details Extra machine-readable fields sent with the error, e.g. validation issues.
+     */
+    constructor(readonly code: ErrorCode, message: string, readonly details?: Record<string, unknown>) {
+        super(message);
+        this.name = new.target.name;
+        this.status = ERROR_STATUS[code];
+    }
+}
+
+export class ValidationError extends AppError {
+    constructor(issues: ValidationIssue[], message = "Invalid request") {
+        super("VALIDATION_FAILED", message, { issues });
+    }
+}
+
+export class NotFoundError extends AppError {
+    constructor(message = "Not found") {
+        super("NOT_FOUND", message);
+    }
+}
+
+export class ForbiddenError extends AppError {
+    constructor(message: string) {
+        super("FORBIDDEN", message);
+    }
+}
+
+export class ConflictError extends AppError {
+    constructor(message: string, details?: Record<string, unknown>) {
+        super("CONFLICT", message, details);
+    }
+}
+
+// Answers 400 for a request that passed schema validation but can't be carried out as sent
+export class BadRequestError extends AppError {
+    constructor(message: string, details?: Record<string, unknown>) {
+        super("VALIDATION_FAILED", message, details);
+    }
+}
+
+// The LLM or a paper provider failed; `code` tells whether retrying later may help
+export class ProviderError extends AppError {
+    constructor(code: "LLM_UNAVAILABLE" | "PROVIDER_UNAVAILABLE" | "PROVIDER_RATE_LIMITED", message: string) {
+        super(code, message);
+    }
+}
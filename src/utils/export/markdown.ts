@@ -0,0 +1,186 @@
+// --- Minimal GitHub-Flavored Markdown Parser ---
+// Covers what PromptGenerator asks the LLM to use: headings, emphasis, lists,
+// links, inline code, code blocks, tables, block quotes and rules.
+
+export type Inline =
+    | { type: "text"; value: string }
+    | { type: "strong"; children: Inline[] }
+    | { type: "em"; children: Inline[] }
+    | { type: "code"; value: string }
+    | { type: "link"; url: string; children: Inline[] }
+    | { type: "break" };
+
+export interface ListItem {
+    blocks: Block[];
+}
+
+export type Block =
+    | { type: "heading"; level: number; content: Inline[] }
+    | { type: "paragraph"; content: Inline[] }
+    | { type: "list"; ordered: boolean; start: number; items: ListItem[] }
+    | { type: "code"; language: string; value: string }
+    | { type: "table"; header: Inline[][]; rows: Inline[][][] }
+    | { type: "blockquote"; blocks: Block[] }
+    | { type: "rule" };
+
+// --- Inline ---
+
+const INLINE_PATTERNS: { regex: RegExp; build: (match: RegExpExecArray) => Inline }[] = [
+    { regex: /`([^`]+)`/, build: (m) => ({ type: "code", value: m[1] }) },
+    { regex: /\[([^\]]+)\]\(([^)\s]+)\)/, build: (m) => ({ type: "link", url: m[2], children: parseInline(m[1]) }) },
+    { regex: /\*\*(?=\S)([\s\S]*?\S)\*\*(?!\*)|(?<!\w)__(?=\S)([\s\S]*?\S)__(?!\w)/, build: (m) => ({ type: "strong", children: parseInline(m[1] ?? m[2]) }) },
+    // Underscores inside words (snake_case) are not emphasis
+    { regex: /\*(?=\S)([\s\S]*?\S)\*|(?<!\w)_(?=\S)([\s\S]*?\S)_(?!\w)/, build: (m) => ({ type: "em", children: parseInline(m[1] ?? m[2]) }) },
+    { regex: /<br\s*\/?>| {2,}\n/, build: () => ({ type: "break" }) },
+];
+
+export const parseInline = (text: string): Inline[] => {
+    const result: Inline[] = [];
+    let rest = text;
+
+    while (rest.length > 0) {
+        // Pick the pattern that matches earliest in the remaining text
+        let best: { index: number; match: RegExpExecArray; build: (match: RegExpExecArray) => Inline } | null = null;
+        for (const pattern of INLINE_PATTERNS) {
+            const match = pattern.regex.exec(rest);
+            if (match && (!best || match.index < best.index)) {
+                best = { index: match.index, match, build: pattern.build };
+            }
+        }
+
+        if (!best) {
+            result.push({ type: "text", value: rest });
+            break;
+        }
+        if (best.index > 0) {
+            result.push({ type: "text", value: rest.slice(0, best.index) });
+        }
+        result.push(best.build(best.match));
+        rest = rest.slice(best.index + best.match[0].length);
+    }
+    return result;
+};
+
+// --- Blocks ---
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const BLOCKQUOTE = /^\s*>\s?(.*)$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, "    ").length;
+
+const splitRow = (line: string) =>
+    line.trim().replace(/^\|/, "").replace(/\|$/, "").split(/(?<!\\)\|/).map((cell) => parseInline(cell.trim()));
+
+const isBlockStart = (line: string, next?: string) =>
+    HEADING.test(line) || FENCE.test(line) || RULE.test(line) || LIST_ITEM.test(line) || BLOCKQUOTE.test(line) ||
+    (line.includes("|") && next !== undefined && TABLE_DIVIDER.test(next));
+
+export const parseMarkdown = (markdown: string): Block[] => {
+    const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: Block[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+            i++; // Closing fence
+            blocks.push({ type: "code", language: fence[2], value: code.join("\n") });
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            blocks.push({ type: "heading", level: heading[1].length, content: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: "rule" });
+            i++;
+            continue;
+        }
+
+        if (line.includes("|") && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+            const header = splitRow(line);
+            const rows: Inline[][][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes("|") && lines[i].trim()) rows.push(splitRow(lines[i++]));
+            blocks.push({ type: "table", header, rows });
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && BLOCKQUOTE.test(lines[i])) quoted.push(lines[i++].match(BLOCKQUOTE)![1]);
+            blocks.push({ type: "blockquote", blocks: parseMarkdown(quoted.join("\n")) });
+            continue;
+        }
+
+        const item = line.match(LIST_ITEM);
+        if (item) {
+            const baseIndent = indentOf(line);
+            const contentIndent = baseIndent + item[2].length + 1; // Where the item's text starts
+            const ordered = /\d/.test(item[2]);
+            const items: string[][] = [];
+
+            while (i < lines.length) {
+                const current = lines[i];
+                const match = current.match(LIST_ITEM);
+                if (match && indentOf(current) === baseIndent && /\d/.test(match[2]) === ordered) {
+                    items.push([match[3]]);
+                } else if (current.trim() && indentOf(current) > baseIndent) {
+                    items[items.length - 1].push(current.replace(/\t/g, "    ").slice(Math.min(indentOf(current), contentIndent)));
+                } else if (!current.trim() && i + 1 < lines.length && indentOf(lines[i + 1]) > baseIndent && lines[i + 1].trim()) {
+                    items[items.length - 1].push("");
+                } else {
+                    break;
+                }
+                i++;
+            }
+
+            blocks.push({
+                type: "list",
+                ordered,
+                start: ordered ? parseInt(item[2], 10) : 1,
+                items: items.map((itemLines) => ({ blocks: parseMarkdown(itemLines.join("\n")) })),
+            });
+            continue;
+        }
+
+        // Paragraph: consecutive lines until a blank line or another block starts
+        const paragraph: string[] = [line];
+        i++;
+        while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i], lines[i + 1])) paragraph.push(lines[i++]);
+        blocks.push({ type: "paragraph", content: parseInline(paragraph.join("\n")) });
+    }
+
+    return blocks;
+};
+
+/**
+ * Pushes every heading in `markdown` down so the shallowest one becomes `minLevel`.
+ * Used to nest LLM-written Markdown under the document's own section headings.
+ */
+export const demoteHeadings = (markdown: string, minLevel: number): string => {
+    const levels = Array.from(markdown.matchAll(/^(#{1,6})\s/gm)).map((match) => match[1].length);
+    if (levels.length === 0) return markdown;
+    const shift = Math.max(0, minLevel - Math.min(...levels));
+    return markdown.replace(/^(#{1,6})(\s)/gm, (_match, hashes: string, space: string) =>
+        `${"#".repeat(Math.min(6, hashes.length + shift))}${space}`
+    );
+};
@@ -0,0 +1,108 @@
+import { Block, Inline, parseMarkdown } from "./markdown";
+
+// --- Markdown -> HTML ---
+
+export const escapeHtml = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+// Only allow link schemes that are safe in a document handed to someone else
+const safeUrl = (url: string) => (/^(https?:|mailto:|#|\/)/i.test(url) ? url : "#");
+
+const renderInline = (nodes: Inline[]): string =>
+    nodes
+        .map((node) => {
+            switch (node.type) {
+                case "text":
+                    return escapeHtml(node.value);
+                case "strong":
+                    return `<strong>${renderInline(node.children)}</strong>`;
+                case "em":
+                    return `<em>${renderInline(node.children)}</em>`;
+                case "code":
+                    return `<code>${escapeHtml(node.value)}</code>`;
+                case "link":
+                    return `<a href="${escapeHtml(safeUrl(node.url))}">${renderInline(node.children)}</a>`;
+                case "break":
+                    return "<br>";
+            }
+        })
+        .join("");
+
+const renderBlocks = (blocks: Block[]): string =>
+    blocks
+        .map((block) => {
+            switch (block.type) {
+                case "heading":
+                    return `<h${block.level}>${renderInline(block.content)}</h${block.level}>`;
+                case "paragraph":
+                    return `<p>${renderInline(block.content)}</p>`;
+                case "list": {
+                    const tag = block.ordered ? "ol" : "ul";
+                    const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : "";
+                    const items = block.items.map((item) => {
+                        // Tight list items render without the wrapping <p>
+                        const [first, ...rest] = item.blocks;
+                        const head = first?.type === "paragraph" ? renderInline(first.content) : renderBlocks(first ? [first] : []);
+                        return `<li>${head}${renderBlocks(rest)}</li>`;
+                    });
+                    return `<${tag}${start}>${items.join("")}</${tag}>`;
+                }
+                case "code":
+                    return `<pre><code${block.language ? ` class="language-${escapeHtml(block.language)}"` : ""}>${escapeHtml(block.value)}</code></pre>`;
+                case "table": {
+                    const header = block.header.map((cell) => `<th>${renderInline(cell)}</th>`).join("");
+                    const rows = block.rows
+                        .map((row) => `<tr>${row.map((cell) => `<td>${renderInline(cell)}</td>`).join("")}</tr>`)
+                        .join("");
+                    return `<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+                }
+                case "blockquote":
+                    return `<blockquote>${renderBlocks(block.blocks)}</blockquote>`;
+                case "rule":
+                    return "<hr>";
+            }
+        })
+        .join("\n");
+
+export const markdownToHtml = (markdown: string): string => renderBlocks(parseMarkdown(markdown));
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.55; color: #222; }
+  h1, h2, h3, h4 { font-family: "Helvetica Neue", Arial, sans-serif; line-height: 1.25; }
+  h1 { border-bottom: 2px solid #222; padding-bottom: .3rem; }
+  h2 { border-bottom: 1px solid #bbb; padding-bottom: .2rem; margin-top: 2.5rem; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+  th, td { border: 1px solid #bbb; padding: .35rem .5rem; text-align: left; vertical-align: top; }
+  th { background: #f2f2f2; }
+  code { font-family: Menlo, Consolas, monospace; font-size: .9em; background: #f4f4f4; padding: 0 .2em; }
+  pre { background: #f4f4f4; padding: .75rem; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  blockquote { border-left: 4px solid #ccc; margin-left: 0; padding-left: 1rem; color: #555; }
+  a { color: #1a4d8f; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 11pt; }
+    h2 { page-break-before: always; }
+    h1 + p + h2, h1 + h2 { page-break-before: avoid; }
+    h2, h3, h4 { page-break-after: avoid; }
+    tr, li, pre, blockquote { page-break-inside: avoid; }
+    a { color: inherit; text-decoration: none; }
+    a[href^="http"]::after { content: " (" attr(href) ")"; font-size: .8em; color: #555; }
+  }
+`;
+
+/**
+ * Renders a Markdown document as a standalone, printable HTML page.
+ */
+export const markdownToHtmlDocument = (markdown: string, title: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${markdownToHtml(markdown)}
+</body>
+</html>
+`;
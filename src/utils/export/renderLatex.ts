@@ -0,0 +1,122 @@
+import { Block, Inline, parseMarkdown } from "./markdown";
+
+// --- Markdown -> LaTeX ---
+
+const LATEX_SPECIALS: Record<string, string> = {
+    "\\": "\\textbackslash{}",
+    "{": "\\{",
+    "}": "\\}",
+    "$": "\\$",
+    "&": "\\&",
+    "#": "\\#",
+    "%": "\\%",
+    "_": "\\_",
+    "~": "\\textasciitilde{}",
+    "^": "\\textasciicircum{}",
+};
+
+export const escapeLatex = (value: string) => value.replace(/[\\{}$&#%_~^]/g, (char) => LATEX_SPECIALS[char]);
+
+// URLs only need the characters hyperref can't take verbatim escaped
+const escapeUrl = (url: string) => url.replace(/[\\%#{}]/g, (char) => `\\${char}`);
+
+// Markdown heading level -> LaTeX sectioning command (article class)
+const SECTIONING = ["section", "subsection", "subsubsection", "paragraph", "subparagraph", "subparagraph"];
+
+const renderInline = (nodes: Inline[]): string =>
+    nodes
+        .map((node) => {
+            switch (node.type) {
+                case "text":
+                    return escapeLatex(node.value);
+                case "strong":
+                    return `\\textbf{${renderInline(node.children)}}`;
+                case "em":
+                    return `\\emph{${renderInline(node.children)}}`;
+                case "code":
+                    return `\\texttt{${escapeLatex(node.value)}}`;
+                case "link":
+                    return `\\href{${escapeUrl(node.url)}}{${renderInline(node.children)}}`;
+                case "break":
+                    return "\\\\\n";
+            }
+        })
+        .join("");
+
+/**
+ * @param headingOffset Added to every heading level; 0 maps "#" to \section.
+ */
+const renderBlocks = (blocks: Block[], headingOffset: number): string =>
+    blocks
+        .map((block) => {
+            switch (block.type) {
+                case "heading": {
+                    const command = SECTIONING[Math.max(0, Math.min(block.level - 1 + headingOffset, SECTIONING.length - 1))];
+                    return `\\${command}*{${renderInline(block.content)}}`;
+                }
+                case "paragraph":
+                    return renderInline(block.content);
+                case "list": {
+                    const environment = block.ordered ? "enumerate" : "itemize";
+                    const start = block.ordered && block.start !== 1 ? `[start=${block.start}]` : "";
+                    const items = block.items.map((item) => `  \\item ${renderBlocks(item.blocks, headingOffset)}`);
+                    return `\\begin{${environment}}${start}\n${items.join("\n")}\n\\end{${environment}}`;
+                }
+                case "code":
+                    // A verbatim block can't contain its own end marker
+                    return `\\begin{verbatim}\n${block.value.replace(/\\end\{verbatim\}/g, "\\end {verbatim}")}\n\\end{verbatim}`;
+                case "table": {
+                    const columns = Math.max(block.header.length, ...block.rows.map((row) => row.length));
+                    const renderRow = (cells: Inline[][]) =>
+                        Array.from({ length: columns }, (_, index) => renderInline(cells[index] || [])).join(" & ") + " \\\\";
+                    return [
+                        `\\begin{tabularx}{\\linewidth}{${"X".repeat(columns)}}`,
+                        "\\toprule",
+                        renderRow(block.header.map((cell) => [{ type: "strong", children: cell } as Inline])),
+                        "\\midrule",
+                        ...block.rows.map(renderRow),
+                        "\\bottomrule",
+                        "\\end{tabularx}",
+                    ].join("\n");
+                }
+                case "blockquote":
+                    return `\\begin{quote}\n${renderBlocks(block.blocks, headingOffset)}\n\\end{quote}`;
+                case "rule":
+                    return "\\noindent\\rule{\\linewidth}{0.4pt}";
+            }
+        })
+        .join("\n\n");
+
+/**
+ * Converts Markdown to a LaTeX fragment (no preamble) for pasting into a template.
+ * @param headingOffset Added to every heading level; 0 maps "#" to \section.
+ */
+export const markdownToLatex = (markdown: string, headingOffset = 0): string => renderBlocks(parseMarkdown(markdown), headingOffset);
+
+/**
+ * Renders a Markdown document whose first "#" heading is the title as a compilable LaTeX article.
+ */
+export const markdownToLatexDocument = (markdown: string, title: string): string => {
+    // The document title becomes \title; the remaining "##" headings become \section
+    const body = markdown.replace(/^#\s+.*\n?/m, "");
+    return `\\documentclass[11pt,a4paper]{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T1]{fontenc}
+\\usepackage{lmodern}
+\\usepackage[margin=2.5cm]{geometry}
+\\usepackage{enumitem}
+\\usepackage{tabularx}
+\\usepackage{booktabs}
+\\usepackage[hidelinks]{hyperref}
+
+\\title{${escapeLatex(title)}}
+\\date{\\today}
+
+\\begin{document}
+\\maketitle
+
+${markdownToLatex(body, -1)}
+
+\\end{document}
+`;
+};
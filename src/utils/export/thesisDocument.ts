@@ -0,0 +1,81 @@
+import { IThesis } from "../../models/Thesis";
+import { demoteHeadings } from "./markdown";
+
+// --- Thesis -> Markdown Document ---
+// The Markdown document is the single source for every export format.
+
+// "dataCollectionMethods" -> "Data Collection Methods"
+const humanize = (key: string) =>
+    key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/^./, (char) => char.toUpperCase());
+
+const indent = (text: string, spaces: number) => text.replace(/\n/g, `\n${" ".repeat(spaces)}`);
+
+const formatDate = (date?: Date) => (date ? date.toISOString().slice(0, 10) : "");
+
+const escapeTableCell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+/**
+ * Renders a generated section (strings, lists and nested objects) as Markdown,
+ * using headings from `level` down for nested keys.
+ */
+const renderValue = (value: unknown, level: number): string => {
+    if (value === null || value === undefined) return "_Not available._";
+    if (typeof value === "string") return demoteHeadings(value.trim(), level);
+    if (typeof value !== "object") return String(value);
+
+    if (Array.isArray(value)) {
+        return value
+            .map((entry) => `- ${indent(typeof entry === "object" ? renderValue(entry, level) : String(entry).trim(), 2)}`)
+            .join("\n");
+    }
+
+    return Object.entries(value as Record<string, unknown>)
+        .map(([key, entry]) => `${"#".repeat(Math.min(level, 6))} ${humanize(key)}\n\n${renderValue(entry, level + 1)}`)
+        .join("\n\n");
+};
+
+const renderRoadmap = (thesis: IThesis) =>
+    thesis.roadmap.length === 0
+        ? "_No roadmap steps yet._"
+        : [...thesis.roadmap]
+              .sort((a, b) => a.stepNumber - b.stepNumber)
+              .map((step) => `### Step ${step.stepNumber}: ${step.title}\n\n${demoteHeadings(step.details.trim(), 4)}`)
+              .join("\n\n");
+
+const renderTimeline = (thesis: IThesis) => {
+    const rows = thesis.timeline.map((entry) =>
+        `| ${escapeTableCell(entry.milestone)} | ${formatDate(entry.startDate)} | ${formatDate(entry.dueDate)} | ${entry.completedAt ? "Done" : "Open"} |`
+    );
+    const deadline = thesis.schedule ? `Submission deadline: **${formatDate(thesis.schedule.deadline)}**\n\n` : "";
+    return `${deadline}| Milestone | Start | Due | Status |\n| --- | --- | --- | --- |\n${rows.join("\n")}`;
+};
+
+const renderPapers = (thesis: IThesis) =>
+    thesis.relatedPapers.length === 0
+        ? "_No related papers yet._"
+        : [...thesis.relatedPapers]
+              .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER))
+              .map((paper, index) => {
+                  const title = paper.link ? `[${paper.title}](${paper.link})` : paper.title;
+                  const date = paper.date ? ` (${paper.date})` : "";
+                  const summary = paper.summary ? `\n\n   ${indent(demoteHeadings(paper.summary.trim(), 4), 3)}` : "";
+                  return `${index + 1}. **${title}**. ${paper.author}${date}.${summary}`;
+              })
+              .join("\n\n");
+
+/**
+ * Builds the full roadmap document: steps, timeline, methodology, gap analysis, pros/cons and ranked papers.
+ */
+export const buildThesisMarkdown = (thesis: IThesis): string => {
+    const sections = [
+        `# ${thesis.title}`,
+        thesis.description.trim(),
+        `## Roadmap\n\n${renderRoadmap(thesis)}`,
+        thesis.timeline.length > 0 && `## Timeline\n\n${renderTimeline(thesis)}`,
+        `## Methodology\n\n${renderValue(thesis.methodology, 3)}`,
+        `## Research Gap Analysis\n\n${renderValue(thesis.researchGapAnalysis, 3)}`,
+        `## Pros and Cons\n\n${renderValue(thesis.prosAndCons, 3)}`,
+        `## Related Papers\n\n${renderPapers(thesis)}`,
+    ];
+    return `${sections.filter(Boolean).join("\n\n")}\n`;
+};
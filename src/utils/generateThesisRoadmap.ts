@@ -1,50 +1,43 @@
-import axios, { AxiosError } from 'axios';
 import dotenv from "dotenv";
-import { PromptGenerator } from "./../utils/promptGenerator";
+import { PromptGenerator, PromptOptions } from "./../utils/promptGenerator";
+import { Clarification, DEFAULT_LANGUAGE, normalizeLanguage } from "./prompts";
+import { ThesisProfile } from "./thesisProfile";
+import { callLlm, getLlmProvider, LlmCallContext } from "./llm";
+import { withCache } from "./cache";
+import { buildCitationGraph, CitationGraph, snowballedRankedPapers } from "./citationGraph";
+import { fetchRelatedPapers, ResearchPaper } from "./paperSearch";
+import { formatIssues, Infer, ValidationIssue } from "./schema";
+import {
+    LLM_SCHEMAS,
+    LlmSchemaName,
+    LlmSection,
+    Methodology,
+    ProsAndCons,
+    RankedPaper,
+    ResearchGapAnalysis,
+    RoadmapStepItem,
+    SECTION_SCHEMAS,
+} from "./roadmapSchemas";
 // import * as dirtyJson from 'dirty-json'; // Optional: For more aggressive cleaning
 
 dotenv.config();
 
-// --- Configuration ---
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY; // Keep if used elsewhere, otherwise remove
-const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY; // Ensure this is set in your .env
-const SEMANTIC_SCHOLAR_API = "https://api.semanticscholar.org/graph/v1/paper/search";
-const OPENALEX_API = "https://api.openalex.org/works";
-const CORE_API = "https://api.core.ac.uk/v3/search/works";
-const CORE_API_KEY = process.env.CORE_API_KEY || "YOUR_CORE_API_KEY"; // Replace or load from env
-const MAX_RESULTS = 10;
-
-if (!GOOGLE_API_KEY) {
-    console.error("FATAL ERROR: GOOGLE_API_KEY is not defined in environment variables.");
-    process.exit(1); // Exit if essential keys are missing
-}
-
 // --- Interfaces ---
-interface ResearchPaper {
-  title: string;
-  url: string;
-  paperLink: string;
-  abstract: string;
-  citationCount: number;
-  authors: string;
-}
+export { ResearchPaper, fetchRelatedPapers };
 
 // Define expected structure for the final roadmap sent to frontend
-interface ThesisRoadmapOutput {
+export interface ThesisRoadmapOutput {
     thesisDescription: string;
-    stepByStep: any[] | null; // Expecting an array of step objects
-    relatedPapers: any[] | null; // Expecting an array of ranked paper objects
-    methodology: Record<string, any> | null; // Expecting a methodology object
-    researchGapAnalysis: Record<string, any> | null; // Expecting a gaps object
-    prosAndCons: Record<string, any> | null; // Expecting a pros/cons object
-    error?: string; // Optional error message
+    stepByStep: RoadmapStepItem[] | null;
+    relatedPapers: RankedPaper[] | null;
+    methodology: Methodology | null;
+    researchGapAnalysis: ResearchGapAnalysis | null;
+    prosAndCons: ProsAndCons | null;
+    error?: RoadmapErrors; // Failures per section and per field, only present when something failed
 }
 
-// Define the structure for a provider entry
-interface PaperProvider {
-    name: string;
-    fetchFunction: (query: string) => Promise<ResearchPaper[]>;
-}
+// Validation issues (or the failure message) of every section that could not be generated
+export type RoadmapErrors = Partial<Record<RoadmapStep, ValidationIssue[]>>;
 
 // --- Robust JSON Parsing Helper ---
 
@@ -133,322 +126,274 @@ const extractAndParseJson = <T = any>(rawString: string | undefined | null, cont
 };
 
 
-// --- Main Function ---
+// --- Pipeline Steps ---
 
-/**
- * Generates a complete thesis roadmap using AI & research paper APIs.
- * @param {string} thesisDescription - The user's thesis topic or idea.
- * @returns {Promise<ThesisRoadmapOutput>} - A structured roadmap with steps, related papers, methodology, etc.
- */
-export const generateThesisRoadmap = async (thesisDescription: string): Promise<ThesisRoadmapOutput> => {
-    let stepByStepRaw: string | null = null;
-    let rankedPapersRaw: string | null = null;
-    let methodologyRaw: string | null = null;
-    let researchGapAnalysisRaw: string | null = null;
-    let prosAndConsRaw: string | null = null;
-    let relatedPapers: ResearchPaper[] = []; // Store papers fetched from APIs
+// Order in which the roadmap is generated. "papers" holds the raw API results the other steps build on,
+// "citationGraph" the papers snowballed from the top-ranked ones.
+export const ROADMAP_STEPS = ["stepByStep", "papers", "relatedPapers", "citationGraph", "methodology", "researchGapAnalysis", "prosAndCons"] as const;
+export type RoadmapStep = typeof ROADMAP_STEPS[number];
 
-    try {
-        // 🔹 1️⃣ Generate Step-by-Step Guide (LLM) - Get Raw String
-        stepByStepRaw = await callGemini(PromptGenerator.stepByStep(thesisDescription), "step-by-step guide");
-
-        // 🔹 2️⃣ Fetch Related Papers (API Calls)
-        relatedPapers = await fetchRelatedPapers(thesisDescription);
-
-        // 🔹 3️⃣ Summarize & Rank Papers (LLM) - Get Raw String
-        rankedPapersRaw = await rankAndSummarizePapersLLM(thesisDescription, relatedPapers);
-
-        // 🔹 4️⃣ Generate Detailed Methodology (LLM) - Get Raw String
-        methodologyRaw = await callGemini(PromptGenerator.methodology(thesisDescription), "methodology");
-
-        // 🔹 5️⃣ Generate Research Gap Analysis (LLM) - Get Raw String
-        researchGapAnalysisRaw = await generateResearchGapAnalysisLLM(relatedPapers, thesisDescription);
-
-        // 🔹 6️⃣ Generate Pros & Cons (LLM) - Get Raw String
-        prosAndConsRaw = await generateProsAndConsLLM(relatedPapers, thesisDescription);
-
-        // 🔹 7️⃣ Parse all Raw Strings
-        console.log("--- Parsing LLM Responses ---");
-        const parsedStepByStep = extractAndParseJson<any[]>(stepByStepRaw, "stepByStep");
-        const parsedRankedPapers = extractAndParseJson<any[]>(rankedPapersRaw, "relatedPapers (ranked)");
-        const parsedMethodology = extractAndParseJson<Record<string, any>>(methodologyRaw, "methodology");
-        const parsedResearchGaps = extractAndParseJson<Record<string, any>>(researchGapAnalysisRaw, "researchGapAnalysis");
-        const parsedProsCons = extractAndParseJson<Record<string, any>>(prosAndConsRaw, "prosAndCons");
-        console.log("--- Parsing Complete ---");
-
-        // Check if any critical parsing failed
-        if (!parsedStepByStep || !parsedRankedPapers || !parsedMethodology || !parsedResearchGaps || !parsedProsCons) {
-             console.error("One or more sections failed to parse correctly from LLM response.");
-             // Optionally provide more detail in the error
-             const errorDetails = [
-                 !parsedStepByStep && "step-by-step guide",
-                 !parsedRankedPapers && "ranked papers",
-                 !parsedMethodology && "methodology",
-                 !parsedResearchGaps && "research gaps",
-                 !parsedProsCons && "pros and cons"
-             ].filter(Boolean).join(', ');
-
-             return {
-                 thesisDescription,
-                 stepByStep: parsedStepByStep, // Send partially parsed data if needed
-                 relatedPapers: parsedRankedPapers,
-                 methodology: parsedMethodology,
-                 researchGapAnalysis: parsedResearchGaps,
-                 prosAndCons: parsedProsCons,
-                 error: `Failed to parse the following sections from the AI: ${errorDetails}. The structure might be invalid.`
-             };
-        }
+export interface RoadmapSections {
+    stepByStep?: RoadmapStepItem[] | null;
+    papers?: ResearchPaper[];
+    relatedPapers?: RankedPaper[] | null;
+    citationGraph?: CitationGraph | null;
+    methodology?: Methodology | null;
+    researchGapAnalysis?: ResearchGapAnalysis | null;
+    prosAndCons?: ProsAndCons | null;
+}
 
+// Everything needed to resume a generation from its last completed step
+export interface RoadmapProgress {
+    completedSteps: RoadmapStep[];
+    sections: RoadmapSections;
+    errors: RoadmapErrors;
+}
+
+export interface RoadmapPipelineOptions {
+    progress?: Partial<RoadmapProgress>; // Steps already in progress.completedSteps are skipped
+    onStepComplete?: (step: RoadmapStep, progress: RoadmapProgress) => Promise<void> | void;
+    call?: LlmCallContext; // User / thesis / job the LLM usage is recorded for
+    language?: string; // Language the sections are written in, English by default
+    searchKeywords?: string; // English query for the paper providers, overrides the translated one
+    clarifications?: Clarification[]; // The student's answers, added to every section prompt
+    profile?: ThesisProfile; // Degree level, discipline... added to every section prompt
+}
 
-        // 📜 Return the complete, parsed roadmap
-        return {
-            thesisDescription,
-            stepByStep: parsedStepByStep,
-            relatedPapers: parsedRankedPapers, // Use the parsed ranked papers
-            methodology: parsedMethodology,
-            researchGapAnalysis: parsedResearchGaps,
-            prosAndCons: parsedProsCons,
-        };
+// Paper providers work best in English, so other languages are searched with translated keywords
+const resolveSearchQuery = async (thesisDescription: string, { language, searchKeywords, call }: RoadmapPipelineOptions): Promise<string> => {
+    if (searchKeywords?.trim()) return searchKeywords.trim();
+    if ((normalizeLanguage(language) ?? DEFAULT_LANGUAGE) === DEFAULT_LANGUAGE) return thesisDescription;
 
+    try {
+        const result = await generateSection("searchKeywords", PromptGenerator.searchKeywords(thesisDescription), { call });
+        if (result.value) return result.value.keywords.join(" ");
+        console.warn("Search keyword translation failed validation, searching with the description.");
     } catch (error: any) {
-        console.error("Error generating thesis roadmap:", error.message || error);
-        // Return an error structure to the frontend
-        return {
-            thesisDescription,
-            stepByStep: extractAndParseJson(stepByStepRaw, "stepByStep (on error)"), // Attempt parsing even on error
-            relatedPapers: extractAndParseJson(rankedPapersRaw, "relatedPapers (on error)"),
-            methodology: extractAndParseJson(methodologyRaw, "methodology (on error)"),
-            researchGapAnalysis: extractAndParseJson(researchGapAnalysisRaw, "researchGapAnalysis (on error)"),
-            prosAndCons: extractAndParseJson(prosAndConsRaw, "prosAndCons (on error)"),
-            error: `Failed to generate thesis roadmap: ${error.message || 'Unknown error'}`
-        };
+        console.warn("Search keyword translation failed, searching with the description:", error.message || error);
     }
+    return thesisDescription;
 };
 
-
-// --- Paper Fetching Logic (fetchRelatedPapers and specific providers remain the same) ---
-// [fetchRelatedPapers, fetchFromSemanticScholar, fetchFromOpenAlex, fetchFromCORE, invertAbstract functions go here - unchanged from your code]
-// Helper Type for Error Handling
-type ApiError = Error | AxiosError;
-
-// Provider Specific Fetch Functions (Copied from your code, assumed correct)
-const fetchFromSemanticScholar = async (query: string): Promise<ResearchPaper[]> => {
-  const response = await axios.get(SEMANTIC_SCHOLAR_API, {
-    params: { query: query, fields: "title,url,abstract,citationCount,authors", limit: MAX_RESULTS },
-  });
-  if (Array.isArray(response.data.data) && response.data.data.length > 0) {
-    return response.data.data.map((paper: any): ResearchPaper => ({
-      title: paper.title || "Untitled",
-      url: paper.url || "",
-      paperLink: paper.url || "",
-      abstract: paper.abstract || "No abstract available",
-      citationCount: paper.citationCount || 0,
-      authors: paper.authors?.map((a: any) => a.name).join(", ") || "Unknown authors",
-    }));
-  } else if (response.data.data && response.data.data.length === 0) {
-     console.log("Semantic Scholar returned 0 results."); return [];
-  } else { throw new Error("Invalid data format received from Semantic Scholar"); }
+// Run one step and return its validated result
+const runStep = async (
+    step: RoadmapStep,
+    thesisDescription: string,
+    sections: RoadmapSections,
+    options: RoadmapPipelineOptions
+): Promise<{ value: unknown; issues: ValidationIssue[] }> => {
+    if (step === "papers") {
+        return { value: await fetchRelatedPapers(await resolveSearchQuery(thesisDescription, options)), issues: [] };
+    }
+    if (step === "citationGraph") {
+        return { value: await buildCitationGraph(sections.papers, sections.relatedPapers), issues: [] };
+    }
+    // Later sections also read the abstracts of the snowballed papers
+    const papers = [...(sections.papers || []), ...(sections.citationGraph?.added || [])];
+    const prompt = buildSectionPrompt(step, thesisDescription, papers, {
+        language: options.language,
+        clarifications: options.clarifications,
+        profile: options.profile,
+    });
+    return generateSection(step, prompt, { call: options.call });
 };
 
-const fetchFromOpenAlex = async (query: string): Promise<ResearchPaper[]> => {
-  const response = await axios.get(OPENALEX_API, { params: { search: query, per_page: MAX_RESULTS }});
-  if (Array.isArray(response.data.results) && response.data.results.length > 0) {
-    return response.data.results.map((paper: any): ResearchPaper => ({
-      title: paper.display_name || "Untitled",
-      url: paper.id ? `https://openalex.org/${paper.id.split('/').pop()}` : "",
-      paperLink: paper.primary_location?.landing_page_url || paper.primary_location?.pdf_url || "",
-      abstract: paper.abstract_inverted_index ? invertAbstract(paper.abstract_inverted_index) : "No abstract available",
-      citationCount: paper.cited_by_count || 0,
-      authors: paper.authorships?.map((a: any) => a.author?.display_name).filter(Boolean).join(", ") || "Unknown authors",
-    }));
-  } else if (response.data.results && response.data.results.length === 0) {
-      console.log("OpenAlex returned 0 results."); return [];
-  } else { throw new Error("Invalid data format received from OpenAlex"); }
-};
+/**
+ * Runs the remaining pipeline steps in order, reporting each one as soon as it completes.
+ * Unlike generateThesisRoadmap, errors from the LLM or paper APIs are thrown so the caller can retry later.
+ * @returns The progress with every step completed.
+ */
+export const runRoadmapPipeline = async (thesisDescription: string, options: RoadmapPipelineOptions = {}): Promise<RoadmapProgress> => {
+    const progress: RoadmapProgress = {
+        completedSteps: [...(options.progress?.completedSteps || [])],
+        sections: { ...(options.progress?.sections || {}) },
+        errors: { ...(options.progress?.errors || {}) },
+    };
+
+    for (const step of ROADMAP_STEPS) {
+        if (progress.completedSteps.includes(step)) continue;
+
+        const { value, issues } = await runStep(step, thesisDescription, progress.sections, options);
+        progress.sections = { ...progress.sections, [step]: value };
+        if (issues.length > 0) {
+            progress.errors = { ...progress.errors, [step]: issues };
+        }
+        progress.completedSteps.push(step);
 
-const invertAbstract = (invertedIndex: Record<string, number[]>): string => {
-    if (!invertedIndex) return "No abstract available";
-    const map: { [key: number]: string } = {};
-    for (const word in invertedIndex) { invertedIndex[word].forEach(pos => { map[pos] = word; }); }
-    return Object.keys(map).map(Number).sort((a, b) => a - b).map(pos => map[pos]).join(' ');
+        if (options.onStepComplete) {
+            await options.onStepComplete(step, progress);
+        }
+    }
+    return progress;
 };
 
-const fetchFromCORE = async (query: string): Promise<ResearchPaper[]> => {
-  if (!CORE_API_KEY || CORE_API_KEY === "YOUR_CORE_API_KEY") { console.warn("CORE API Key not configured."); return []; }
-  const response = await axios.get(CORE_API, { params: { q: query, limit: MAX_RESULTS }, headers: { 'Authorization': `Bearer ${CORE_API_KEY}` }});
-  if (Array.isArray(response.data.results) && response.data.results.length > 0) {
-    return response.data.results.map((paper: any): ResearchPaper => ({
-      title: paper.title || "Untitled",
-      url: paper.doi ? `https://doi.org/${paper.doi}` : (paper.downloadUrl || ""),
-      paperLink: paper.downloadUrl || (paper.doi ? `https://doi.org/${paper.doi}` : ""),
-      abstract: paper.abstract || "No abstract available",
-      citationCount: paper.citationCount ?? 0,
-      authors: paper.authors?.join(", ") || "Unknown authors",
-    }));
-  } else if (response.data.results && response.data.results.length === 0) {
-      console.log("CORE returned 0 results."); return [];
-  } else { throw new Error("Invalid data format received from CORE"); }
+/**
+ * Builds the frontend roadmap from the pipeline sections, listing the failures of every section.
+ */
+export const toRoadmapOutput = (thesisDescription: string, sections: RoadmapSections, errors: RoadmapErrors = {}): ThesisRoadmapOutput => {
+    const output: ThesisRoadmapOutput = {
+        thesisDescription,
+        stepByStep: sections.stepByStep ?? null,
+        relatedPapers: sections.relatedPapers
+            ? [...sections.relatedPapers, ...snowballedRankedPapers(sections.citationGraph, sections.relatedPapers.length)]
+            : null,
+        methodology: sections.methodology ?? null,
+        researchGapAnalysis: sections.researchGapAnalysis ?? null,
+        prosAndCons: sections.prosAndCons ?? null,
+    };
+
+    const sectionErrors: RoadmapErrors = { ...errors };
+    for (const section of Object.keys(SECTION_SCHEMAS) as LlmSection[]) {
+        if (output[section] === null && !sectionErrors[section]) {
+            sectionErrors[section] = [{ path: "", message: "Section was not generated" }];
+        }
+    }
+
+    if (Object.keys(sectionErrors).length > 0) {
+        console.error(`Sections with errors: ${Object.keys(sectionErrors).join(", ")}`);
+        output.error = sectionErrors;
+    }
+    return output;
 };
 
-// Main Fetch Function with Fallback Logic (Copied from your code, assumed correct)
-export const fetchRelatedPapers = async (thesisDescription: string): Promise<ResearchPaper[]> => {
-  const providers: PaperProvider[] = [
-    { name: "Semantic Scholar", fetchFunction: fetchFromSemanticScholar },
-    { name: "OpenAlex", fetchFunction: fetchFromOpenAlex },
-    { name: "CORE", fetchFunction: fetchFromCORE },
-  ];
-  for (const provider of providers) {
-    console.log(`Attempting to fetch from ${provider.name}...`);
+
+// --- Main Function ---
+
+/**
+ * Generates a complete thesis roadmap using AI & research paper APIs.
+ * @param {string} thesisDescription - The user's thesis topic or idea.
+ * @param options - Output language, search keywords, clarifying answers and profile, see RoadmapPipelineOptions.
+ * @returns {Promise<ThesisRoadmapOutput>} - A structured roadmap with steps, related papers, methodology, etc.
+ */
+export const generateThesisRoadmap = async (
+    thesisDescription: string,
+    options: Pick<RoadmapPipelineOptions, "language" | "searchKeywords" | "clarifications" | "profile"> = {}
+): Promise<ThesisRoadmapOutput> => {
+    let current: RoadmapProgress = { completedSteps: [], sections: {}, errors: {} };
+
     try {
-      const results = await provider.fetchFunction(thesisDescription);
-      if (results.length > 0) { console.log(`Successfully fetched ${results.length} papers from ${provider.name}.`); return results; }
-      else { console.log(`${provider.name} returned successfully but found 0 relevant papers.`); }
-    } catch (error: unknown) {
-      const err = error as ApiError; let errorMessage = err.message;
-      if (axios.isAxiosError(err) && err.response) {
-        errorMessage = `Status ${err.response.status}: ${JSON.stringify(err.response.data)}`;
-        if (provider.name === "Semantic Scholar" && err.response.status === 429) { console.warn(`Rate limit hit for ${provider.name}. Falling back...`); }
-      }
-      console.error(`Error fetching from ${provider.name}:`, errorMessage);
+        const progress = await runRoadmapPipeline(thesisDescription, {
+            ...options,
+            onStepComplete: (_step, latest) => { current = latest; },
+        });
+
+        // 📜 Return the complete, validated roadmap
+        return toRoadmapOutput(thesisDescription, progress.sections, progress.errors);
+
+    } catch (error: any) {
+        console.error("Error generating thesis roadmap:", error.message || error);
+        // Return whatever was generated before the failure, blaming the step that threw
+        const failedStep = ROADMAP_STEPS.find((step) => !current.completedSteps.includes(step));
+        return toRoadmapOutput(thesisDescription, current.sections, {
+            ...current.errors,
+            ...(failedStep && { [failedStep]: [{ path: "", message: `Failed to generate thesis roadmap: ${error.message || 'Unknown error'}` }] }),
+        });
     }
-  }
-  console.warn("All paper providers failed or returned no results."); return [];
 };
 
 
-// --- LLM Interaction Helpers (Modified to return raw strings) ---
-
-// 📌 Helper function to rank & summarize papers using LLM (returns raw string)
-const rankAndSummarizePapersLLM = async (
-  thesisDescription: string,
-  papers: ResearchPaper[]
-): Promise<string | null> => { // Return type changed to string | null
-  try {
-    // Prepare paper details (no change needed here)
-    const paperDetails = papers.map((p) => ({
-      title: p.title, abstract: p.abstract, url: p.url,
-      paperLink: p.paperLink, citationCount: p.citationCount, authors: p.authors,
-    }));
-    const paperDetailsJson = JSON.stringify(paperDetails, null, 2); // Use pretty print for LLM?
-
-    const prompt = PromptGenerator.rankPapers(thesisDescription, paperDetailsJson);
-    return await callGemini(prompt, "rank and summarize papers"); // Return raw string
-
-  } catch (error: any) {
-    console.error("Error preparing data for rankAndSummarizePapersLLM:", error.message || error);
-    return JSON.stringify([{ error: "Failed to prepare data for research ranking." }]); // Return error as stringified JSON
-  }
-};
+// --- LLM Interaction Helpers ---
 
-// 📌 Generate Research Gap Analysis using LLM (returns raw string)
-const generateResearchGapAnalysisLLM = async (relatedPapers: ResearchPaper[], thesisDescription: string): Promise<string | null> => { // Return type changed
-  try {
-    // Ensure input is an array before mapping
-    if (!Array.isArray(relatedPapers)) {
-        console.error("generateResearchGapAnalysisLLM received non-array:", relatedPapers);
-        return JSON.stringify({ error: "Internal error: Invalid paper data received for analysis." });
-    }
-    const abstracts = relatedPapers.map((paper) => paper.abstract).join("\n\n---\n\n"); // Add separator
-    const prompt = PromptGenerator.researchGaps(abstracts, thesisDescription);
-    return await callGemini(prompt, "research gap analysis"); // Return raw string
-  } catch (error: any) {
-    console.error("Error preparing data for generateResearchGapAnalysisLLM:", error.message || error);
-    return JSON.stringify({ error: "Failed to prepare data for research gap analysis." });
-  }
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const REPAIR_ATTEMPTS_LIMIT = 5;
+
+// Re-prompts after a failed validation; a value that is not a whole number falls back to the default
+const parseRepairAttempts = (value: string | undefined): number => {
+    const attempts = value === undefined || value.trim() === "" ? NaN : Number(value);
+    if (!Number.isInteger(attempts) || attempts < 0) return DEFAULT_REPAIR_ATTEMPTS;
+    return Math.min(attempts, REPAIR_ATTEMPTS_LIMIT);
 };
 
-// 📌 Generate Pros & Cons using LLM (returns raw string)
-const generateProsAndConsLLM = async (relatedPapers: ResearchPaper[], thesisDescription: string): Promise<string | null> => { // Return type changed
-  try {
-    // Ensure input is an array before mapping
-    if (!Array.isArray(relatedPapers)) {
-        console.error("generateProsAndConsLLM received non-array:", relatedPapers);
-        return JSON.stringify({ error: "Internal error: Invalid paper data received for pros/cons analysis." });
+const MAX_REPAIR_ATTEMPTS = parseRepairAttempts(process.env.LLM_MAX_REPAIR_ATTEMPTS);
+
+export interface SectionResult<K extends LlmSchemaName> {
+    value: Infer<typeof LLM_SCHEMAS[K]> | null;
+    issues: ValidationIssue[]; // Issues from the last attempt, empty on success
+}
+
+const joinAbstracts = (papers: ResearchPaper[]) => papers.map((paper) => paper.abstract).join("\n\n---\n\n"); // Add separator
+
+// 📌 Build the PromptGenerator prompt for an LLM section
+export const buildSectionPrompt = (
+    section: LlmSection,
+    thesisDescription: string,
+    papers: ResearchPaper[],
+    options: PromptOptions = {}
+): string => {
+    switch (section) {
+        case "stepByStep":
+            return PromptGenerator.stepByStep(thesisDescription, options);
+        case "relatedPapers": {
+            const paperDetails = papers.map((p) => ({
+                title: p.title, abstract: p.abstract, url: p.url,
+                paperLink: p.paperLink, citationCount: p.citationCount, authors: p.authors,
+            }));
+            return PromptGenerator.rankPapers(thesisDescription, JSON.stringify(paperDetails, null, 2), options);
+        }
+        case "methodology":
+            return PromptGenerator.methodology(thesisDescription, options);
+        case "researchGapAnalysis":
+            return PromptGenerator.researchGaps(joinAbstracts(papers), thesisDescription, options);
+        case "prosAndCons":
+            return PromptGenerator.prosCons(joinAbstracts(papers), thesisDescription, options);
     }
-    const abstracts = relatedPapers.map((paper) => paper.abstract).join("\n\n---\n\n"); // Add separator
-    const prompt = PromptGenerator.prosCons(abstracts, thesisDescription);
-    return await callGemini(prompt, "pros and cons"); // Return raw string
-  } catch (error: any) {
-    console.error("Error preparing data for generateProsAndConsLLM:", error.message || error);
-     return JSON.stringify({ error: "Failed to prepare data for pros and cons analysis." });
-  }
 };
 
-// 📌 Generic function to call Google Gemini API (Modified for better error checking)
-const callGemini = async (prompt: string, context: string): Promise<string | null> => {
-    console.log(`Calling Gemini API for: ${context}`);
-    try {
-        const response = await axios.post(
-          `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent`, // Using v1beta and latest model
-          {
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            // Optional: Add safety settings if needed
-            // safetySettings: [
-            //   { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-            //   // Add other categories as needed
-            // ],
-            // Optional: Add generation config
-             generationConfig: {
-                 temperature: 0.6, // Adjust creativity vs factualness
-                 // topP: 0.9,
-                 // topK: 40,
-                 // maxOutputTokens: 8192, // Model default
-                 responseMimeType: "application/json", // Explicitly request JSON output!
-             }
-          },
-          {
-            headers: {
-              "Content-Type": "application/json",
-            },
-            params: {
-              key: GOOGLE_API_KEY,
-            },
-             timeout: 60000 // 60 second timeout
-          }
-        );
-
-        // --- Robust Response Checking ---
-        if (!response.data) {
-            console.error(`Error calling Gemini API for ${context}: No response data received.`);
-            throw new Error("Empty response from Gemini API");
-        }
+export interface GenerateSectionOptions {
+    useCache?: boolean; // Pass false to force a fresh answer (e.g. when regenerating a section)
+    call?: LlmCallContext;
+}
 
-        // Check for prompt feedback (e.g., blocked due to safety)
-        if (response.data.promptFeedback?.blockReason) {
-             console.error(`Error calling Gemini API for ${context}: Prompt blocked. Reason: ${response.data.promptFeedback.blockReason}`);
-             console.error(`Safety Ratings: ${JSON.stringify(response.data.promptFeedback.safetyRatings)}`);
-             throw new Error(`AI request blocked due to safety settings: ${response.data.promptFeedback.blockReason}`);
-        }
+/**
+ * Calls the LLM for one section and validates the answer against its schema.
+ * When parsing or validation fails, the model is re-prompted with the errors
+ * up to LLM_MAX_REPAIR_ATTEMPTS times. Only valid sections are cached.
+ * @returns The validated section, or null with the issues of the last attempt.
+ */
+export const generateSection = async <K extends LlmSchemaName>(
+    section: K,
+    prompt: string,
+    { useCache = true, call }: GenerateSectionOptions = {}
+): Promise<SectionResult<K>> => {
+    const provider = getLlmProvider();
+    // Fixtures are already deterministic; caching them would only hide edited fixture files
+    if (!useCache || provider.name === "fixture") return generateValidatedSection(section, prompt, call);
+
+    return withCache(
+        "llm",
+        { text: `${provider.name}\n${provider.model}\n${section}\n${prompt}` },
+        () => generateValidatedSection(section, prompt, call),
+        (result) => result.value !== null
+    );
+};
 
-        if (!response.data.candidates || response.data.candidates.length === 0) {
-            // Check if finishReason provides clues (e.g., SAFETY, RECITATION, MAX_TOKENS)
-            const finishReason = response.data.candidates?.[0]?.finishReason || 'UNKNOWN';
-            console.error(`Error calling Gemini API for ${context}: No candidates received. Finish Reason: ${finishReason}`);
-            throw new Error(`No response generated by AI. Reason: ${finishReason}`);
+const generateValidatedSection = async <K extends LlmSchemaName>(
+    section: K,
+    prompt: string,
+    call?: LlmCallContext
+): Promise<SectionResult<K>> => {
+    let raw = await callLlm(prompt, section, call);
+    let issues: ValidationIssue[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        if (attempt > 0) {
+            console.warn(`[Validator] Re-prompting for ${section} (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}).`);
+            raw = await callLlm(PromptGenerator.repair(prompt, raw, formatIssues(issues)), section, { ...call, repair: true });
         }
 
-        const candidate = response.data.candidates[0];
-
-        if(candidate.finishReason && candidate.finishReason !== 'STOP'){
-             console.warn(`Gemini API for ${context} finished with reason: ${candidate.finishReason}. Output might be incomplete.`);
-             // Decide if you want to throw an error or proceed with potentially truncated data.
-             // For now, we proceed but log the warning.
+        const parsed = extractAndParseJson(raw, section);
+        if (parsed === null) {
+            issues = [{ path: "", message: "Response is not valid JSON" }];
+            continue;
         }
 
-        if (!candidate.content?.parts?.[0]?.text) {
-            console.error(`Error calling Gemini API for ${context}: Missing text content in response candidate.`);
-            console.error(`Received candidate: ${JSON.stringify(candidate)}`);
-            throw new Error("Invalid response structure from Gemini API (missing text)");
+        const result = LLM_SCHEMAS[section].validate(parsed);
+        if (result.ok) {
+            return { value: result.value as SectionResult<K>["value"], issues: [] };
         }
-        // --- End Robust Checking ---
-
-        const rawText = candidate.content.parts[0].text;
-        // console.log(`Raw Gemini response for ${context} (first 300 chars): ${rawText.substring(0, 300)}`); // Optional: Log raw response snippet
-        return rawText; // Return the raw text
-
-      } catch (error: any) {
-        console.error(`Error calling Gemini API for ${context}:`, axios.isAxiosError(error) ? error.response?.data || error.message : error.message);
-        // Rethrow or return null/error indicator. Rethrowing for main handler.
-        throw new Error(`Failed to get response from AI for ${context}.`);
-      }
-    };
\ No newline at end of file
+        issues = result.issues;
+        console.warn(`[Validator] ${section} failed validation:\n${formatIssues(issues)}`);
+    }
+
+    return { value: null, issues };
+};
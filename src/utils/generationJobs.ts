@@ -0,0 +1,191 @@
+import { EventEmitter } from "events";
+import crypto from "crypto";
+import os from "os";
+import GenerationJob from "../models/GenerationJob";
+import Thesis from "../models/Thesis";
+import { RoadmapErrors, RoadmapStep, runRoadmapPipeline, toRoadmapOutput } from "./generateThesisRoadmap";
+import { applyRoadmapSections } from "./thesisSections";
+import { recordRevisionSafely } from "./thesisRevisions";
+import { AppError, ErrorCode } from "./errors";
+import { generationQuotaKey, monthWindow, refundLimit } from "./rateLimiter";
+
+// --- Job Events ---
+
+export type GenerationJobEvent =
+    | { type: "section"; step: RoadmapStep; data: unknown; issues?: RoadmapErrors[RoadmapStep] }
+    | { type: "completed"; thesisId: string; errors?: RoadmapErrors }
+    | { type: "failed"; error: string; code: ErrorCode };
+
+// Listeners are keyed by job id; each SSE connection subscribes to one job
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Jobs currently being processed by this server instance
+const runningJobs = new Set<string>();
+
+// --- Job Ownership ---
+// Several instances may share the database: a job runs on the instance that claimed it,
+// and is only taken over once its heartbeat is stale (e.g. the instance crashed).
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const HEARTBEAT_STALE_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+// Queued jobs, and running jobs whose owner stopped sending heartbeats
+const claimableJobs = () => {
+    const staleBefore = new Date(Date.now() - HEARTBEAT_STALE_MS);
+    return {
+        $or: [
+            { status: "queued" },
+            { status: "running", heartbeatAt: { $lt: staleBefore } },
+            { status: "running", heartbeatAt: null },
+        ],
+    };
+};
+
+// Atomically takes a job for this instance; null when it is done or owned by a live instance
+const claimJob = (jobId: string) =>
+    GenerationJob.findOneAndUpdate(
+        { _id: jobId, ...claimableJobs() },
+        {
+            $set: { status: "running", owner: INSTANCE_ID, heartbeatAt: new Date() },
+            $unset: { error: 1, errorCode: 1 },
+            $inc: { attempts: 1 },
+        },
+        { new: true }
+    );
+
+/**
+ * Subscribes to the events of one job.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToJob = (jobId: string, listener: (event: GenerationJobEvent) => void) => {
+    jobEvents.on(jobId, listener);
+    return () => {
+        jobEvents.off(jobId, listener);
+    };
+};
+
+const emitJobEvent = (jobId: string, event: GenerationJobEvent) => {
+    jobEvents.emit(jobId, event);
+};
+
+// --- Job Runner ---
+
+// Gives back the generation a failed job counted against the monthly quota, at most once
+const refundJobQuota = async (jobId: string) => {
+    const job = await GenerationJob.findOneAndUpdate(
+        { _id: jobId, quotaConsumedAt: { $ne: null } },
+        { $unset: { quotaConsumedAt: 1 } }
+    );
+    if (job?.quotaConsumedAt) {
+        await refundLimit(generationQuotaKey(job.user.toString()), monthWindow(job.quotaConsumedAt));
+    }
+};
+
+const runJob = async (jobId: string) => {
+    const job = await claimJob(jobId);
+    if (!job) return;
+
+    if (!job.startedAt) {
+        job.startedAt = new Date();
+        await job.save();
+    }
+
+    const heartbeat = setInterval(() => {
+        GenerationJob.updateOne({ _id: job._id, owner: INSTANCE_ID }, { $set: { heartbeatAt: new Date() } }).catch((error) =>
+            console.error(`Error refreshing heartbeat of generation job ${jobId}:`, error)
+        );
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
+    try {
+        const progress = await runRoadmapPipeline(job.thesisDescription, {
+            progress: {
+                completedSteps: [...job.completedSteps],
+                sections: job.sections || {},
+                errors: job.sectionErrors || {},
+            },
+            call: { user: job.user, thesis: job.thesis, job: job._id },
+            language: job.language,
+            searchKeywords: job.searchKeywords,
+            clarifications: job.clarifications.map(({ question, answer }) => ({ question, answer })),
+            profile: job.profile,
+            onStepComplete: async (step, current) => {
+                const value = current.sections[step];
+                const issues = current.errors[step];
+                // 💾 Persist every step so a restart resumes from here
+                await GenerationJob.updateOne(
+                    { _id: job._id },
+                    {
+                        $set: { [`sections.${step}`]: value, ...(issues && { [`sectionErrors.${step}`]: issues }) },
+                        $addToSet: { completedSteps: step },
+                    }
+                );
+                emitJobEvent(jobId, { type: "section", step, data: value, issues });
+            },
+        });
+
+        const output = toRoadmapOutput(job.thesisDescription, progress.sections, progress.errors);
+        const thesis = await Thesis.findById(job.thesis);
+        if (thesis) {
+            applyRoadmapSections(thesis, progress.sections);
+            await thesis.save();
+            await recordRevisionSafely(thesis, { author: job.user, cause: "generation" });
+        }
+
+        await GenerationJob.updateOne(
+            { _id: job._id },
+            { $set: { status: "completed", sectionErrors: output.error || {}, finishedAt: new Date() } }
+        );
+        emitJobEvent(jobId, { type: "completed", thesisId: job.thesis.toString(), errors: output.error });
+    } catch (error: any) {
+        const message = error.message || "Unknown error";
+        const code: ErrorCode = error instanceof AppError ? error.code : "INTERNAL_ERROR";
+        console.error(`Generation job ${jobId} failed:`, message);
+
+        await GenerationJob.updateOne(
+            { _id: job._id },
+            { $set: { status: "failed", error: `Failed to generate thesis roadmap: ${message}`, errorCode: code, finishedAt: new Date() } }
+        );
+        await refundJobQuota(jobId).catch((refundError) =>
+            console.error(`Error refunding the generation quota of job ${jobId}:`, refundError)
+        );
+        emitJobEvent(jobId, { type: "failed", error: message, code });
+    } finally {
+        clearInterval(heartbeat);
+    }
+};
+
+/**
+ * Starts (or resumes) a job in the background if this instance can claim it. Completed steps are not run again.
+ */
+export const startGenerationJob = (jobId: string) => {
+    if (runningJobs.has(jobId)) return;
+    runningJobs.add(jobId);
+
+    runJob(jobId)
+        .catch((error) => console.error(`Generation job ${jobId} crashed:`, error))
+        .finally(() => runningJobs.delete(jobId));
+};
+
+// Pick up jobs interrupted by a restart or a crashed instance.
+// Jobs still owned by another live instance are left to it.
+const resumePendingJobs = async () => {
+    const jobs = await GenerationJob.find(claimableJobs()).select("_id");
+    const orphaned = jobs.filter((job) => !runningJobs.has(job._id.toString()));
+    if (orphaned.length > 0) {
+        console.log(`Resuming ${orphaned.length} pending generation job(s)...`);
+    }
+    orphaned.forEach((job) => startGenerationJob(job._id.toString()));
+};
+
+/**
+ * Resumes pending jobs now, then keeps sweeping for jobs whose owner stopped sending heartbeats.
+ * Call once after connecting to MongoDB.
+ */
+export const startJobSweeper = () => {
+    const sweep = () => resumePendingJobs().catch((error) => console.error("Failed to resume generation jobs:", error));
+    sweep();
+    setInterval(sweep, HEARTBEAT_STALE_MS).unref();
+};
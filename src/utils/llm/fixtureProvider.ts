@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import { LlmContext, LlmProvider, LlmRequest, LlmResponse } from "./llmProvider";
+
+// Canned responses matching the formats requested by PromptGenerator
+const DEFAULT_FIXTURES: Record<LlmContext, unknown> = {
+    stepByStep: [
+        { stepNumber: 1, title: "Define Research Problem", details: "State the **research question** and the scope of the thesis." },
+        { stepNumber: 2, title: "Literature Review", details: "Survey existing work and note the main *themes* and *gaps*." },
+        { stepNumber: 3, title: "Research Methodology", details: "Choose a research design and justify it." },
+        { stepNumber: 4, title: "Data Collection", details: "Collect the data described in the methodology." },
+        { stepNumber: 5, title: "Analysis and Writing", details: "Analyse the data and write up the results." },
+    ],
+    relatedPapers: [
+        {
+            rank: 1,
+            title: "Fixture Paper on the Thesis Topic",
+            summary: "A **fixture** summary used when no real LLM is configured.",
+            authors: "Author A, Author B",
+            date: "2023-01-01",
+            link: "https://example.com/fixture-paper",
+        },
+    ],
+    methodology: {
+        researchApproach: {
+            selectedApproach: "Mixed methods",
+            justification: "Fixture justification for a mixed-methods design.",
+        },
+        dataCollectionMethods: {
+            techniques: ["Survey", "Semi-structured interviews"],
+            participantSelection: "Purposive sampling of 20 participants.",
+            ethicalConsiderations: "Informed consent and anonymised data.",
+        },
+        dataAnalysisTechniques: {
+            analysisMethods: ["Regression analysis", "Thematic analysis"],
+            integration: "Quantitative results are explained with qualitative themes.",
+        },
+    },
+    researchGapAnalysis: {
+        commonThemes: ["Fixture theme"],
+        unexploredAreas: ["Fixture unexplored area"],
+        openResearchQuestions: ["Fixture open question?"],
+        futureResearchDirections: ["Fixture future direction"],
+    },
+    prosAndCons: {
+        pros: ["Fixture advantage"],
+        cons: ["Fixture challenge"],
+        finalConsiderations: "Fixture final considerations.",
+    },
+    effortEstimates: [
+        { stepNumber: 1, weight: 2 },
+        { stepNumber: 2, weight: 5 },
+        { stepNumber: 3, weight: 3 },
+        { stepNumber: 4, weight: 6 },
+        { stepNumber: 5, weight: 8 },
+    ],
+    searchKeywords: { keywords: ["fixture keyword", "thesis topic"] },
+    clarifyingQuestions: [
+        {
+            question: "Which aspect of the topic interests you most?",
+            purpose: "Narrows the scope of the roadmap.",
+            suggestedAnswers: ["Theory", "Practice"],
+        },
+        {
+            question: "Do you prefer qualitative, quantitative or mixed methods?",
+            purpose: "Decides the methodology and analysis steps.",
+            suggestedAnswers: ["Qualitative", "Quantitative", "Mixed methods"],
+        },
+    ],
+};
+
+// 📌 Deterministic provider for CI and offline development (no network)
+export class FixtureProvider implements LlmProvider {
+    readonly name = "fixture";
+    readonly model = "fixture";
+
+    /**
+     * @param fixtureDir Optional directory with `<context>.json` files overriding the built-in fixtures.
+     */
+    constructor(private readonly fixtureDir?: string) {}
+
+    async complete({ context }: LlmRequest): Promise<LlmResponse> {
+        return {
+            text: this.loadFixture(context),
+            model: "fixture",
+            finishReason: "STOP",
+        };
+    }
+
+    private loadFixture(context: LlmContext): string {
+        if (this.fixtureDir) {
+            const file = path.join(this.fixtureDir, `${context}.json`);
+            if (fs.existsSync(file)) {
+                return fs.readFileSync(file, "utf8");
+            }
+        }
+        return JSON.stringify(DEFAULT_FIXTURES[context], null, 2);
+    }
+}
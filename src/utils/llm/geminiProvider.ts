@@ -0,0 +1,76 @@
+import axios from "axios";
+import { LlmProvider, LlmRequest, LlmResponse } from "./llmProvider";
+
+export interface GeminiProviderConfig {
+    apiKey?: string;
+    model: string;
+    baseUrl: string;
+    timeoutMs: number;
+}
+
+// 📌 Google Gemini (generativelanguage.googleapis.com)
+export class GeminiProvider implements LlmProvider {
+    readonly name = "gemini";
+
+    readonly model: string;
+
+    constructor(private readonly config: GeminiProviderConfig) {
+        this.model = config.model;
+    }
+
+    async complete({ prompt, context, temperature, json }: LlmRequest): Promise<LlmResponse> {
+        if (!this.config.apiKey) {
+            throw new Error("GOOGLE_API_KEY is not defined in environment variables.");
+        }
+
+        const response = await axios.post(
+            `${this.config.baseUrl}/models/${this.config.model}:generateContent`,
+            {
+                contents: [{ role: "user", parts: [{ text: prompt }] }],
+                generationConfig: {
+                    temperature,
+                    ...(json && { responseMimeType: "application/json" }), // Explicitly request JSON output!
+                },
+            },
+            {
+                headers: { "Content-Type": "application/json" },
+                params: { key: this.config.apiKey },
+                timeout: this.config.timeoutMs,
+            }
+        );
+
+        // --- Robust Response Checking ---
+        if (!response.data) {
+            throw new Error("Empty response from Gemini API");
+        }
+
+        // Check for prompt feedback (e.g., blocked due to safety)
+        if (response.data.promptFeedback?.blockReason) {
+            console.error(`Gemini safety ratings for ${context}: ${JSON.stringify(response.data.promptFeedback.safetyRatings)}`);
+            throw new Error(`AI request blocked due to safety settings: ${response.data.promptFeedback.blockReason}`);
+        }
+
+        const candidate = response.data.candidates?.[0];
+        if (!candidate) {
+            throw new Error("No response generated by AI. Reason: UNKNOWN");
+        }
+
+        const text = candidate.content?.parts?.[0]?.text;
+        if (!text) {
+            console.error(`Received Gemini candidate for ${context}: ${JSON.stringify(candidate)}`);
+            throw new Error("Invalid response structure from Gemini API (missing text)");
+        }
+
+        const usage = response.data.usageMetadata;
+        return {
+            text,
+            model: response.data.modelVersion || this.config.model,
+            finishReason: candidate.finishReason || "UNKNOWN",
+            usage: usage && {
+                promptTokens: usage.promptTokenCount || 0,
+                completionTokens: usage.candidatesTokenCount || 0,
+                totalTokens: usage.totalTokenCount || (usage.promptTokenCount || 0) + (usage.candidatesTokenCount || 0),
+            },
+        };
+    }
+}
@@ -0,0 +1,89 @@
+import axios from "axios";
+import dotenv from "dotenv";
+import { LlmContext, LlmProvider } from "./llmProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { FixtureProvider } from "./fixtureProvider";
+import { LlmCallContext, recordLlmUsage } from "./usage";
+import { ProviderError } from "../errors";
+
+dotenv.config();
+
+export * from "./llmProvider";
+export type { LlmCallContext } from "./usage";
+
+// --- Configuration ---
+const LLM_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 60000; // 60 second timeout
+const LLM_TEMPERATURE = Number(process.env.LLM_TEMPERATURE ?? 0.6); // Adjust creativity vs factualness
+
+/**
+ * Builds the provider named by LLM_PROVIDER ("gemini" by default, "openai" or "fixture").
+ */
+export const createLlmProvider = (name = process.env.LLM_PROVIDER || "gemini"): LlmProvider => {
+    switch (name) {
+        case "gemini":
+            return new GeminiProvider({
+                apiKey: process.env.GOOGLE_API_KEY,
+                model: process.env.GEMINI_MODEL || "gemini-1.5-flash-latest",
+                baseUrl: process.env.GEMINI_BASE_URL || "https://generativelanguage.googleapis.com/v1beta",
+                timeoutMs: LLM_TIMEOUT_MS,
+            });
+        case "openai":
+            return new OpenAiCompatibleProvider({
+                apiKey: process.env.OPENAI_API_KEY,
+                model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+                baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+                timeoutMs: LLM_TIMEOUT_MS,
+                jsonMode: process.env.OPENAI_JSON_MODE === "true",
+            });
+        case "fixture":
+            return new FixtureProvider(process.env.LLM_FIXTURE_DIR);
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${name}". Expected gemini, openai or fixture.`);
+    }
+};
+
+let activeProvider: LlmProvider | null = null;
+
+// Lazily create the configured provider so a missing key fails the call, not the import
+export const getLlmProvider = (): LlmProvider => {
+    if (!activeProvider) {
+        activeProvider = createLlmProvider();
+    }
+    return activeProvider;
+};
+
+// Swap the active provider (e.g. a FixtureProvider in scripts)
+export const setLlmProvider = (provider: LlmProvider) => {
+    activeProvider = provider;
+};
+
+/**
+ * Sends a prompt to the active provider and returns the raw text.
+ * Every call, failed or not, is recorded in LlmUsage for `call`'s user and thesis.
+ * @throws ProviderError (PROVIDER_RATE_LIMITED or LLM_UNAVAILABLE) when the provider fails.
+ */
+export const callLlm = async (prompt: string, context: LlmContext, call?: LlmCallContext): Promise<string> => {
+    const provider = getLlmProvider();
+    console.log(`Calling ${provider.name} LLM for: ${context}`);
+    const startedAt = Date.now();
+    const record = { provider: provider.name, model: provider.model, context, prompt, call };
+    try {
+        const response = await provider.complete({ prompt, context, temperature: LLM_TEMPERATURE, json: true });
+        await recordLlmUsage({ ...record, latencyMs: Date.now() - startedAt, response });
+
+        if (response.finishReason && !["STOP", "stop"].includes(response.finishReason)) {
+            // Proceed with potentially truncated data, but log the warning.
+            console.warn(`${provider.name} LLM for ${context} finished with reason: ${response.finishReason}. Output might be incomplete.`);
+        }
+        return response.text;
+    } catch (error: any) {
+        await recordLlmUsage({ ...record, latencyMs: Date.now() - startedAt, error: error.message || "Unknown error" });
+        console.error(`Error calling ${provider.name} LLM for ${context}:`, axios.isAxiosError(error) ? error.response?.data || error.message : error.message);
+        const rateLimited = axios.isAxiosError(error) && error.response?.status === 429;
+        throw new ProviderError(
+            rateLimited ? "PROVIDER_RATE_LIMITED" : "LLM_UNAVAILABLE",
+            `Failed to get response from AI for ${context}.${rateLimited ? " The AI provider is rate limiting requests; try again later." : ""}`
+        );
+    }
+};
@@ -0,0 +1,41 @@
+// --- LLM Provider Contract ---
+
+/**
+ * Label for what a prompt is generating. Used for logging, fixtures
+ * and usage accounting, so keep it stable.
+ */
+export type LlmContext =
+    | "stepByStep"
+    | "relatedPapers"
+    | "methodology"
+    | "researchGapAnalysis"
+    | "prosAndCons"
+    | "effortEstimates"
+    | "searchKeywords"
+    | "clarifyingQuestions";
+
+export interface LlmRequest {
+    prompt: string;
+    context: LlmContext;
+    temperature?: number;
+    json?: boolean; // Ask the provider for a JSON-only response when it supports it
+}
+
+export interface LlmTokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface LlmResponse {
+    text: string;
+    model: string;
+    finishReason: string;
+    usage?: LlmTokenUsage; // As reported by the provider; missing when it doesn't say
+}
+
+export interface LlmProvider {
+    readonly name: string;
+    readonly model: string; // Part of the cache key, so switching models doesn't reuse old answers
+    complete(request: LlmRequest): Promise<LlmResponse>;
+}
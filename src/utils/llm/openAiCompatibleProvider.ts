@@ -0,0 +1,58 @@
+import axios from "axios";
+import { LlmProvider, LlmRequest, LlmResponse } from "./llmProvider";
+
+export interface OpenAiCompatibleProviderConfig {
+    apiKey?: string; // Optional: local Ollama / llama.cpp servers usually don't need one
+    model: string;
+    baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+    timeoutMs: number;
+    jsonMode: boolean; // Send response_format=json_object (not every server supports it)
+}
+
+// 📌 Any server speaking the OpenAI /chat/completions API
+export class OpenAiCompatibleProvider implements LlmProvider {
+    readonly name = "openai";
+
+    readonly model: string;
+
+    constructor(private readonly config: OpenAiCompatibleProviderConfig) {
+        this.model = config.model;
+    }
+
+    async complete({ prompt, temperature, json }: LlmRequest): Promise<LlmResponse> {
+        const response = await axios.post(
+            `${this.config.baseUrl.replace(/\/$/, "")}/chat/completions`,
+            {
+                model: this.config.model,
+                messages: [{ role: "user", content: prompt }],
+                temperature,
+                ...(json && this.config.jsonMode && { response_format: { type: "json_object" } }),
+            },
+            {
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+                },
+                timeout: this.config.timeoutMs,
+            }
+        );
+
+        const choice = response.data?.choices?.[0];
+        const text = choice?.message?.content;
+        if (!text) {
+            throw new Error("Invalid response structure from OpenAI-compatible API (missing message content)");
+        }
+
+        const usage = response.data.usage;
+        return {
+            text,
+            model: response.data.model || this.config.model,
+            finishReason: choice.finish_reason || "unknown",
+            usage: usage && {
+                promptTokens: usage.prompt_tokens || 0,
+                completionTokens: usage.completion_tokens || 0,
+                totalTokens: usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0),
+            },
+        };
+    }
+}
@@ -0,0 +1,51 @@
+// --- LLM Pricing ---
+
+// USD per million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// List prices at the time of writing; override or extend with LLM_PRICING='{"my-model": {"input": 1, "output": 2}}'
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+    "gemini-1.5-pro": { input: 1.25, output: 5 },
+    "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    fixture: { input: 0, output: 0 },
+};
+
+let prices: Record<string, ModelPrice> | null = null;
+
+const loadPrices = (): Record<string, ModelPrice> => {
+    if (prices) return prices;
+    prices = { ...DEFAULT_PRICES };
+    if (process.env.LLM_PRICING) {
+        try {
+            Object.assign(prices, JSON.parse(process.env.LLM_PRICING));
+        } catch (error) {
+            console.warn("LLM_PRICING is not valid JSON, using default prices.");
+        }
+    }
+    return prices;
+};
+
+/**
+ * Price of a model, matched by the longest known prefix so that versioned names
+ * ("gemini-1.5-flash-002", "models/gemini-1.5-flash-latest") find their family.
+ */
+export const getModelPrice = (model: string): ModelPrice | null => {
+    const name = model.replace(/^models\//, "").toLowerCase();
+    const match = Object.keys(loadPrices())
+        .filter((known) => name.startsWith(known.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? loadPrices()[match] : null;
+};
+
+// Estimated cost in USD; 0 for models without a known price
+export const estimateCostUsd = (model: string, promptTokens: number, completionTokens: number): number => {
+    const price = getModelPrice(model);
+    if (!price) return 0;
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
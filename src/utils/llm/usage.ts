@@ -0,0 +1,63 @@
+import mongoose from "mongoose";
+import LlmUsage from "../../models/LlmUsage";
+import { LlmContext, LlmResponse } from "./llmProvider";
+import { estimateCostUsd } from "./pricing";
+
+// Who an LLM call is made for; threaded from the routes and jobs down to callLlm
+export interface LlmCallContext {
+    user?: string | mongoose.Types.ObjectId;
+    thesis?: string | mongoose.Types.ObjectId;
+    job?: string | mongoose.Types.ObjectId;
+    repair?: boolean;
+}
+
+export interface LlmCallRecord {
+    provider: string;
+    model: string;
+    context: LlmContext;
+    prompt: string;
+    latencyMs: number;
+    response?: LlmResponse;
+    error?: string;
+    call?: LlmCallContext;
+}
+
+const CHARS_PER_TOKEN = 4; // Rough average for English text
+
+const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Stores one LLM call with its token counts and estimated cost.
+ * Never throws: accounting must not break generation. Skipped when MongoDB is not connected.
+ */
+export const recordLlmUsage = async ({ provider, model, context, prompt, latencyMs, response, error, call = {} }: LlmCallRecord) => {
+    if (mongoose.connection.readyState !== 1) return;
+
+    const reported = response?.usage;
+    const promptTokens = reported?.promptTokens ?? estimateTokens(prompt);
+    const completionTokens = reported?.completionTokens ?? (response ? estimateTokens(response.text) : 0);
+    const modelName = response?.model || model;
+
+    try {
+        await LlmUsage.create({
+            provider,
+            modelName,
+            context,
+            repair: Boolean(call.repair),
+            status: error ? "error" : "success",
+            error,
+            finishReason: response?.finishReason,
+            promptTokens,
+            completionTokens,
+            totalTokens: reported?.totalTokens ?? promptTokens + completionTokens,
+            tokensEstimated: !reported,
+            latencyMs,
+            estimatedCostUsd: estimateCostUsd(modelName, promptTokens, completionTokens),
+            user: call.user,
+            thesis: call.thesis,
+            job: call.job,
+        });
+    } catch (recordError: any) {
+        console.error(`Error recording LLM usage for ${context}:`, recordError.message || recordError);
+    }
+};
@@ -0,0 +1,31 @@
+import fs from "fs/promises";
+import path from "path";
+import { MailMessage, MailTransport } from "./mailTransport";
+
+/**
+ * Development transport: writes each message as JSON into `outboxDir`,
+ * or logs it to the console when no directory is given.
+ */
+export class FileTransport implements MailTransport {
+    readonly name: string;
+    readonly sent: (MailMessage & { from: string; sentAt: string })[] = []; // Kept in memory for scripts
+
+    constructor(private outboxDir?: string) {
+        this.name = outboxDir ? "file" : "console";
+    }
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        const entry = { ...message, sentAt: new Date().toISOString() };
+        this.sent.push(entry);
+
+        if (!this.outboxDir) {
+            console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+            return;
+        }
+
+        await fs.mkdir(this.outboxDir, { recursive: true });
+        const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, "_");
+        const file = path.join(this.outboxDir, `${Date.now()}-${safeRecipient}.json`);
+        await fs.writeFile(file, JSON.stringify(entry, null, 2));
+    }
+}
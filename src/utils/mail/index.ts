@@ -0,0 +1,51 @@
+import dotenv from "dotenv";
+import { MailMessage, MailTransport } from "./mailTransport";
+import { SmtpTransport } from "./smtpTransport";
+import { FileTransport } from "./fileTransport";
+
+dotenv.config();
+
+export * from "./mailTransport";
+
+const MAIL_FROM = process.env.MAIL_FROM || "Thesis Planner <no-reply@thesis-planner.local>";
+
+/**
+ * Builds the transport named by MAIL_TRANSPORT ("console" by default, "file" or "smtp").
+ */
+export const createMailTransport = (name = process.env.MAIL_TRANSPORT || "console"): MailTransport => {
+    switch (name) {
+        case "smtp":
+            return new SmtpTransport({
+                host: process.env.SMTP_HOST,
+                port: Number(process.env.SMTP_PORT) || 587,
+                secure: process.env.SMTP_SECURE === "true",
+                user: process.env.SMTP_USER,
+                pass: process.env.SMTP_PASS,
+            });
+        case "file":
+            return new FileTransport(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+        case "console":
+            return new FileTransport();
+        default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${name}". Expected console, file or smtp.`);
+    }
+};
+
+let activeTransport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+    if (!activeTransport) {
+        activeTransport = createMailTransport();
+    }
+    return activeTransport;
+};
+
+// Swap the active transport (e.g. a FileTransport in scripts)
+export const setMailTransport = (transport: MailTransport) => {
+    activeTransport = transport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+    const transport = getMailTransport();
+    await transport.send({ ...message, from: MAIL_FROM });
+};
@@ -0,0 +1,15 @@
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+/**
+ * Anything that can deliver a MailMessage: SMTP in production, a file/console
+ * outbox in development and scripts.
+ */
+export interface MailTransport {
+    readonly name: string;
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
@@ -0,0 +1,31 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { MailMessage, MailTransport } from "./mailTransport";
+
+export interface SmtpTransportOptions {
+    host?: string;
+    port: number;
+    secure: boolean; // true for implicit TLS (465), false for STARTTLS
+    user?: string;
+    pass?: string;
+}
+
+export class SmtpTransport implements MailTransport {
+    readonly name = "smtp";
+    private transporter: Transporter;
+
+    constructor(options: SmtpTransportOptions) {
+        if (!options.host) {
+            throw new Error("SMTP_HOST is not set.");
+        }
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+        });
+    }
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        await this.transporter.sendMail(message);
+    }
+}
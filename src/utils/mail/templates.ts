@@ -0,0 +1,42 @@
+import { escapeHtml } from "../export/renderHtml";
+import { MailMessage } from "./mailTransport";
+
+const APP_URL = () => (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+
+const link = (route: string, token: string) => `${APP_URL()}${route}?token=${encodeURIComponent(token)}`;
+
+export const verificationEmail = (to: string, username: string, token: string, expiresInHours: number): MailMessage => {
+    const url = link("/verify-email", token);
+    return {
+        to,
+        subject: "Verify your Thesis Planner email address",
+        text: `Hi ${username},\n\nConfirm your email address to start generating thesis roadmaps:\n${url}\n\nThis link expires in ${expiresInHours} hours.`,
+        html: `<p>Hi ${escapeHtml(username)},</p><p>Confirm your email address to start generating thesis roadmaps:</p><p><a href="${url}">Verify email</a></p><p>This link expires in ${expiresInHours} hours.</p>`,
+    };
+};
+
+export const passwordResetEmail = (to: string, username: string, token: string, expiresInMinutes: number): MailMessage => {
+    const url = link("/reset-password", token);
+    return {
+        to,
+        subject: "Reset your Thesis Planner password",
+        text: `Hi ${username},\n\nSomeone asked to reset your password. If it was you, choose a new one here:\n${url}\n\nThis link expires in ${expiresInMinutes} minutes. If you did not ask for this, ignore this email.`,
+        html: `<p>Hi ${escapeHtml(username)},</p><p>Someone asked to reset your password. If it was you, choose a new one here:</p><p><a href="${url}">Reset password</a></p><p>This link expires in ${expiresInMinutes} minutes. If you did not ask for this, ignore this email.</p>`,
+    };
+};
+
+export const thesisInvitationEmail = (
+    to: string,
+    inviterName: string,
+    thesisTitle: string,
+    permission: string,
+    relationship: string
+): MailMessage => {
+    const url = `${APP_URL()}/invitations`;
+    return {
+        to,
+        subject: `${inviterName} invited you to a thesis on Thesis Planner`,
+        text: `${inviterName} invited you as ${relationship} (${permission} access) to "${thesisTitle}".\n\nLog in or sign up with this email address to accept:\n${url}`,
+        html: `<p>${escapeHtml(inviterName)} invited you as ${relationship} (${permission} access) to <strong>${escapeHtml(thesisTitle)}</strong>.</p><p>Log in or sign up with this email address to accept:</p><p><a href="${url}">View invitation</a></p>`,
+    };
+};
@@ -0,0 +1,111 @@
+import { ResearchPaper } from "./paperSearch";
+
+// --- Paper Deduplication & Merging ---
+
+const TITLE_SIMILARITY_THRESHOLD = 0.9; // Dice coefficient on title bigrams
+const MISSING_ABSTRACT = "No abstract available";
+const UNKNOWN_AUTHORS = "Unknown authors";
+
+/**
+ * Normalizes a DOI or DOI URL to its bare lowercase form ("10.1000/xyz").
+ * @returns The normalized DOI, or undefined if the value doesn't look like one.
+ */
+export const normalizeDoi = (doi?: string | null): string | undefined => {
+    if (!doi) return undefined;
+    const match = doi.trim().toLowerCase().match(/10\.\d{4,9}\/\S+/);
+    return match ? match[0].replace(/[.,;]+$/, "") : undefined;
+};
+
+export const normalizeTitle = (title: string): string =>
+    title
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "") // Strip accents
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+
+// Last name of the first author, normalized ("Jane Q. Doe, John Roe" -> "doe")
+const firstAuthorSurname = (authors: string): string | undefined => {
+    if (!authors || authors === UNKNOWN_AUTHORS) return undefined;
+    const first = authors.split(/,|;| and /)[0].trim();
+    const parts = normalizeTitle(first).split(" ").filter(Boolean);
+    return parts[parts.length - 1];
+};
+
+const bigrams = (value: string): Map<string, number> => {
+    const grams = new Map<string, number>();
+    const compact = value.replace(/ /g, "");
+    for (let i = 0; i < compact.length - 1; i++) {
+        const gram = compact.slice(i, i + 2);
+        grams.set(gram, (grams.get(gram) || 0) + 1);
+    }
+    return grams;
+};
+
+// Sørensen–Dice similarity between two normalized titles (0..1)
+export const titleSimilarity = (a: string, b: string): number => {
+    if (a === b) return 1;
+    const gramsA = bigrams(a);
+    const gramsB = bigrams(b);
+    let overlap = 0;
+    let total = 0;
+    gramsA.forEach((count, gram) => {
+        overlap += Math.min(count, gramsB.get(gram) || 0);
+        total += count;
+    });
+    gramsB.forEach((count) => { total += count; });
+    return total === 0 ? 0 : (2 * overlap) / total;
+};
+
+export const isSamePaper = (a: ResearchPaper, b: ResearchPaper): boolean => {
+    const doiA = normalizeDoi(a.doi);
+    const doiB = normalizeDoi(b.doi);
+    if (doiA && doiB) return doiA === doiB;
+
+    if (titleSimilarity(normalizeTitle(a.title), normalizeTitle(b.title)) < TITLE_SIMILARITY_THRESHOLD) return false;
+
+    // Fuzzy title match also needs the first authors to agree (when both are known)
+    const authorA = firstAuthorSurname(a.authors);
+    const authorB = firstAuthorSurname(b.authors);
+    return !authorA || !authorB || authorA === authorB;
+};
+
+const hasAbstract = (paper: ResearchPaper) => Boolean(paper.abstract) && paper.abstract !== MISSING_ABSTRACT;
+const authorCount = (paper: ResearchPaper) => (paper.authors === UNKNOWN_AUTHORS ? 0 : paper.authors.split(",").length);
+
+// Combine two records of the same paper, keeping the best field from each source
+export const mergePair = (base: ResearchPaper, other: ResearchPaper): ResearchPaper => ({
+    title: base.title !== "Untitled" ? base.title : other.title,
+    url: base.url || other.url,
+    paperLink: base.paperLink || other.paperLink,
+    abstract: !hasAbstract(base) || (hasAbstract(other) && other.abstract.length > base.abstract.length) ? other.abstract : base.abstract,
+    citationCount: Math.max(base.citationCount, other.citationCount),
+    authors: authorCount(other) > authorCount(base) ? other.authors : base.authors,
+    doi: normalizeDoi(base.doi) || normalizeDoi(other.doi),
+    pdfLink: base.pdfLink || other.pdfLink,
+    year: base.year || other.year,
+    externalIds: { ...other.externalIds, ...base.externalIds },
+    sources: Array.from(new Set([...base.sources, ...other.sources])),
+});
+
+/**
+ * Merges the results of several providers, deduplicating by normalized DOI and
+ * by fuzzy title plus first-author match. Papers found by more providers come first.
+ * @param resultsByProvider Results in provider priority order; earlier providers win ties.
+ */
+export const mergePapers = (resultsByProvider: ResearchPaper[][]): ResearchPaper[] => {
+    const merged: ResearchPaper[] = [];
+
+    for (const results of resultsByProvider) {
+        for (const paper of results) {
+            const index = merged.findIndex((existing) => isSamePaper(existing, paper));
+            if (index === -1) merged.push({ ...paper, doi: normalizeDoi(paper.doi) });
+            else merged[index] = mergePair(merged[index], paper);
+        }
+    }
+
+    return merged
+        .map((paper, position) => ({ paper, position }))
+        .sort((a, b) => b.paper.sources.length - a.paper.sources.length || a.position - b.position)
+        .map(({ paper }) => paper);
+};
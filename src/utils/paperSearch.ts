@@ -0,0 +1,174 @@
+import axios, { AxiosError } from 'axios';
+import dotenv from "dotenv";
+import { mergePapers } from "./paperMerge";
+import { CacheSource, withCache } from "./cache";
+
+dotenv.config();
+
+// --- Configuration ---
+const SEMANTIC_SCHOLAR_API = "https://api.semanticscholar.org/graph/v1/paper/search";
+const OPENALEX_API = "https://api.openalex.org/works";
+const CORE_API = "https://api.core.ac.uk/v3/search/works";
+const CORE_API_KEY = process.env.CORE_API_KEY || "YOUR_CORE_API_KEY"; // Replace or load from env
+const MAX_RESULTS = 10;
+const DEFAULT_PROVIDER_TIMEOUT_MS = Number(process.env.PAPER_PROVIDER_TIMEOUT_MS) || 15000;
+
+// --- Interfaces ---
+export interface ResearchPaper {
+  title: string;
+  url: string;
+  paperLink: string;
+  abstract: string;
+  citationCount: number;
+  authors: string;
+  doi?: string; // Normalized, without the https://doi.org/ prefix
+  pdfLink?: string;
+  year?: number;
+  externalIds?: { semanticScholar?: string; openAlex?: string };
+  sources: string[]; // Providers that returned this paper
+}
+
+// Define the structure for a provider entry
+interface PaperProvider {
+    name: string;
+    cacheSource: CacheSource;
+    timeoutMs: number;
+    fetchFunction: (query: string, timeoutMs: number) => Promise<ResearchPaper[]>;
+}
+
+// Helper Type for Error Handling
+type ApiError = Error | AxiosError;
+
+const providerTimeout = (envKey: string) => Number(process.env[envKey]) || DEFAULT_PROVIDER_TIMEOUT_MS;
+
+// --- Provider Record Mapping ---
+
+export const SEMANTIC_SCHOLAR_FIELDS = "title,url,abstract,citationCount,authors,externalIds,year,openAccessPdf";
+
+export const fromSemanticScholar = (paper: any): ResearchPaper => ({
+  title: paper.title || "Untitled",
+  url: paper.url || "",
+  paperLink: paper.url || "",
+  abstract: paper.abstract || "No abstract available",
+  citationCount: paper.citationCount || 0,
+  authors: paper.authors?.map((a: any) => a.name).join(", ") || "Unknown authors",
+  doi: paper.externalIds?.DOI,
+  pdfLink: paper.openAccessPdf?.url,
+  year: paper.year || undefined,
+  externalIds: { semanticScholar: paper.paperId },
+  sources: ["Semantic Scholar"],
+});
+
+// Short OpenAlex id ("W2741809807") from its URL form
+export const openAlexId = (id?: string | null): string | undefined => (id ? id.split('/').pop() : undefined);
+
+export const fromOpenAlex = (paper: any): ResearchPaper => ({
+  title: paper.display_name || "Untitled",
+  url: paper.id ? `https://openalex.org/${openAlexId(paper.id)}` : "",
+  paperLink: paper.primary_location?.landing_page_url || paper.primary_location?.pdf_url || "",
+  abstract: paper.abstract_inverted_index ? invertAbstract(paper.abstract_inverted_index) : "No abstract available",
+  citationCount: paper.cited_by_count || 0,
+  authors: paper.authorships?.map((a: any) => a.author?.display_name).filter(Boolean).join(", ") || "Unknown authors",
+  doi: paper.doi || undefined,
+  pdfLink: paper.best_oa_location?.pdf_url || paper.primary_location?.pdf_url || undefined,
+  year: paper.publication_year || undefined,
+  externalIds: { openAlex: openAlexId(paper.id) },
+  sources: ["OpenAlex"],
+});
+
+// --- Provider Specific Fetch Functions ---
+
+const fetchFromSemanticScholar = async (query: string, timeoutMs: number): Promise<ResearchPaper[]> => {
+  const response = await axios.get(SEMANTIC_SCHOLAR_API, {
+    params: { query: query, fields: SEMANTIC_SCHOLAR_FIELDS, limit: MAX_RESULTS },
+    timeout: timeoutMs,
+  });
+  if (Array.isArray(response.data.data) && response.data.data.length > 0) {
+    return response.data.data.map(fromSemanticScholar);
+  } else if (response.data.data && response.data.data.length === 0) {
+     console.log("Semantic Scholar returned 0 results."); return [];
+  } else { throw new Error("Invalid data format received from Semantic Scholar"); }
+};
+
+const fetchFromOpenAlex = async (query: string, timeoutMs: number): Promise<ResearchPaper[]> => {
+  const response = await axios.get(OPENALEX_API, { params: { search: query, per_page: MAX_RESULTS }, timeout: timeoutMs });
+  if (Array.isArray(response.data.results) && response.data.results.length > 0) {
+    return response.data.results.map(fromOpenAlex);
+  } else if (response.data.results && response.data.results.length === 0) {
+      console.log("OpenAlex returned 0 results."); return [];
+  } else { throw new Error("Invalid data format received from OpenAlex"); }
+};
+
+const invertAbstract = (invertedIndex: Record<string, number[]>): string => {
+    if (!invertedIndex) return "No abstract available";
+    const map: { [key: number]: string } = {};
+    for (const word in invertedIndex) { invertedIndex[word].forEach(pos => { map[pos] = word; }); }
+    return Object.keys(map).map(Number).sort((a, b) => a - b).map(pos => map[pos]).join(' ');
+};
+
+const fetchFromCORE = async (query: string, timeoutMs: number): Promise<ResearchPaper[]> => {
+  if (!CORE_API_KEY || CORE_API_KEY === "YOUR_CORE_API_KEY") { console.warn("CORE API Key not configured."); return []; }
+  const response = await axios.get(CORE_API, { params: { q: query, limit: MAX_RESULTS }, headers: { 'Authorization': `Bearer ${CORE_API_KEY}` }, timeout: timeoutMs });
+  if (Array.isArray(response.data.results) && response.data.results.length > 0) {
+    return response.data.results.map((paper: any): ResearchPaper => ({
+      title: paper.title || "Untitled",
+      url: paper.doi ? `https://doi.org/${paper.doi}` : (paper.downloadUrl || ""),
+      paperLink: paper.downloadUrl || (paper.doi ? `https://doi.org/${paper.doi}` : ""),
+      abstract: paper.abstract || "No abstract available",
+      citationCount: paper.citationCount ?? 0,
+      authors: paper.authors?.map((a: any) => (typeof a === "string" ? a : a?.name)).filter(Boolean).join(", ") || "Unknown authors",
+      doi: paper.doi || undefined,
+      pdfLink: paper.downloadUrl || undefined,
+      year: paper.yearPublished || undefined,
+      sources: ["CORE"],
+    }));
+  } else if (response.data.results && response.data.results.length === 0) {
+      console.log("CORE returned 0 results."); return [];
+  } else { throw new Error("Invalid data format received from CORE"); }
+};
+
+// Providers in priority order: earlier providers win ties when merging
+const PROVIDERS: PaperProvider[] = [
+  { name: "Semantic Scholar", cacheSource: "semanticScholar", timeoutMs: providerTimeout("SEMANTIC_SCHOLAR_TIMEOUT_MS"), fetchFunction: fetchFromSemanticScholar },
+  { name: "OpenAlex", cacheSource: "openAlex", timeoutMs: providerTimeout("OPENALEX_TIMEOUT_MS"), fetchFunction: fetchFromOpenAlex },
+  { name: "CORE", cacheSource: "core", timeoutMs: providerTimeout("CORE_TIMEOUT_MS"), fetchFunction: fetchFromCORE },
+];
+
+// Run one provider through the cache, turning failures into an empty (uncached) result.
+// Empty results are not cached either: they may come from a missing API key or a provider hiccup.
+const fetchFromProvider = async (provider: PaperProvider, query: string): Promise<ResearchPaper[]> => {
+  console.log(`Attempting to fetch from ${provider.name}...`);
+  try {
+    const results = await withCache(
+      provider.cacheSource,
+      { text: query, caseInsensitive: true },
+      () => provider.fetchFunction(query, provider.timeoutMs),
+      (papers) => papers.length > 0
+    );
+    console.log(`Fetched ${results.length} papers from ${provider.name}.`);
+    return results;
+  } catch (error: unknown) {
+    const err = error as ApiError; let errorMessage = err.message;
+    if (axios.isAxiosError(err) && err.response) {
+      errorMessage = `Status ${err.response.status}: ${JSON.stringify(err.response.data)}`;
+      if (err.response.status === 429) { console.warn(`Rate limit hit for ${provider.name}.`); }
+    } else if (axios.isAxiosError(err) && err.code === "ECONNABORTED") {
+      errorMessage = `Timed out after ${provider.timeoutMs}ms`;
+    }
+    console.error(`Error fetching from ${provider.name}:`, errorMessage);
+    return [];
+  }
+};
+
+/**
+ * Queries every provider in parallel and merges the results, deduplicated by DOI
+ * and by fuzzy title plus first author. Each paper lists the providers that returned it.
+ */
+export const fetchRelatedPapers = async (thesisDescription: string): Promise<ResearchPaper[]> => {
+  const results = await Promise.all(PROVIDERS.map((provider) => fetchFromProvider(provider, thesisDescription)));
+  const merged = mergePapers(results);
+
+  if (merged.length === 0) { console.warn("All paper providers failed or returned no results."); }
+  else { console.log(`Merged ${results.flat().length} results into ${merged.length} unique papers.`); }
+  return merged;
+};
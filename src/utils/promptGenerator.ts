@@ -1,305 +1,66 @@
-export class PromptGenerator {
-  static stepByStep(thesisDescription: string): string {
-    return `You are an **expert academic research assistant** specializing in generating detailed, actionable thesis roadmaps. Your *absolute highest priority* is to provide valid, parsable JSON output. Any other considerations (e.g., creativity, detail) are secondary to this requirement.
-
-    ### **Thesis Topic**:
-    "${thesisDescription}" (Provide a specific subject, e.g., "The Impact of AI on Early Childhood Education," "Financial Contagion in Emerging Markets," or "The Role of Gut Microbiome in Autoimmune Diseases.")
-
-    ### **Markdown Formatting Guidelines**:
-    You should use Markdown syntax to format all text within the JSON responses where appropriate.  This ensures the content is properly rendered by a Markdown parser (like ReactMarkdown). However, this formatting *must not* compromise the validity of the JSON.  If there's a conflict, *prioritize JSON validity*.
-
-    - **Headings:** Use #, ##, ###, etc. for headings.  Ensure these are *within* a string value in the JSON.
-    - **Emphasis:** Use *italics* or **bold** for emphasis. Ensure these are *within* a string value in the JSON.
-    - **Lists:** Use - (unordered) or 1. (ordered) lists to structure information. Ensure these are *within* a string value in the JSON.
-    - **Links:** Use [link text](URL) for hyperlinks. Ensure these are *within* a string value in the JSON.
-    - **Code:** Use \`inline code\` or \`\`\` for code blocks. Ensure these are *within* a string value in the JSON.
-
-    ### **JSON Output Rules (CRITICAL):**
-
-    1.  **COMPLETE JSON:** The output *must* be a complete, valid JSON array.  Do not truncate the JSON or leave it incomplete.
-    2.  **VALID JSON:** The JSON *must* be parsable by a standard JSON parser (e.g., 'JSON.parse()' in JavaScript).
-    3.  **STRING ENCLOSURE:**  *All* text values in the JSON (including titles, details, etc.) *must* be enclosed in double quotes ('"').
-    4.  **ESCAPING:**  If a string value contains double quotes ('"'), they *must* be escaped with a backslash ('\"'). If a string value contains a backslash ('\'), it *must* be escaped with another backslash ('\\').
-    5.  **NO TRAILING COMMAS:** Do not include trailing commas at the end of the last element in an array or object.
-    6.  **UTF-8 ENCODING:** Ensure the output uses UTF-8 encoding to handle special characters correctly.
-    7.  **MINIMAL EXTRA TEXT:**  The output should contain *only* the JSON.  Avoid adding any extra text before or after the JSON, *except* for the clarifying questions (as instructed below).
-
-    ### **Instructions**:
-
-    1. **Clarifying Questions (Important, but Secondary to JSON Validity):** *Before* generating the roadmap, ask *at least two* clarifying questions related to the thesis topic that would significantly impact the research approach. These questions should target:
-       * **Scope & Focus:** What specific aspect of the topic is the student most interested in?
-       * **Methodology Preferences:** Does the student have a preference for qualitative, quantitative, or mixed methods research?
-
-       *These questions are important for tailoring the roadmap, BUT THEY MUST NEVER COMPROMISE THE VALIDITY OF THE JSON OUTPUT.* Present these questions as Markdown bullet points *before* the JSON output. End these questions with a colon (:).
-
-    2. **Detailed, Topic-Specific Steps:** Based on the provided topic and anticipated answers to the clarifying questions, break down the thesis process into a sequence of well-defined, actionable steps.
-
-    3. **Actionable Guidance:** Ensure each step provides clear, actionable guidance.
-
-    4. **MANDATORY JSON OUTPUT:** Present the roadmap in a structured JSON format, as demonstrated below.
-
-    ---
-
-    ### **Output Format:**
-
-    Here is an example of the JSON format. *Study it carefully and ensure your output matches this format exactly, including the use of double quotes, proper escaping, and no trailing commas.*
-
-    \`\`\`json
-    [
-      { "stepNumber": 1, "title": "Define Research Problem", "details": "Clearly define the research question. For example, for 'AI in Education', the question might be: \\"Does AI tutoring improve math scores?\\"" },
-      { "stepNumber": 2, "title": "Literature Review", "details": "Review existing literature. Use keywords like \\"AI\\", \\"education\\", and \\"mathematics\\"." },
-      { "stepNumber": 3, "title": "Research Methodology", "details": "Select an appropriate methodology (e.g., quasi-experimental design)." }
-    ]
-    \`\`\`
-
-    ---
-
-    ### **Example Outputs for Different Thesis Topics:** (Examples are for guidance, not strict templates)
-
-    *   **AI in Early Childhood Education:** (JSON output example would be similar to above, but tailored to AI in early childhood).
-
-    *   **Financial Contagion in Emerging Markets:** (JSON output example would focus on financial models and data sources).
-
-    *   **Role of Gut Microbiome in Autoimmune Diseases:** (JSON output example would focus on biological data and statistical analysis).
+import { Clarification, getPromptCatalog, outputLanguageBlock, PromptCatalog, ReadingNote } from "./prompts";
+import { hasThesisProfile, ThesisProfile } from "./thesisProfile";
+
+export interface PromptOptions {
+  guidance?: string; // Extra instructions from the student, used when a single section is regenerated
+  language?: string; // Language of the generated text; templates fall back to English
+  clarifications?: Clarification[]; // Answers from the clarifying-question phase
+  profile?: ThesisProfile; // Degree level, discipline, preferred methodology...
+  readingNotes?: ReadingNote[]; // What the student wrote on the papers of their reading list
+}
 
-    ---
+// Builds the LLM prompts from the templates of the requested language (see ./prompts)
+export class PromptGenerator {
+  // Sections shared by every template, rendered in the catalog's language
+  private static context(catalog: PromptCatalog, { guidance, clarifications, profile, readingNotes }: PromptOptions): string {
+    const blocks: string[] = [];
+    if (hasThesisProfile(profile)) blocks.push(catalog.profileBlock(profile));
+    if (clarifications?.length) blocks.push(catalog.clarificationsBlock(clarifications));
+    if (readingNotes?.length) blocks.push(catalog.readingNotesBlock(readingNotes));
+    if (guidance?.trim()) blocks.push(catalog.guidanceBlock(guidance.trim()));
+    return blocks.join("");
+  }
 
-    ### **Expected Output:**
+  private static render(options: PromptOptions, build: (catalog: PromptCatalog, context: string) => string): string {
+    const catalog = getPromptCatalog(options.language);
+    return build(catalog, PromptGenerator.context(catalog, options)) + outputLanguageBlock(options.language);
+  }
 
-    - **Valid, Parsable JSON Output (ABSOLUTELY MANDATORY).**
-    - Clarifying questions *before* the JSON (optional, but helpful if they do not compromise JSON).
-    - Actionable thesis roadmap steps (formatted as Markdown *if possible without compromising JSON validity*).
-    `;
+  static clarifyingQuestions(thesisDescription: string, options: PromptOptions = {}): string {
+    return PromptGenerator.render(options, (catalog, context) => catalog.clarifyingQuestions(thesisDescription, context));
   }
 
-  static rankPapers(thesisDescription: string, paperDetails: string): string {
-    return `You are an **AI research assistant** specialized in analyzing and ranking research papers. Your task is to **rank and summarize** the most relevant research papers for the following thesis topic:
-  
-    ### Thesis:
-    "${thesisDescription}"
+  static stepByStep(thesisDescription: string, options: PromptOptions = {}): string {
+    return PromptGenerator.render(options, (catalog, context) => catalog.stepByStep(thesisDescription, context));
+  }
 
-    ### **Markdown Formatting Guidelines**:
-    Please ensure the LLM text inside the JSON responses includes the following formatting in **GitHub Flavored Markdown** to enhance readability:
-    
-    - **Headings**: Use ### or ## for section headings.
-    - **Bold Text**: Use ** to emphasize important points.
-    - **Lists**: Use - or 1. for unordered or ordered lists respectively.
-    - **Tables**: Use | to create tables for better clarity of data.
-    - **Inline code**: Use backticks for inline code. 
-    - Make important points **bold** to ensure clarity and emphasis.
-    - Where applicable, use **bullet points** or **numerical listings** to organize information logically.
-    - Create **tables** or **other structures** where necessary to make the information clear and dynamic.
-  
-    ---
-    ### **Instructions**:
-    1. **Relevance Ranking**:  
-       - Rank the provided papers based on their **direct relevance** to the research topic. Consider factors such as **similarity of research focus**, **methodological approach**, and **publication recency**.
-       - If the thesis topic is about China’s economy, papers related to economic policy, economic growth models, or trade relationships should be ranked higher.
-  
-    2. **Summarization**:  
-       - Summarize each paper concisely (50-100 words), highlighting **key contributions**, **methodologies**, and **findings** that directly inform the thesis topic.
-  
-    ---
-    ### **Output Format**:
-    Please output the results in **strict JSON format**:
-    \`\`\`json
-    [
-      {
-        "rank": 1,
-        "title": "Relevant Paper Title",
-        "summary": "Summary of the paper’s contributions, methodology, and how it relates to the thesis topic.",
-        "authors": "Author A, Author B",
-        "date": "2023-03-15",
-        "link": "https://example.com/paper-link"
-      },
-      {
-        "rank": 2,
-        "title": "Another Relevant Paper Title",
-        "summary": "Summary that focuses on its relevance to your thesis topic, providing insights on economic trends, policy implications, etc.",
-        "authors": "Author C",
-        "date": "2021-12-01",
-        "link": "https://example.com/paper-link"
-      }
-    ]
-    \`\`\`
-    ---  
-    ### **Expected Output**:
-    - A **ranked list of papers** based on their **relevance** to the thesis topic.
-    - Each paper should have a **concise summary** that focuses on how the paper can be used in the thesis.
-    ---
-    `;
+  static rankPapers(thesisDescription: string, paperDetails: string, options: PromptOptions = {}): string {
+    return PromptGenerator.render(options, (catalog, context) => catalog.rankPapers(thesisDescription, paperDetails, context));
   }
-  
 
-  static methodology(thesisDescription: string): string {
-    return `You are an expert in research methodology. Your task is to create a **tailored research methodology** for the following thesis topic:
-  
-    ### **Thesis Topic**:
-    "${thesisDescription}"
+  static methodology(thesisDescription: string, options: PromptOptions = {}): string {
+    return PromptGenerator.render(options, (catalog, context) => catalog.methodology(thesisDescription, context));
+  }
 
-    ### **Markdown Formatting Guidelines**:
-    Please ensure the LLM text inside the JSON responses includes the following formatting in **GitHub Flavored Markdown** to enhance readability:
-    
-    - **Headings**: Use ### or ## for section headings.
-    - **Bold Text**: Use ** to emphasize important points.
-    - **Lists**: Use - or 1. for unordered or ordered lists respectively.
-    - **Tables**: Use | to create tables for better clarity of data.
-    - **Inline code**: Use backticks for inline code. 
-    - Make important points **bold** to ensure clarity and emphasis.
-    - Where applicable, use **bullet points** or **numerical listings** to organize information logically.
-    - Create **tables** or **other structures** where necessary to make the information clear and dynamic.
-  
-    ---
-    ### **Instructions**:
-    1. **Research Approach**:  
-       - Based on the nature of the research problem, determine whether a **qualitative, quantitative, or mixed-methods** approach is most suitable. 
-       - Provide a detailed justification for the chosen approach based on the specific needs of the thesis topic.
-       - Example: For a thesis on economic policies, a quantitative approach may be best, while for a sociological exploration, a qualitative approach might be required.
-    
-    2. **Data Collection Methods**:  
-       - Suggest **specific data collection techniques** suited to this thesis, e.g., for a case study on business economics, consider interviews and historical data analysis.
-       - Provide a rationale for why these methods are most appropriate.
-       - Mention **sample size**, **participant selection**, and **ethical considerations** specific to the research focus (e.g., sampling methods for economic surveys, ethical handling of sensitive data in social studies).
-  
-    3. **Data Analysis Techniques**:  
-       - Recommend **data analysis techniques** suited to the chosen research approach.
-       - If **quantitative**, suggest **statistical tools** (e.g., regression analysis, econometric models, hypothesis testing).
-       - If **qualitative**, suggest methods like **thematic analysis**, **grounded theory**, or **discourse analysis**.
-       - If **mixed methods**, explain how both qualitative and quantitative data will be integrated to answer the research questions.
-  
-    ---
-    ### **Output Format**:
-    Your response should be in **strict JSON format**:
-    \`\`\`json
-    {
-      "researchApproach": {
-        "selectedApproach": "description of the selected approach",
-        "justification": "justification based on the specific thesis topic (e.g., China’s economic reform policies or AI in healthcare)."
-      },
-      "dataCollectionMethods": {
-        "techniques": ["technique 1", "technique 2"],
-        "participantSelection": "details on participant selection specific to the research focus",
-        "ethicalConsiderations": "specific ethical considerations for the research"
-      },
-      "dataAnalysisTechniques": {
-        "analysisMethods": ["method 1", "method 2"],
-        "integration": "explanation of how qualitative and quantitative data will be integrated (if mixed methods)"
-      }
-    }
-    \`\`\`
-    ---  
-    ### **Expected Output**:
-    - A **tailored methodology** that fits the specific **thesis description**, offering guidance on the most appropriate research approach, collection methods, and analysis techniques.
-    - Clear explanations for why each choice is relevant to the **thesis topic**.
-    ---
-    `;
+  static researchGaps(abstracts: string, thesisDescription: string, options: PromptOptions = {}): string {
+    return PromptGenerator.render(options, (catalog, context) => catalog.researchGaps(abstracts, thesisDescription, context));
   }
-  
-  
 
-  static researchGaps(abstracts: string, thesisDescription: string): string {
-    return `You are an AI research assistant specializing in academic analysis. Your task is to analyze the following research paper abstracts and identify key **research gaps**, **unexplored areas**, and **potential future directions** for the given thesis topic.
-  
-    ### Thesis Topic:
-    "${thesisDescription}"
+  static prosCons(abstracts: string, thesisDescription: string, options: PromptOptions = {}): string {
+    return PromptGenerator.render(options, (catalog, context) => catalog.prosCons(abstracts, thesisDescription, context));
+  }
 
-    ### **Markdown Formatting Guidelines**:
-    Please ensure the LLM text inside the JSON responses includes the following formatting in **GitHub Flavored Markdown** to enhance readability:
-    
-    - **Headings**: Use ### or ## for section headings.
-    - **Bold Text**: Use ** to emphasize important points.
-    - **Lists**: Use - or 1. for unordered or ordered lists respectively.
-    - **Tables**: Use | to create tables for better clarity of data.
-    - **Inline code**: Use backticks for inline code. 
-    - Make important points **bold** to ensure clarity and emphasis.
-    - Where applicable, use **bullet points** or **numerical listings** to organize information logically.
-    - Create **tables** or **other structures** where necessary to make the information clear and dynamic.
-  
-    ---
-    ### Research Paper Abstracts:
-    "${abstracts}"
-  
-    ---
-    ### **Instructions**:
-    1. **Common Themes**: Identify recurring **themes**, **theories**, or **methodologies** in the provided abstracts. Focus on patterns that emerge across the papers that are relevant to the specific thesis topic.
-    
-    2. **Unexplored Areas**: Analyze the abstracts and pinpoint **areas** within the research that have not yet been thoroughly explored or investigated. Consider if there are **new angles**, **data sources**, or **perspectives** that could be added to the current research for the given thesis topic.
-    
-    3. **Open Research Questions**: Based on the analysis, propose **key open questions** that remain unanswered and that are directly related to the thesis topic. Focus on questions that the current research does not address in depth.
-  
-    4. **Future Research Directions**: Suggest **concrete future research directions** that would advance knowledge in the specific area of the thesis. Consider emerging trends, technological advancements, or interdisciplinary approaches.
-  
-    ---
-    ### **Output Format**:
-    \`\`\`json
-    {
-      "commonThemes": ["theme 1", "theme 2"],
-      "unexploredAreas": ["unexplored area 1", "unexplored area 2"],
-      "openResearchQuestions": ["research question 1", "research question 2"],
-      "futureResearchDirections": ["future direction 1", "future direction 2"]
-    }
-    \`\`\`
-    ---  
-    ### **Expected Output**:
-    - A **detailed list of research gaps**, **unexplored areas**, **open questions**, and **future directions** specific to the thesis topic.
-    - **Insights that are deeply connected to the specific research focus**.
-    ---
-    `;
+  static effortEstimates(thesisDescription: string, steps: string, options: PromptOptions = {}): string {
+    return PromptGenerator.render(options, (catalog, context) => catalog.effortEstimates(thesisDescription, steps, context));
   }
-  
 
-  static prosCons(abstracts: string, thesisDescription: string): string {
-    return `You are an AI research assistant specializing in academic evaluation. Your task is to analyze the following research paper abstracts and provide an **in-depth pros and cons analysis** for conducting research in the **specific area** of the given thesis.
-  
-    ### Thesis Topic:
-    "${thesisDescription}"
+  // Always English: the keywords are only used to query the paper providers
+  static searchKeywords(thesisDescription: string): string {
+    return getPromptCatalog().searchKeywords(thesisDescription);
+  }
 
-    ### **Markdown Formatting Guidelines**:
-    Please ensure the LLM text inside the JSON responses includes the following formatting in **GitHub Flavored Markdown** to enhance readability:
-    
-    - **Headings**: Use ### or ## for section headings.
-    - **Bold Text**: Use ** to emphasize important points.
-    - **Lists**: Use - or 1. for unordered or ordered lists respectively.
-    - **Tables**: Use | to create tables for better clarity of data.
-    - **Inline code**: Use backticks for inline code. 
-    - Make important points **bold** to ensure clarity and emphasis.
-    - Where applicable, use **bullet points** or **numerical listings** to organize information logically.
-    - Create **tables** or **other structures** where necessary to make the information clear and dynamic.
-  
-    ---
-    ### Research Paper Abstracts:
-    "${abstracts}"
-  
-    ---
-    ### **Instructions**:
-    1. **Pros**:  
-       - Identify the **key advantages** of researching this specific topic, considering its potential **impact**, **relevance**, and **importance** in the academic or practical world. 
-       - Discuss the **strengths** of the field, such as abundant data sources, growing interest, or the possibility of making meaningful contributions to the field.
-  
-    2. **Cons**:  
-       - Analyze the **challenges** and **limitations** of conducting research in this area. These could be related to **data access**, **methodological constraints**, **ethical issues**, or the **complexity** of the topic.
-       - Consider difficulties such as **limited existing literature**, **difficulty in data collection**, or **lack of funding** specific to the research domain.
-  
-    3. **Final Considerations**:  
-       - Provide a **summary** of the research area's **strengths** and **weaknesses**, and offer **final recommendations** for researchers. 
-       - Provide practical suggestions for **overcoming challenges** or **leveraging strengths** in the research process.
-  
-    ---
-    ### **Output Format**:
-    \`\`\`json
-    {
-      "pros": ["key advantage 1", "key advantage 2"],
-      "cons": ["challenge 1", "challenge 2"],
-      "finalConsiderations": "Summary of the research area's strengths and final recommendations."
-    }
-    \`\`\`
-    ---  
-    ### **Expected Output**:
-    - A **balanced pros and cons analysis** that specifically relates to the thesis topic, providing valuable insights into both the **advantages** and **challenges** of researching that area.
-    - **Practical considerations** for overcoming challenges and **capitalizing on strengths** in the research process.
-    ---
-    `;
+  // The original prompt already carries the language instructions
+  static repair(originalPrompt: string, invalidOutput: string, validationErrors: string): string {
+    return getPromptCatalog().repair(originalPrompt, invalidOutput, validationErrors);
   }
-  
 }
-  
\ No newline at end of file
@@ -0,0 +1,455 @@
+import { DegreeLevel, MethodologyPreference } from "../thesisProfile";
+import { PromptCatalog } from "./promptCatalog";
+
+// How big and how many the steps should be for each degree
+const DEGREE_GUIDANCE: Record<DegreeLevel, string> = {
+    bachelor: "Bachelor's thesis. Keep the roadmap to about 5-8 broad, achievable steps and favour well-established methods over novel contributions.",
+    master: "Master's thesis. Use about 8-12 steps and aim for a clear, modest methodological or empirical contribution.",
+    phd: "PhD dissertation. Use about 12-20 detailed steps grouped into phases (e.g. per study or chapter), including ethics approval, publications and the defence where relevant.",
+};
+
+const METHODOLOGY_GUIDANCE: Record<MethodologyPreference, string> = {
+    qualitative: "Qualitative. Build the methodology around qualitative methods unless the topic rules them out; if so, explain why.",
+    quantitative: "Quantitative. Build the methodology around quantitative methods unless the topic rules them out; if so, explain why.",
+    mixed: "Mixed methods. Combine qualitative and quantitative methods and explain how they are integrated.",
+    undecided: "Undecided. Compare the suitable approaches briefly and recommend one.",
+};
+
+// 📌 English templates: the reference catalog every other locale falls back to
+export const englishPrompts: PromptCatalog = {
+    // Extra instructions from the student, used when a single section is regenerated
+    guidanceBlock: (guidance) => `
+    ### **Additional Guidance from the Student**:
+    The student reviewed a previous version of this section and asked for the following changes. Follow them closely, as long as they do not conflict with the output format:
+    "${guidance}"
+`,
+
+    // Structured inputs from the generate request, added to every prompt
+    profileBlock: ({ degreeLevel, discipline, preferredMethodology, timeAvailable, requiredChapters }) => `
+    ### **Student Profile**:
+    Adapt the scope, depth and vocabulary of your output to this profile:
+${[
+    degreeLevel && `    - **Degree level:** ${DEGREE_GUIDANCE[degreeLevel]}`,
+    discipline && `    - **Discipline:** ${discipline}. Suggest methods, data sources and conventions that are standard in this discipline.`,
+    preferredMethodology && `    - **Preferred methodology:** ${METHODOLOGY_GUIDANCE[preferredMethodology]}`,
+    timeAvailable && `    - **Time available:** ${timeAvailable.months} month(s)${timeAvailable.hoursPerWeek ? `, about ${timeAvailable.hoursPerWeek} hours per week` : ""}. Scale the number and size of the steps so they fit in this time.`,
+    requiredChapters?.length && `    - **Required chapters:** ${requiredChapters.map((chapter) => `"${chapter}"`).join(", ")}. The thesis must contain these chapters; make sure the roadmap has steps that produce each of them, using these names.`,
+].filter(Boolean).join("\n")}
+`,
+
+    // The student's answers from the clarifying-question phase, added to every prompt
+    clarificationsBlock: (clarifications) => `
+    ### **Student's Answers to Clarifying Questions**:
+    Before the roadmap was generated, the student answered the questions below. Tailor your output to these answers; they take precedence over any assumption you would otherwise make about the topic:
+${clarifications.map(({ question, answer }) => `    - **Q:** ${question}\n      **A:** ${answer}`).join("\n")}
+`,
+
+    // Notes and highlights from the student's reading list, added when the research gaps are regenerated
+    readingNotesBlock: (notes) => `
+    ### **Student's Reading Notes**:
+    The student has read the papers below for this thesis and wrote these notes. Treat them as first-hand observations: build on the gaps and limitations they point out, and do not list as a gap anything their notes show is already covered:
+${notes.map(({ title, rating, tags, notes: text, highlights }) => [
+    `    - **"${title}"**${rating ? ` (relevance ${rating}/5)` : ""}${tags.length ? ` [${tags.join(", ")}]` : ""}`,
+    text && `      **Notes:** ${text}`,
+    ...highlights.map((highlight) => `      **Highlight:** "${highlight.text}"${highlight.note ? ` (${highlight.note})` : ""}`),
+].filter(Boolean).join("\n")).join("\n")}
+`,
+
+    // First phase of a generation: questions the student answers before the roadmap is written
+    clarifyingQuestions: (thesisDescription, context) => `You are an **experienced thesis advisor** meeting a student for the first time. Before a roadmap is written for the thesis below, you need to understand what the student actually wants. Your task is to ask **clarifying questions**.
+
+    ### **Thesis Topic**:
+    "${thesisDescription}"
+${context}
+    ---
+    ### **Instructions**:
+    1. Ask **between 2 and 5 questions** whose answers would **significantly change** the roadmap. Always cover:
+       * **Scope & Focus:** Which specific aspect of the topic is the student most interested in?
+       * **Methodology Preferences:** Does the student prefer qualitative, quantitative, or mixed methods research?
+
+       Skip anything the student profile above already answers.
+    2. Ask about **data access**, **population** or **context** only when the topic leaves them open. Never ask what the topic already states.
+    3. Keep every question **short** and answerable in one or two sentences.
+    4. Give each question a one-sentence **purpose** explaining how the answer shapes the roadmap and, when it helps, up to 4 **suggested answers** the student can pick from.
+
+    ---
+    ### **Output Format**:
+    Output **only** the JSON, with no text before or after it:
+    \`\`\`json
+    [
+      {
+        "question": "Which age group do you want to focus on?",
+        "purpose": "Studies with young children need different data collection and ethics approval.",
+        "suggestedAnswers": ["Preschool (3-5 years)", "Primary school (6-11 years)"]
+      }
+    ]
+    \`\`\`
+    ---
+    `,
+
+    stepByStep: (thesisDescription, context) => `You are an **expert academic research assistant** specializing in generating detailed, actionable thesis roadmaps. Your *absolute highest priority* is to provide valid, parsable JSON output. Any other considerations (e.g., creativity, detail) are secondary to this requirement.
+
+    ### **Thesis Topic**:
+    "${thesisDescription}" (Provide a specific subject, e.g., "The Impact of AI on Early Childhood Education," "Financial Contagion in Emerging Markets," or "The Role of Gut Microbiome in Autoimmune Diseases.")
+${context}
+
+    ### **Markdown Formatting Guidelines**:
+    You should use Markdown syntax to format all text within the JSON responses where appropriate.  This ensures the content is properly rendered by a Markdown parser (like ReactMarkdown). However, this formatting *must not* compromise the validity of the JSON.  If there's a conflict, *prioritize JSON validity*.
+
+    - **Headings:** Use #, ##, ###, etc. for headings.  Ensure these are *within* a string value in the JSON.
+    - **Emphasis:** Use *italics* or **bold** for emphasis. Ensure these are *within* a string value in the JSON.
+    - **Lists:** Use - (unordered) or 1. (ordered) lists to structure information. Ensure these are *within* a string value in the JSON.
+    - **Links:** Use [link text](URL) for hyperlinks. Ensure these are *within* a string value in the JSON.
+    - **Code:** Use \`inline code\` or \`\`\` for code blocks. Ensure these are *within* a string value in the JSON.
+
+    ### **JSON Output Rules (CRITICAL):**
+
+    1.  **COMPLETE JSON:** The output *must* be a complete, valid JSON array.  Do not truncate the JSON or leave it incomplete.
+    2.  **VALID JSON:** The JSON *must* be parsable by a standard JSON parser (e.g., 'JSON.parse()' in JavaScript).
+    3.  **STRING ENCLOSURE:**  *All* text values in the JSON (including titles, details, etc.) *must* be enclosed in double quotes ('"').
+    4.  **ESCAPING:**  If a string value contains double quotes ('"'), they *must* be escaped with a backslash ('\"'). If a string value contains a backslash ('\'), it *must* be escaped with another backslash ('\\').
+    5.  **NO TRAILING COMMAS:** Do not include trailing commas at the end of the last element in an array or object.
+    6.  **UTF-8 ENCODING:** Ensure the output uses UTF-8 encoding to handle special characters correctly.
+    7.  **MINIMAL EXTRA TEXT:**  The output should contain *only* the JSON.  Avoid adding any extra text before or after the JSON.
+
+    ### **Instructions**:
+
+    1. **Detailed, Topic-Specific Steps:** Based on the provided topic and the student's answers to the clarifying questions (when given above), break down the thesis process into a sequence of well-defined, actionable steps.
+
+    2. **Actionable Guidance:** Ensure each step provides clear, actionable guidance.
+
+    3. **MANDATORY JSON OUTPUT:** Present the roadmap in a structured JSON format, as demonstrated below.
+
+    ---
+
+    ### **Output Format:**
+
+    Here is an example of the JSON format. *Study it carefully and ensure your output matches this format exactly, including the use of double quotes, proper escaping, and no trailing commas.*
+
+    \`\`\`json
+    [
+      { "stepNumber": 1, "title": "Define Research Problem", "details": "Clearly define the research question. For example, for 'AI in Education', the question might be: \\"Does AI tutoring improve math scores?\\"" },
+      { "stepNumber": 2, "title": "Literature Review", "details": "Review existing literature. Use keywords like \\"AI\\", \\"education\\", and \\"mathematics\\"." },
+      { "stepNumber": 3, "title": "Research Methodology", "details": "Select an appropriate methodology (e.g., quasi-experimental design)." }
+    ]
+    \`\`\`
+
+    ---
+
+    ### **Example Outputs for Different Thesis Topics:** (Examples are for guidance, not strict templates)
+
+    *   **AI in Early Childhood Education:** (JSON output example would be similar to above, but tailored to AI in early childhood).
+
+    *   **Financial Contagion in Emerging Markets:** (JSON output example would focus on financial models and data sources).
+
+    *   **Role of Gut Microbiome in Autoimmune Diseases:** (JSON output example would focus on biological data and statistical analysis).
+
+    ---
+
+    ### **Expected Output:**
+
+    - **Valid, Parsable JSON Output (ABSOLUTELY MANDATORY).**
+    - Actionable thesis roadmap steps (formatted as Markdown *if possible without compromising JSON validity*).
+    `,
+
+    rankPapers: (thesisDescription, paperDetails, context) => `You are an **AI research assistant** specialized in analyzing and ranking research papers. Your task is to **rank and summarize** the most relevant research papers for the following thesis topic:
+  
+    ### Thesis:
+    "${thesisDescription}"
+${context}
+
+    ### **Markdown Formatting Guidelines**:
+    Please ensure the LLM text inside the JSON responses includes the following formatting in **GitHub Flavored Markdown** to enhance readability:
+    
+    - **Headings**: Use ### or ## for section headings.
+    - **Bold Text**: Use ** to emphasize important points.
+    - **Lists**: Use - or 1. for unordered or ordered lists respectively.
+    - **Tables**: Use | to create tables for better clarity of data.
+    - **Inline code**: Use backticks for inline code. 
+    - Make important points **bold** to ensure clarity and emphasis.
+    - Where applicable, use **bullet points** or **numerical listings** to organize information logically.
+    - Create **tables** or **other structures** where necessary to make the information clear and dynamic.
+  
+    ---
+    ### Research Papers:
+    Rank **only** the papers listed here. Copy each paper's **title**, **authors** and **link** (use \`paperLink\`, or \`url\` when it is empty) exactly as given.
+    \`\`\`json
+${paperDetails}
+    \`\`\`
+
+    ---
+    ### **Instructions**:
+    1. **Relevance Ranking**:  
+       - Rank the provided papers based on their **direct relevance** to the research topic. Consider factors such as **similarity of research focus**, **methodological approach**, and **publication recency**.
+       - If the thesis topic is about China’s economy, papers related to economic policy, economic growth models, or trade relationships should be ranked higher.
+  
+    2. **Summarization**:  
+       - Summarize each paper concisely (50-100 words), highlighting **key contributions**, **methodologies**, and **findings** that directly inform the thesis topic.
+  
+    ---
+    ### **Output Format**:
+    Please output the results in **strict JSON format**:
+    \`\`\`json
+    [
+      {
+        "rank": 1,
+        "title": "Relevant Paper Title",
+        "summary": "Summary of the paper’s contributions, methodology, and how it relates to the thesis topic.",
+        "authors": "Author A, Author B",
+        "date": "2023-03-15",
+        "link": "https://example.com/paper-link"
+      },
+      {
+        "rank": 2,
+        "title": "Another Relevant Paper Title",
+        "summary": "Summary that focuses on its relevance to your thesis topic, providing insights on economic trends, policy implications, etc.",
+        "authors": "Author C",
+        "date": "2021-12-01",
+        "link": "https://example.com/paper-link"
+      }
+    ]
+    \`\`\`
+    ---  
+    ### **Expected Output**:
+    - A **ranked list of papers** based on their **relevance** to the thesis topic.
+    - Each paper should have a **concise summary** that focuses on how the paper can be used in the thesis.
+    ---
+    `,
+
+    methodology: (thesisDescription, context) => `You are an expert in research methodology. Your task is to create a **tailored research methodology** for the following thesis topic:
+  
+    ### **Thesis Topic**:
+    "${thesisDescription}"
+${context}
+
+    ### **Markdown Formatting Guidelines**:
+    Please ensure the LLM text inside the JSON responses includes the following formatting in **GitHub Flavored Markdown** to enhance readability:
+    
+    - **Headings**: Use ### or ## for section headings.
+    - **Bold Text**: Use ** to emphasize important points.
+    - **Lists**: Use - or 1. for unordered or ordered lists respectively.
+    - **Tables**: Use | to create tables for better clarity of data.
+    - **Inline code**: Use backticks for inline code. 
+    - Make important points **bold** to ensure clarity and emphasis.
+    - Where applicable, use **bullet points** or **numerical listings** to organize information logically.
+    - Create **tables** or **other structures** where necessary to make the information clear and dynamic.
+  
+    ---
+    ### **Instructions**:
+    1. **Research Approach**:  
+       - Based on the nature of the research problem, determine whether a **qualitative, quantitative, or mixed-methods** approach is most suitable. 
+       - Provide a detailed justification for the chosen approach based on the specific needs of the thesis topic.
+       - If the student profile gives a preferred methodology, start from it and suggest methods that fit the student's discipline.
+       - Example: For a thesis on economic policies, a quantitative approach may be best, while for a sociological exploration, a qualitative approach might be required.
+    
+    2. **Data Collection Methods**:  
+       - Suggest **specific data collection techniques** suited to this thesis, e.g., for a case study on business economics, consider interviews and historical data analysis.
+       - Provide a rationale for why these methods are most appropriate.
+       - Mention **sample size**, **participant selection**, and **ethical considerations** specific to the research focus (e.g., sampling methods for economic surveys, ethical handling of sensitive data in social studies).
+  
+    3. **Data Analysis Techniques**:  
+       - Recommend **data analysis techniques** suited to the chosen research approach.
+       - If **quantitative**, suggest **statistical tools** (e.g., regression analysis, econometric models, hypothesis testing).
+       - If **qualitative**, suggest methods like **thematic analysis**, **grounded theory**, or **discourse analysis**.
+       - If **mixed methods**, explain how both qualitative and quantitative data will be integrated to answer the research questions.
+  
+    ---
+    ### **Output Format**:
+    Your response should be in **strict JSON format**:
+    \`\`\`json
+    {
+      "researchApproach": {
+        "selectedApproach": "description of the selected approach",
+        "justification": "justification based on the specific thesis topic (e.g., China’s economic reform policies or AI in healthcare)."
+      },
+      "dataCollectionMethods": {
+        "techniques": ["technique 1", "technique 2"],
+        "participantSelection": "details on participant selection specific to the research focus",
+        "ethicalConsiderations": "specific ethical considerations for the research"
+      },
+      "dataAnalysisTechniques": {
+        "analysisMethods": ["method 1", "method 2"],
+        "integration": "explanation of how qualitative and quantitative data will be integrated (if mixed methods)"
+      }
+    }
+    \`\`\`
+    ---  
+    ### **Expected Output**:
+    - A **tailored methodology** that fits the specific **thesis description**, offering guidance on the most appropriate research approach, collection methods, and analysis techniques.
+    - Clear explanations for why each choice is relevant to the **thesis topic**.
+    ---
+    `,
+
+    researchGaps: (abstracts, thesisDescription, context) => `You are an AI research assistant specializing in academic analysis. Your task is to analyze the following research paper abstracts and identify key **research gaps**, **unexplored areas**, and **potential future directions** for the given thesis topic.
+  
+    ### Thesis Topic:
+    "${thesisDescription}"
+${context}
+
+    ### **Markdown Formatting Guidelines**:
+    Please ensure the LLM text inside the JSON responses includes the following formatting in **GitHub Flavored Markdown** to enhance readability:
+    
+    - **Headings**: Use ### or ## for section headings.
+    - **Bold Text**: Use ** to emphasize important points.
+    - **Lists**: Use - or 1. for unordered or ordered lists respectively.
+    - **Tables**: Use | to create tables for better clarity of data.
+    - **Inline code**: Use backticks for inline code. 
+    - Make important points **bold** to ensure clarity and emphasis.
+    - Where applicable, use **bullet points** or **numerical listings** to organize information logically.
+    - Create **tables** or **other structures** where necessary to make the information clear and dynamic.
+  
+    ---
+    ### Research Paper Abstracts:
+    "${abstracts}"
+  
+    ---
+    ### **Instructions**:
+    1. **Common Themes**: Identify recurring **themes**, **theories**, or **methodologies** in the provided abstracts. Focus on patterns that emerge across the papers that are relevant to the specific thesis topic.
+    
+    2. **Unexplored Areas**: Analyze the abstracts and pinpoint **areas** within the research that have not yet been thoroughly explored or investigated. Consider if there are **new angles**, **data sources**, or **perspectives** that could be added to the current research for the given thesis topic.
+    
+    3. **Open Research Questions**: Based on the analysis, propose **key open questions** that remain unanswered and that are directly related to the thesis topic. Focus on questions that the current research does not address in depth.
+  
+    4. **Future Research Directions**: Suggest **concrete future research directions** that would advance knowledge in the specific area of the thesis. Consider emerging trends, technological advancements, or interdisciplinary approaches.
+  
+    ---
+    ### **Output Format**:
+    \`\`\`json
+    {
+      "commonThemes": ["theme 1", "theme 2"],
+      "unexploredAreas": ["unexplored area 1", "unexplored area 2"],
+      "openResearchQuestions": ["research question 1", "research question 2"],
+      "futureResearchDirections": ["future direction 1", "future direction 2"]
+    }
+    \`\`\`
+    ---  
+    ### **Expected Output**:
+    - A **detailed list of research gaps**, **unexplored areas**, **open questions**, and **future directions** specific to the thesis topic.
+    - **Insights that are deeply connected to the specific research focus**.
+    ---
+    `,
+
+    prosCons: (abstracts, thesisDescription, context) => `You are an AI research assistant specializing in academic evaluation. Your task is to analyze the following research paper abstracts and provide an **in-depth pros and cons analysis** for conducting research in the **specific area** of the given thesis.
+  
+    ### Thesis Topic:
+    "${thesisDescription}"
+${context}
+
+    ### **Markdown Formatting Guidelines**:
+    Please ensure the LLM text inside the JSON responses includes the following formatting in **GitHub Flavored Markdown** to enhance readability:
+    
+    - **Headings**: Use ### or ## for section headings.
+    - **Bold Text**: Use ** to emphasize important points.
+    - **Lists**: Use - or 1. for unordered or ordered lists respectively.
+    - **Tables**: Use | to create tables for better clarity of data.
+    - **Inline code**: Use backticks for inline code. 
+    - Make important points **bold** to ensure clarity and emphasis.
+    - Where applicable, use **bullet points** or **numerical listings** to organize information logically.
+    - Create **tables** or **other structures** where necessary to make the information clear and dynamic.
+  
+    ---
+    ### Research Paper Abstracts:
+    "${abstracts}"
+  
+    ---
+    ### **Instructions**:
+    1. **Pros**:  
+       - Identify the **key advantages** of researching this specific topic, considering its potential **impact**, **relevance**, and **importance** in the academic or practical world. 
+       - Discuss the **strengths** of the field, such as abundant data sources, growing interest, or the possibility of making meaningful contributions to the field.
+  
+    2. **Cons**:  
+       - Analyze the **challenges** and **limitations** of conducting research in this area. These could be related to **data access**, **methodological constraints**, **ethical issues**, or the **complexity** of the topic.
+       - Consider difficulties such as **limited existing literature**, **difficulty in data collection**, or **lack of funding** specific to the research domain.
+  
+    3. **Final Considerations**:  
+       - Provide a **summary** of the research area's **strengths** and **weaknesses**, and offer **final recommendations** for researchers. 
+       - Provide practical suggestions for **overcoming challenges** or **leveraging strengths** in the research process.
+  
+    ---
+    ### **Output Format**:
+    \`\`\`json
+    {
+      "pros": ["key advantage 1", "key advantage 2"],
+      "cons": ["challenge 1", "challenge 2"],
+      "finalConsiderations": "Summary of the research area's strengths and final recommendations."
+    }
+    \`\`\`
+    ---  
+    ### **Expected Output**:
+    - A **balanced pros and cons analysis** that specifically relates to the thesis topic, providing valuable insights into both the **advantages** and **challenges** of researching that area.
+    - **Practical considerations** for overcoming challenges and **capitalizing on strengths** in the research process.
+    ---
+    `,
+
+    effortEstimates: (thesisDescription, steps, context) => `You are an **experienced thesis supervisor** who plans student research projects. Your task is to estimate the **relative effort** of each step of the following thesis roadmap.
+
+    ### Thesis Topic:
+    "${thesisDescription}"
+${context}
+    ### Roadmap Steps:
+    \`\`\`json
+${steps}
+    \`\`\`
+
+    ---
+    ### **Instructions**:
+    1. **Relative Effort**: Give every step a **weight from 1 to 10**, where 1 is a few days of light work and 10 is the most demanding step of the thesis. Weights are compared with each other, so be consistent.
+    2. **Consider**: the amount of **reading**, **data collection**, **analysis** and **writing** each step needs for this specific topic. Data collection and analysis usually take longer than planning steps.
+    3. **Coverage**: Return **exactly one entry per step**, using the same \`stepNumber\` values as above.
+    4. **Rationale**: Add a short one-sentence rationale for each weight.
+
+    ---
+    ### **Output Format**:
+    \`\`\`json
+    [
+      { "stepNumber": 1, "weight": 2, "rationale": "Scoping the research question mostly needs discussion with the supervisor." },
+      { "stepNumber": 2, "weight": 6, "rationale": "The literature on this topic is large and spread across disciplines." }
+    ]
+    \`\`\`
+    ---
+    `,
+
+    // Paper providers search best in English, whatever language the thesis is written in
+    searchKeywords: (thesisDescription) => `You are an **academic librarian** who builds literature searches. The thesis topic below may be written in any language. Your task is to turn it into **English search keywords** for academic databases such as Semantic Scholar and OpenAlex.
+
+    ### Thesis Topic:
+    "${thesisDescription}"
+
+    ---
+    ### **Instructions**:
+    1. **Translate** the core concepts of the topic into the **English terms used in the academic literature**, not word-by-word translations.
+    2. **Keep it short**: return 3 to 8 keywords or short phrases, most important first.
+    3. **Keep proper nouns** (places, organizations, named methods) as they are usually written in English publications.
+
+    ---
+    ### **Output Format**:
+    \`\`\`json
+    { "keywords": ["keyword 1", "keyword 2", "keyword 3"] }
+    \`\`\`
+    ---
+    `,
+
+    repair: (originalPrompt, invalidOutput, validationErrors) => `You are an **expert academic research assistant**. You previously answered the request below, but your output **did not match the required JSON format**. Your task is to return a **corrected version** of your previous output.
+
+    ### **Validation Errors**:
+    Each line gives the path of the invalid field followed by the problem:
+    \`\`\`
+${validationErrors}
+    \`\`\`
+
+    ### **Your Previous Output**:
+    \`\`\`
+${invalidOutput}
+    \`\`\`
+
+    ---
+    ### **Instructions**:
+    1. **Fix every error** listed above. Add missing fields, use the correct types (e.g. numbers for \`stepNumber\` and \`rank\`), and fill empty fields with meaningful content.
+    2. **Keep the content** of your previous output wherever it was valid. Do not shorten or summarize it.
+    3. **Output only the corrected JSON**, following the **Output Format** of the original request exactly. No text before or after the JSON.
+
+    ---
+    ### **Original Request**:
+${originalPrompt}
+    `,
+};
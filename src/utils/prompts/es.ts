@@ -0,0 +1,324 @@
+import { DegreeLevel, MethodologyPreference } from "../thesisProfile";
+import { PromptLocale } from "./promptCatalog";
+
+const DEGREE_GUIDANCE: Record<DegreeLevel, string> = {
+    bachelor: "Trabajo de fin de grado. Limita la hoja de ruta a unos 5 a 8 pasos amplios y alcanzables y prefiere métodos consolidados a contribuciones novedosas.",
+    master: "Tesis de máster. Usa unos 8 a 12 pasos y busca una contribución metodológica o empírica clara y modesta.",
+    phd: "Tesis doctoral. Usa unos 12 a 20 pasos detallados agrupados en fases (por ejemplo, por estudio o capítulo), incluida la aprobación ética, las publicaciones y la defensa cuando corresponda.",
+};
+
+const METHODOLOGY_GUIDANCE: Record<MethodologyPreference, string> = {
+    qualitative: "Cualitativa. Construye la metodología con métodos cualitativos, salvo que el tema lo impida; en ese caso, explica por qué.",
+    quantitative: "Cuantitativa. Construye la metodología con métodos cuantitativos, salvo que el tema lo impida; en ese caso, explica por qué.",
+    mixed: "Métodos mixtos. Combina métodos cualitativos y cuantitativos y explica cómo se integran.",
+    undecided: "Sin decidir. Compara brevemente los enfoques adecuados y recomienda uno.",
+};
+
+const MARKDOWN_GUIDELINES = `
+    ### **Pautas de Formato Markdown**:
+    Formatea el texto dentro de las respuestas JSON en **GitHub Flavored Markdown** para facilitar la lectura:
+
+    - **Encabezados**: Usa ### o ## para los encabezados de sección.
+    - **Negrita**: Usa ** para resaltar los puntos importantes.
+    - **Listas**: Usa - o 1. para listas no ordenadas u ordenadas, respectivamente.
+    - **Tablas**: Usa | para crear tablas cuando aclaren los datos.
+    - **Código en línea**: Usa comillas invertidas para el código en línea.
+    - Pon los puntos importantes en **negrita** para dar claridad y énfasis.
+    - Siempre que sea posible, usa **viñetas** o **listas numeradas** para organizar la información de forma lógica.
+`;
+
+// 🇪🇸 Spanish templates. effortEstimates, searchKeywords and repair fall back to English.
+export const spanishPrompts: PromptLocale = {
+    guidanceBlock: (guidance) => `
+    ### **Indicaciones Adicionales del Estudiante**:
+    El estudiante revisó una versión anterior de esta sección y pidió los siguientes cambios. Síguelos con atención, siempre que no entren en conflicto con el formato de salida:
+    "${guidance}"
+`,
+
+    profileBlock: ({ degreeLevel, discipline, preferredMethodology, timeAvailable, requiredChapters }) => `
+    ### **Perfil del Estudiante**:
+    Adapta el alcance, la profundidad y el vocabulario de tu respuesta a este perfil:
+${[
+    degreeLevel && `    - **Nivel:** ${DEGREE_GUIDANCE[degreeLevel]}`,
+    discipline && `    - **Disciplina:** ${discipline}. Sugiere métodos, fuentes de datos y convenciones habituales en esta disciplina.`,
+    preferredMethodology && `    - **Metodología preferida:** ${METHODOLOGY_GUIDANCE[preferredMethodology]}`,
+    timeAvailable && `    - **Tiempo disponible:** ${timeAvailable.months} mes(es)${timeAvailable.hoursPerWeek ? `, unas ${timeAvailable.hoursPerWeek} horas por semana` : ""}. Ajusta la cantidad y el tamaño de los pasos para que quepan en ese tiempo.`,
+    requiredChapters?.length && `    - **Capítulos obligatorios:** ${requiredChapters.map((chapter) => `"${chapter}"`).join(", ")}. La tesis debe contener estos capítulos; asegúrate de que la hoja de ruta tenga pasos que produzcan cada uno de ellos, con estos nombres.`,
+].filter(Boolean).join("\n")}
+`,
+
+    clarificationsBlock: (clarifications) => `
+    ### **Respuestas del Estudiante a las Preguntas Aclaratorias**:
+    Antes de generar la hoja de ruta, el estudiante respondió a las preguntas siguientes. Adapta tu respuesta a ellas; tienen prioridad sobre cualquier suposición que harías sobre el tema:
+${clarifications.map(({ question, answer }) => `    - **P:** ${question}\n      **R:** ${answer}`).join("\n")}
+`,
+
+    readingNotesBlock: (notes) => `
+    ### **Notas de Lectura del Estudiante**:
+    El estudiante ha leído los artículos siguientes para esta tesis y escribió estas notas. Trátalas como observaciones de primera mano: parte de los vacíos y limitaciones que señalan y no incluyas como vacío nada que las notas muestren que ya está cubierto:
+${notes.map(({ title, rating, tags, notes: text, highlights }) => [
+    `    - **"${title}"**${rating ? ` (relevancia ${rating}/5)` : ""}${tags.length ? ` [${tags.join(", ")}]` : ""}`,
+    text && `      **Notas:** ${text}`,
+    ...highlights.map((highlight) => `      **Cita destacada:** "${highlight.text}"${highlight.note ? ` (${highlight.note})` : ""}`),
+].filter(Boolean).join("\n")).join("\n")}
+`,
+
+    clarifyingQuestions: (thesisDescription, context) => `Eres un **director de tesis con experiencia** que conoce a un estudiante por primera vez. Antes de escribir la hoja de ruta de la tesis siguiente, necesitas entender qué quiere realmente el estudiante. Tu tarea es formular **preguntas aclaratorias**.
+
+    ### **Tema de la Tesis**:
+    "${thesisDescription}"
+${context}
+    ---
+    ### **Instrucciones**:
+    1. Formula **entre 2 y 5 preguntas** cuyas respuestas **cambiarían significativamente** la hoja de ruta. Trata siempre:
+       * **Alcance y Enfoque:** ¿Qué aspecto concreto del tema le interesa más al estudiante?
+       * **Preferencias Metodológicas:** ¿El estudiante prefiere una investigación cualitativa, cuantitativa o de métodos mixtos?
+
+       Omite lo que el perfil del estudiante de arriba ya responde.
+    2. Pregunta por el **acceso a los datos**, la **población** o el **contexto** solo cuando el tema no los defina. Nunca preguntes lo que el tema ya indica.
+    3. Mantén cada pregunta **breve** y que pueda responderse en una o dos frases.
+    4. Da a cada pregunta un **propósito** de una frase que explique cómo la respuesta da forma a la hoja de ruta y, cuando ayude, hasta 4 **respuestas sugeridas** para que el estudiante elija.
+
+    ---
+    ### **Formato de Salida**:
+    Devuelve **solo** el JSON, sin texto antes ni después, manteniendo las claves en inglés:
+    \`\`\`json
+    [
+      {
+        "question": "¿En qué grupo de edad quieres centrarte?",
+        "purpose": "Los estudios con niños pequeños requieren otra forma de recolección de datos y aprobación ética.",
+        "suggestedAnswers": ["Educación infantil (3 a 5 años)", "Educación primaria (6 a 11 años)"]
+      }
+    ]
+    \`\`\`
+    ---
+    `,
+
+    stepByStep: (thesisDescription, context) => `Eres un **asistente experto en investigación académica** especializado en crear hojas de ruta de tesis detalladas y prácticas. Tu *máxima prioridad* es producir una salida JSON válida y analizable. Cualquier otra consideración (creatividad, nivel de detalle) es secundaria a este requisito.
+
+    ### **Tema de la Tesis**:
+    "${thesisDescription}"
+${context}
+
+    ### **Pautas de Formato Markdown**:
+    Usa la sintaxis Markdown para dar formato a todo el texto dentro de las respuestas JSON cuando tenga sentido, para que un intérprete de Markdown (como ReactMarkdown) lo muestre correctamente. Sin embargo, este formato *no debe* comprometer la validez del JSON. Si hay un conflicto, *prioriza la validez del JSON*.
+
+    - **Encabezados:** Usa #, ##, ###, etc., siempre *dentro* de un valor de texto del JSON.
+    - **Énfasis:** Usa *cursiva* o **negrita**, siempre *dentro* de un valor de texto del JSON.
+    - **Listas:** Usa listas con - (no ordenadas) o 1. (ordenadas), siempre *dentro* de un valor de texto del JSON.
+    - **Enlaces:** Usa [texto del enlace](URL), siempre *dentro* de un valor de texto del JSON.
+    - **Código:** Usa \`código en línea\` o \`\`\` para bloques de código, siempre *dentro* de un valor de texto del JSON.
+
+    ### **Reglas de la Salida JSON (CRÍTICO):**
+
+    1.  **JSON COMPLETO:** La salida *debe* ser un array JSON completo y válido. No trunques el JSON ni lo dejes incompleto.
+    2.  **JSON VÁLIDO:** El JSON *debe* poder analizarse con un parser estándar (por ejemplo, 'JSON.parse()' en JavaScript).
+    3.  **COMILLAS:** *Todos* los valores de texto del JSON (títulos, detalles, etc.) *deben* ir entre comillas dobles ('"').
+    4.  **ESCAPE:** Si un valor de texto contiene comillas dobles ('"'), *deben* escaparse con una barra invertida ('\"'). Si contiene una barra invertida ('\'), *debe* escaparse con otra barra invertida ('\\').
+    5.  **SIN COMAS FINALES:** No pongas una coma después del último elemento de un array u objeto.
+    6.  **CODIFICACIÓN UTF-8:** Usa la codificación UTF-8 para que los acentos y caracteres especiales salgan correctamente.
+    7.  **MÍNIMO TEXTO EXTRA:** La salida debe contener *solo* el JSON. No añadas texto antes ni después del JSON.
+
+    ### **Instrucciones**:
+
+    1. **Pasos Detallados y Específicos del Tema:** A partir del tema y de las respuestas del estudiante a las preguntas aclaratorias (cuando se indican arriba), divide el proceso de la tesis en una secuencia de pasos bien definidos y prácticos.
+
+    2. **Orientación Práctica:** Asegúrate de que cada paso ofrezca indicaciones claras y accionables.
+
+    3. **SALIDA JSON OBLIGATORIA:** Presenta la hoja de ruta en el formato JSON estructurado que se muestra abajo.
+
+    ---
+
+    ### **Formato de Salida:**
+
+    Este es un ejemplo del formato JSON. *Estúdialo con cuidado y asegúrate de que tu salida siga exactamente este formato, incluidas las comillas dobles, el escape correcto y la ausencia de comas finales.* Las claves ("stepNumber", "title", "details") se mantienen siempre en inglés.
+
+    \`\`\`json
+    [
+      { "stepNumber": 1, "title": "Definir el Problema de Investigación", "details": "Define con claridad la pregunta de investigación. Por ejemplo, para 'IA en la Educación', la pregunta podría ser: \\"¿La tutoría con IA mejora las notas de matemáticas?\\"" },
+      { "stepNumber": 2, "title": "Revisión de la Literatura", "details": "Revisa la literatura existente. Usa palabras clave como \\"IA\\", \\"educación\\" y \\"matemáticas\\"." },
+      { "stepNumber": 3, "title": "Metodología de Investigación", "details": "Elige una metodología adecuada (por ejemplo, un diseño cuasi-experimental)." }
+    ]
+    \`\`\`
+
+    ---
+
+    ### **Salida Esperada:**
+
+    - **Salida JSON válida y analizable (ABSOLUTAMENTE OBLIGATORIA).**
+    - Pasos prácticos de la hoja de ruta de la tesis (con formato Markdown *cuando sea posible sin comprometer la validez del JSON*).
+    `,
+
+    rankPapers: (thesisDescription, paperDetails, context) => `Eres un **asistente de investigación con IA** especializado en analizar y clasificar artículos científicos. Tu tarea es **clasificar y resumir** los artículos más relevantes para el siguiente tema de tesis:
+
+    ### Tesis:
+    "${thesisDescription}"
+${context}
+${MARKDOWN_GUIDELINES}
+    ---
+    ### Artículos Científicos:
+    Clasifica **solo** los artículos listados aquí. Copia el **título**, los **autores** y el **enlace** de cada artículo (usa \`paperLink\`, o \`url\` cuando esté vacío) exactamente como aparecen, sin traducir el título.
+    \`\`\`json
+${paperDetails}
+    \`\`\`
+
+    ---
+    ### **Instrucciones**:
+    1. **Clasificación por Relevancia**:
+       - Ordena los artículos según su **relevancia directa** para el tema de investigación, considerando la **similitud del enfoque de investigación**, el **enfoque metodológico** y la **fecha de publicación**.
+
+    2. **Resumen**:
+       - Resume cada artículo de forma concisa (50 a 100 palabras), destacando las **principales contribuciones**, **metodologías** y **hallazgos** que informan directamente el tema de la tesis.
+
+    ---
+    ### **Formato de Salida**:
+    Devuelve los resultados en **formato JSON estricto**, manteniendo las claves en inglés:
+    \`\`\`json
+    [
+      {
+        "rank": 1,
+        "title": "Título del Artículo Relevante",
+        "summary": "Resumen de las contribuciones y la metodología del artículo y de cómo se relaciona con el tema de la tesis.",
+        "authors": "Autor A, Autor B",
+        "date": "2023-03-15",
+        "link": "https://example.com/paper-link"
+      }
+    ]
+    \`\`\`
+    ---
+    ### **Salida Esperada**:
+    - Una **lista clasificada de artículos** según su **relevancia** para el tema de la tesis.
+    - Un **resumen conciso** de cada artículo, centrado en cómo puede usarse en la tesis.
+    ---
+    `,
+
+    methodology: (thesisDescription, context) => `Eres experto en metodología de la investigación. Tu tarea es crear una **metodología de investigación a medida** para el siguiente tema de tesis:
+
+    ### **Tema de la Tesis**:
+    "${thesisDescription}"
+${context}
+${MARKDOWN_GUIDELINES}
+    ---
+    ### **Instrucciones**:
+    1. **Enfoque de Investigación**:
+       - Según la naturaleza del problema de investigación, determina si el enfoque **cualitativo, cuantitativo o de métodos mixtos** es el más adecuado.
+       - Justifica en detalle el enfoque elegido a partir de las necesidades concretas del tema.
+       - Si el perfil del estudiante indica una metodología preferida, parte de ella y sugiere métodos adecuados a su disciplina.
+
+    2. **Métodos de Recolección de Datos**:
+       - Sugiere **técnicas de recolección de datos concretas** para esta tesis (por ejemplo, entrevistas y análisis de datos históricos en un estudio de caso).
+       - Explica por qué estos métodos son los más apropiados.
+       - Indica el **tamaño de la muestra**, la **selección de participantes** y las **consideraciones éticas** propias del enfoque de la investigación.
+
+    3. **Técnicas de Análisis de Datos**:
+       - Recomienda **técnicas de análisis** adecuadas al enfoque elegido.
+       - Si es **cuantitativo**, sugiere **herramientas estadísticas** (por ejemplo, análisis de regresión, modelos econométricos, pruebas de hipótesis).
+       - Si es **cualitativo**, sugiere métodos como el **análisis temático**, la **teoría fundamentada** o el **análisis del discurso**.
+       - Si es de **métodos mixtos**, explica cómo se integrarán los datos cualitativos y cuantitativos para responder a las preguntas de investigación.
+
+    ---
+    ### **Formato de Salida**:
+    Tu respuesta debe estar en **formato JSON estricto**, manteniendo las claves en inglés:
+    \`\`\`json
+    {
+      "researchApproach": {
+        "selectedApproach": "descripción del enfoque elegido",
+        "justification": "justificación basada en el tema concreto de la tesis"
+      },
+      "dataCollectionMethods": {
+        "techniques": ["técnica 1", "técnica 2"],
+        "participantSelection": "cómo se seleccionarán los participantes para este enfoque de investigación",
+        "ethicalConsiderations": "consideraciones éticas específicas de la investigación"
+      },
+      "dataAnalysisTechniques": {
+        "analysisMethods": ["método 1", "método 2"],
+        "integration": "cómo se integrarán los datos cualitativos y cuantitativos (en métodos mixtos)"
+      }
+    }
+    \`\`\`
+    ---
+    ### **Salida Esperada**:
+    - Una **metodología a medida** para la **descripción de la tesis**, con orientación sobre el enfoque de investigación, los métodos de recolección y las técnicas de análisis más adecuados.
+    - Explicaciones claras de por qué cada elección es relevante para el **tema de la tesis**.
+    ---
+    `,
+
+    researchGaps: (abstracts, thesisDescription, context) => `Eres un asistente de investigación con IA especializado en análisis académico. Tu tarea es analizar los resúmenes de artículos que aparecen abajo e identificar los principales **vacíos de investigación**, **áreas inexploradas** y **posibles líneas futuras** para el tema de tesis indicado.
+
+    ### Tema de la Tesis:
+    "${thesisDescription}"
+${context}
+${MARKDOWN_GUIDELINES}
+    ---
+    ### Resúmenes de los Artículos:
+    "${abstracts}"
+
+    ---
+    ### **Instrucciones**:
+    1. **Temas Recurrentes**: Identifica **temas**, **teorías** o **metodologías** que se repiten en los resúmenes y que sean relevantes para el tema de la tesis.
+
+    2. **Áreas Inexploradas**: Señala las **áreas** de la investigación que aún no se han estudiado a fondo. Considera **nuevos ángulos**, **fuentes de datos** o **perspectivas** que podrían enriquecer la investigación actual.
+
+    3. **Preguntas de Investigación Abiertas**: Propón las **principales preguntas abiertas** directamente relacionadas con el tema de la tesis que la investigación actual no aborda en profundidad.
+
+    4. **Líneas Futuras**: Sugiere **líneas concretas de investigación futura** que harían avanzar el conocimiento en el área de la tesis, considerando tendencias emergentes, avances tecnológicos o enfoques interdisciplinarios.
+
+    ---
+    ### **Formato de Salida**:
+    Mantén las claves en inglés:
+    \`\`\`json
+    {
+      "commonThemes": ["tema 1", "tema 2"],
+      "unexploredAreas": ["área inexplorada 1", "área inexplorada 2"],
+      "openResearchQuestions": ["pregunta de investigación 1", "pregunta de investigación 2"],
+      "futureResearchDirections": ["línea futura 1", "línea futura 2"]
+    }
+    \`\`\`
+    ---
+    ### **Salida Esperada**:
+    - Una **lista detallada de vacíos de investigación**, **áreas inexploradas**, **preguntas abiertas** y **líneas futuras** específicas del tema de la tesis.
+    - **Análisis profundamente vinculados con el enfoque concreto de la investigación**.
+    ---
+    `,
+
+    prosCons: (abstracts, thesisDescription, context) => `Eres un asistente de investigación con IA especializado en evaluación académica. Tu tarea es analizar los resúmenes de artículos que aparecen abajo y ofrecer un **análisis profundo de pros y contras** de investigar el **área concreta** de la tesis indicada.
+
+    ### Tema de la Tesis:
+    "${thesisDescription}"
+${context}
+${MARKDOWN_GUIDELINES}
+    ---
+    ### Resúmenes de los Artículos:
+    "${abstracts}"
+
+    ---
+    ### **Instrucciones**:
+    1. **Pros**:
+       - Identifica las **principales ventajas** de investigar este tema, considerando su **impacto**, **relevancia** e **importancia** académica o práctica.
+       - Comenta las **fortalezas** del área, como fuentes de datos abundantes, un interés creciente o la posibilidad de hacer contribuciones relevantes.
+
+    2. **Contras**:
+       - Analiza los **desafíos** y las **limitaciones** de investigar esta área, como el **acceso a los datos**, las **restricciones metodológicas**, las **cuestiones éticas** o la **complejidad** del tema.
+       - Considera dificultades como **literatura escasa**, **recolección de datos difícil** o **falta de financiación** en este campo.
+
+    3. **Consideraciones Finales**:
+       - Haz un **resumen** de las **fortalezas** y **debilidades** del área y da **recomendaciones finales** a los investigadores.
+       - Ofrece sugerencias prácticas para **superar los desafíos** o **aprovechar las fortalezas** durante la investigación.
+
+    ---
+    ### **Formato de Salida**:
+    Mantén las claves en inglés:
+    \`\`\`json
+    {
+      "pros": ["ventaja 1", "ventaja 2"],
+      "cons": ["desafío 1", "desafío 2"],
+      "finalConsiderations": "Resumen de las fortalezas del área y recomendaciones finales."
+    }
+    \`\`\`
+    ---
+    ### **Salida Esperada**:
+    - Un **análisis equilibrado de pros y contras** vinculado al tema de la tesis, que muestre tanto las **ventajas** como los **desafíos** de investigar esa área.
+    - **Consideraciones prácticas** para superar los desafíos y **aprovechar las fortalezas** en el proceso de investigación.
+    ---
+    `,
+};
@@ -0,0 +1,61 @@
+import { englishPrompts } from "./en";
+import { portuguesePrompts } from "./pt";
+import { spanishPrompts } from "./es";
+import { Clarification, PromptCatalog, PromptLocale, ReadingNote } from "./promptCatalog";
+
+export { Clarification, PromptCatalog, PromptLocale, ReadingNote };
+
+// --- Languages ---
+
+export const SUPPORTED_LANGUAGES = ["en", "pt", "es"] as const;
+export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
+export const DEFAULT_LANGUAGE: SupportedLanguage = "en";
+
+// English and native names, used to tell the LLM which language to write in
+const LANGUAGE_NAMES: Record<SupportedLanguage, { name: string; nativeName: string }> = {
+    en: { name: "English", nativeName: "English" },
+    pt: { name: "Portuguese", nativeName: "português" },
+    es: { name: "Spanish", nativeName: "español" },
+};
+
+const LOCALES: Record<SupportedLanguage, PromptLocale> = {
+    en: englishPrompts,
+    pt: portuguesePrompts,
+    es: spanishPrompts,
+};
+
+/**
+ * Maps a language tag to a supported language ("pt-BR" -> "pt", "ES" -> "es").
+ * @returns The language, or null when it is not supported.
+ */
+export const normalizeLanguage = (value: unknown): SupportedLanguage | null => {
+    if (typeof value !== "string") return null;
+    const base = value.trim().toLowerCase().split(/[-_]/)[0];
+    return (SUPPORTED_LANGUAGES as readonly string[]).includes(base) ? (base as SupportedLanguage) : null;
+};
+
+// --- Templates ---
+
+/**
+ * The templates of one language, with English filling in the ones it does not translate.
+ */
+export const getPromptCatalog = (language?: string): PromptCatalog => {
+    const locale = LOCALES[normalizeLanguage(language) ?? DEFAULT_LANGUAGE];
+    return { ...englishPrompts, ...locale };
+};
+
+/**
+ * Tells the LLM to write its text in the thesis language while keeping the
+ * output format machine-readable. Empty for English, the templates' default.
+ */
+export const outputLanguageBlock = (language?: string): string => {
+    const code = normalizeLanguage(language) ?? DEFAULT_LANGUAGE;
+    if (code === DEFAULT_LANGUAGE) return "";
+
+    const { name, nativeName } = LANGUAGE_NAMES[code];
+    return `
+    ### **Output Language**:
+    Write **all text content** (titles, details, summaries, lists and every other Markdown string value) in **${name} (${nativeName})**, even where the examples above are in another language.
+    Keep every **JSON key** exactly as shown in the Output Format, in English, and never translate it. Numbers, dates, links and paper titles copied from the input stay unchanged.
+    `;
+};
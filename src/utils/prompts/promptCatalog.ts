@@ -0,0 +1,43 @@
+import { ThesisProfile } from "../thesisProfile";
+
+// --- Prompt Catalog Contract ---
+
+// A clarifying question and the student's answer to it
+export interface Clarification {
+    question: string;
+    answer: string;
+}
+
+// What the student wrote about a paper on their reading list
+export interface ReadingNote {
+    title: string;
+    status: string;
+    rating?: number; // Relevance to the thesis, 1-5
+    tags: string[];
+    notes?: string;
+    highlights: { text: string; note?: string }[];
+}
+
+/**
+ * Every prompt template, in one language. `context` holds the extra sections
+ * rendered by PromptGenerator (e.g. the student's guidance), already in the
+ * catalog's language; templates place it right after the thesis topic.
+ */
+export interface PromptCatalog {
+    guidanceBlock(guidance: string): string;
+    profileBlock(profile: ThesisProfile): string;
+    clarificationsBlock(clarifications: Clarification[]): string;
+    readingNotesBlock(notes: ReadingNote[]): string;
+    clarifyingQuestions(thesisDescription: string, context: string): string;
+    stepByStep(thesisDescription: string, context: string): string;
+    rankPapers(thesisDescription: string, paperDetails: string, context: string): string;
+    methodology(thesisDescription: string, context: string): string;
+    researchGaps(abstracts: string, thesisDescription: string, context: string): string;
+    prosCons(abstracts: string, thesisDescription: string, context: string): string;
+    effortEstimates(thesisDescription: string, steps: string, context: string): string;
+    searchKeywords(thesisDescription: string): string;
+    repair(originalPrompt: string, invalidOutput: string, validationErrors: string): string;
+}
+
+// Locales only translate what they need; missing templates fall back to English
+export type PromptLocale = Partial<PromptCatalog>;
@@ -0,0 +1,324 @@
+import { DegreeLevel, MethodologyPreference } from "../thesisProfile";
+import { PromptLocale } from "./promptCatalog";
+
+const DEGREE_GUIDANCE: Record<DegreeLevel, string> = {
+    bachelor: "Trabalho de conclusão de curso (graduação). Limite o roteiro a cerca de 5 a 8 etapas amplas e viáveis e prefira métodos consolidados a contribuições inéditas.",
+    master: "Dissertação de mestrado. Use cerca de 8 a 12 etapas e busque uma contribuição metodológica ou empírica clara e modesta.",
+    phd: "Tese de doutorado. Use cerca de 12 a 20 etapas detalhadas, agrupadas em fases (por exemplo, por estudo ou capítulo), incluindo aprovação ética, publicações e a defesa quando for o caso.",
+};
+
+const METHODOLOGY_GUIDANCE: Record<MethodologyPreference, string> = {
+    qualitative: "Qualitativa. Construa a metodologia com métodos qualitativos, a menos que o tema os torne inviáveis; nesse caso, explique por quê.",
+    quantitative: "Quantitativa. Construa a metodologia com métodos quantitativos, a menos que o tema os torne inviáveis; nesse caso, explique por quê.",
+    mixed: "Métodos mistos. Combine métodos qualitativos e quantitativos e explique como eles se integram.",
+    undecided: "Indefinida. Compare brevemente as abordagens adequadas e recomende uma.",
+};
+
+const MARKDOWN_GUIDELINES = `
+    ### **Diretrizes de Formatação Markdown**:
+    Formate o texto dentro das respostas JSON em **GitHub Flavored Markdown** para facilitar a leitura:
+
+    - **Títulos**: Use ### ou ## para títulos de seção.
+    - **Negrito**: Use ** para destacar pontos importantes.
+    - **Listas**: Use - ou 1. para listas não ordenadas ou ordenadas, respectivamente.
+    - **Tabelas**: Use | para criar tabelas quando deixarem os dados mais claros.
+    - **Código inline**: Use crases para código inline.
+    - Coloque os pontos importantes em **negrito** para dar clareza e ênfase.
+    - Sempre que possível, use **marcadores** ou **listas numeradas** para organizar as informações de forma lógica.
+`;
+
+// 🇧🇷 Portuguese templates. effortEstimates, searchKeywords and repair fall back to English.
+export const portuguesePrompts: PromptLocale = {
+    guidanceBlock: (guidance) => `
+    ### **Orientações Adicionais do Estudante**:
+    O estudante revisou uma versão anterior desta seção e pediu as alterações abaixo. Siga-as com atenção, desde que não entrem em conflito com o formato de saída:
+    "${guidance}"
+`,
+
+    profileBlock: ({ degreeLevel, discipline, preferredMethodology, timeAvailable, requiredChapters }) => `
+    ### **Perfil do Estudante**:
+    Adapte o escopo, a profundidade e o vocabulário da sua resposta a este perfil:
+${[
+    degreeLevel && `    - **Nível:** ${DEGREE_GUIDANCE[degreeLevel]}`,
+    discipline && `    - **Área:** ${discipline}. Sugira métodos, fontes de dados e convenções usuais nesta área.`,
+    preferredMethodology && `    - **Metodologia preferida:** ${METHODOLOGY_GUIDANCE[preferredMethodology]}`,
+    timeAvailable && `    - **Tempo disponível:** ${timeAvailable.months} mês(es)${timeAvailable.hoursPerWeek ? `, cerca de ${timeAvailable.hoursPerWeek} horas por semana` : ""}. Ajuste a quantidade e o tamanho das etapas para caberem nesse tempo.`,
+    requiredChapters?.length && `    - **Capítulos obrigatórios:** ${requiredChapters.map((chapter) => `"${chapter}"`).join(", ")}. A tese deve conter esses capítulos; garanta que o roteiro tenha etapas que produzam cada um deles, usando esses nomes.`,
+].filter(Boolean).join("\n")}
+`,
+
+    clarificationsBlock: (clarifications) => `
+    ### **Respostas do Estudante às Perguntas de Esclarecimento**:
+    Antes de o roteiro ser gerado, o estudante respondeu às perguntas abaixo. Adapte sua resposta a elas; elas têm prioridade sobre qualquer suposição que você faria sobre o tema:
+${clarifications.map(({ question, answer }) => `    - **P:** ${question}\n      **R:** ${answer}`).join("\n")}
+`,
+
+    readingNotesBlock: (notes) => `
+    ### **Anotações de Leitura do Estudante**:
+    O estudante leu os artigos abaixo para esta tese e escreveu estas anotações. Trate-as como observações de primeira mão: parta das lacunas e limitações que elas apontam e não liste como lacuna nada que as anotações mostrem já estar coberto:
+${notes.map(({ title, rating, tags, notes: text, highlights }) => [
+    `    - **"${title}"**${rating ? ` (relevância ${rating}/5)` : ""}${tags.length ? ` [${tags.join(", ")}]` : ""}`,
+    text && `      **Anotações:** ${text}`,
+    ...highlights.map((highlight) => `      **Destaque:** "${highlight.text}"${highlight.note ? ` (${highlight.note})` : ""}`),
+].filter(Boolean).join("\n")).join("\n")}
+`,
+
+    clarifyingQuestions: (thesisDescription, context) => `Você é um **orientador de tese experiente** conhecendo um estudante pela primeira vez. Antes de escrever o roteiro da tese abaixo, você precisa entender o que o estudante realmente quer. Sua tarefa é fazer **perguntas de esclarecimento**.
+
+    ### **Tema da Tese**:
+    "${thesisDescription}"
+${context}
+    ---
+    ### **Instruções**:
+    1. Faça **de 2 a 5 perguntas** cujas respostas **mudariam significativamente** o roteiro. Sempre trate de:
+       * **Escopo e Foco:** Qual aspecto específico do tema mais interessa ao estudante?
+       * **Preferências Metodológicas:** O estudante prefere pesquisa qualitativa, quantitativa ou métodos mistos?
+
+       Pule o que o perfil do estudante acima já responde.
+    2. Pergunte sobre **acesso a dados**, **população** ou **contexto** apenas quando o tema não os definir. Nunca pergunte o que o tema já informa.
+    3. Mantenha cada pergunta **curta** e respondível em uma ou duas frases.
+    4. Dê a cada pergunta um **propósito** de uma frase explicando como a resposta molda o roteiro e, quando ajudar, até 4 **respostas sugeridas** para o estudante escolher.
+
+    ---
+    ### **Formato de Saída**:
+    Retorne **apenas** o JSON, sem texto antes ou depois, mantendo as chaves em inglês:
+    \`\`\`json
+    [
+      {
+        "question": "Em qual faixa etária você quer se concentrar?",
+        "purpose": "Estudos com crianças pequenas exigem outra forma de coleta de dados e aprovação ética.",
+        "suggestedAnswers": ["Educação infantil (3 a 5 anos)", "Ensino fundamental I (6 a 10 anos)"]
+      }
+    ]
+    \`\`\`
+    ---
+    `,
+
+    stepByStep: (thesisDescription, context) => `Você é um **assistente de pesquisa acadêmica especialista** em criar roteiros de tese detalhados e práticos. Sua *maior prioridade* é produzir uma saída JSON válida e interpretável. Qualquer outra consideração (criatividade, nível de detalhe) é secundária a esse requisito.
+
+    ### **Tema da Tese**:
+    "${thesisDescription}"
+${context}
+
+    ### **Diretrizes de Formatação Markdown**:
+    Use a sintaxe Markdown para formatar todo o texto dentro das respostas JSON quando fizer sentido, para que o conteúdo seja exibido corretamente por um interpretador Markdown (como o ReactMarkdown). Essa formatação, porém, *não pode* comprometer a validade do JSON. Em caso de conflito, *priorize a validade do JSON*.
+
+    - **Títulos:** Use #, ##, ### etc. para títulos, sempre *dentro* de um valor de texto do JSON.
+    - **Ênfase:** Use *itálico* ou **negrito** para dar ênfase, sempre *dentro* de um valor de texto do JSON.
+    - **Listas:** Use listas com - (não ordenadas) ou 1. (ordenadas), sempre *dentro* de um valor de texto do JSON.
+    - **Links:** Use [texto do link](URL), sempre *dentro* de um valor de texto do JSON.
+    - **Código:** Use \`código inline\` ou \`\`\` para blocos de código, sempre *dentro* de um valor de texto do JSON.
+
+    ### **Regras da Saída JSON (CRÍTICO):**
+
+    1.  **JSON COMPLETO:** A saída *deve* ser um array JSON completo e válido. Não trunque o JSON nem o deixe incompleto.
+    2.  **JSON VÁLIDO:** O JSON *deve* ser interpretável por um parser padrão (por exemplo, 'JSON.parse()' em JavaScript).
+    3.  **ASPAS:** *Todos* os valores de texto do JSON (títulos, detalhes etc.) *devem* estar entre aspas duplas ('"').
+    4.  **ESCAPE:** Se um valor de texto contiver aspas duplas ('"'), elas *devem* ser escapadas com barra invertida ('\"'). Se contiver uma barra invertida ('\'), ela *deve* ser escapada com outra barra invertida ('\\').
+    5.  **SEM VÍRGULAS FINAIS:** Não coloque vírgula após o último elemento de um array ou objeto.
+    6.  **CODIFICAÇÃO UTF-8:** Use a codificação UTF-8 para que acentos e caracteres especiais saiam corretos.
+    7.  **MÍNIMO DE TEXTO EXTRA:** A saída deve conter *apenas* o JSON. Não adicione texto antes ou depois do JSON.
+
+    ### **Instruções**:
+
+    1. **Etapas Detalhadas e Específicas do Tema:** Com base no tema e nas respostas do estudante às perguntas de esclarecimento (quando informadas acima), divida o processo da tese em uma sequência de etapas bem definidas e práticas.
+
+    2. **Orientação Prática:** Garanta que cada etapa traga orientações claras e acionáveis.
+
+    3. **SAÍDA JSON OBRIGATÓRIA:** Apresente o roteiro no formato JSON estruturado mostrado abaixo.
+
+    ---
+
+    ### **Formato de Saída:**
+
+    Veja um exemplo do formato JSON. *Estude-o com cuidado e garanta que sua saída siga exatamente este formato, incluindo as aspas duplas, o escape correto e a ausência de vírgulas finais.* As chaves ("stepNumber", "title", "details") ficam sempre em inglês.
+
+    \`\`\`json
+    [
+      { "stepNumber": 1, "title": "Definir o Problema de Pesquisa", "details": "Defina com clareza a pergunta de pesquisa. Por exemplo, para 'IA na Educação', a pergunta poderia ser: \\"A tutoria com IA melhora as notas de matemática?\\"" },
+      { "stepNumber": 2, "title": "Revisão de Literatura", "details": "Revise a literatura existente. Use palavras-chave como \\"IA\\", \\"educação\\" e \\"matemática\\"." },
+      { "stepNumber": 3, "title": "Metodologia de Pesquisa", "details": "Escolha uma metodologia adequada (por exemplo, um delineamento quase-experimental)." }
+    ]
+    \`\`\`
+
+    ---
+
+    ### **Saída Esperada:**
+
+    - **Saída JSON válida e interpretável (ABSOLUTAMENTE OBRIGATÓRIA).**
+    - Etapas práticas do roteiro da tese (formatadas em Markdown *quando possível sem comprometer a validade do JSON*).
+    `,
+
+    rankPapers: (thesisDescription, paperDetails, context) => `Você é um **assistente de pesquisa com IA** especializado em analisar e classificar artigos científicos. Sua tarefa é **classificar e resumir** os artigos mais relevantes para o seguinte tema de tese:
+
+    ### Tese:
+    "${thesisDescription}"
+${context}
+${MARKDOWN_GUIDELINES}
+    ---
+    ### Artigos Científicos:
+    Classifique **somente** os artigos listados aqui. Copie o **título**, os **autores** e o **link** de cada artigo (use \`paperLink\`, ou \`url\` quando estiver vazio) exatamente como aparecem, sem traduzir o título.
+    \`\`\`json
+${paperDetails}
+    \`\`\`
+
+    ---
+    ### **Instruções**:
+    1. **Classificação por Relevância**:
+       - Ordene os artigos pela **relevância direta** para o tema da pesquisa, considerando a **semelhança do foco de pesquisa**, a **abordagem metodológica** e a **data de publicação**.
+
+    2. **Resumo**:
+       - Resuma cada artigo de forma concisa (50 a 100 palavras), destacando as **principais contribuições**, **metodologias** e **resultados** que informam diretamente o tema da tese.
+
+    ---
+    ### **Formato de Saída**:
+    Retorne os resultados em **formato JSON estrito**, mantendo as chaves em inglês:
+    \`\`\`json
+    [
+      {
+        "rank": 1,
+        "title": "Título do Artigo Relevante",
+        "summary": "Resumo das contribuições e da metodologia do artigo e de como ele se relaciona com o tema da tese.",
+        "authors": "Autor A, Autor B",
+        "date": "2023-03-15",
+        "link": "https://example.com/paper-link"
+      }
+    ]
+    \`\`\`
+    ---
+    ### **Saída Esperada**:
+    - Uma **lista classificada de artigos** de acordo com a **relevância** para o tema da tese.
+    - Um **resumo conciso** de cada artigo, focado em como ele pode ser usado na tese.
+    ---
+    `,
+
+    methodology: (thesisDescription, context) => `Você é especialista em metodologia de pesquisa. Sua tarefa é criar uma **metodologia de pesquisa sob medida** para o seguinte tema de tese:
+
+    ### **Tema da Tese**:
+    "${thesisDescription}"
+${context}
+${MARKDOWN_GUIDELINES}
+    ---
+    ### **Instruções**:
+    1. **Abordagem de Pesquisa**:
+       - Com base na natureza do problema de pesquisa, determine se a abordagem **qualitativa, quantitativa ou de métodos mistos** é a mais adequada.
+       - Justifique em detalhe a abordagem escolhida a partir das necessidades específicas do tema.
+       - Se o perfil do estudante indicar uma metodologia preferida, parta dela e sugira métodos adequados à área do estudante.
+
+    2. **Métodos de Coleta de Dados**:
+       - Sugira **técnicas de coleta de dados específicas** para esta tese (por exemplo, entrevistas e análise de dados históricos em um estudo de caso).
+       - Explique por que esses métodos são os mais apropriados.
+       - Indique o **tamanho da amostra**, a **seleção de participantes** e as **considerações éticas** próprias do foco da pesquisa.
+
+    3. **Técnicas de Análise de Dados**:
+       - Recomende **técnicas de análise** adequadas à abordagem escolhida.
+       - Se for **quantitativa**, sugira **ferramentas estatísticas** (por exemplo, análise de regressão, modelos econométricos, testes de hipótese).
+       - Se for **qualitativa**, sugira métodos como **análise temática**, **teoria fundamentada** ou **análise do discurso**.
+       - Se for de **métodos mistos**, explique como os dados qualitativos e quantitativos serão integrados para responder às perguntas de pesquisa.
+
+    ---
+    ### **Formato de Saída**:
+    Sua resposta deve estar em **formato JSON estrito**, mantendo as chaves em inglês:
+    \`\`\`json
+    {
+      "researchApproach": {
+        "selectedApproach": "descrição da abordagem escolhida",
+        "justification": "justificativa com base no tema específico da tese"
+      },
+      "dataCollectionMethods": {
+        "techniques": ["técnica 1", "técnica 2"],
+        "participantSelection": "como os participantes serão selecionados para este foco de pesquisa",
+        "ethicalConsiderations": "considerações éticas específicas da pesquisa"
+      },
+      "dataAnalysisTechniques": {
+        "analysisMethods": ["método 1", "método 2"],
+        "integration": "como os dados qualitativos e quantitativos serão integrados (em métodos mistos)"
+      }
+    }
+    \`\`\`
+    ---
+    ### **Saída Esperada**:
+    - Uma **metodologia sob medida** para a **descrição da tese**, com orientações sobre a abordagem de pesquisa, os métodos de coleta e as técnicas de análise mais adequados.
+    - Explicações claras de por que cada escolha é relevante para o **tema da tese**.
+    ---
+    `,
+
+    researchGaps: (abstracts, thesisDescription, context) => `Você é um assistente de pesquisa com IA especializado em análise acadêmica. Sua tarefa é analisar os resumos de artigos abaixo e identificar as principais **lacunas de pesquisa**, **áreas inexploradas** e **possíveis direções futuras** para o tema de tese indicado.
+
+    ### Tema da Tese:
+    "${thesisDescription}"
+${context}
+${MARKDOWN_GUIDELINES}
+    ---
+    ### Resumos dos Artigos:
+    "${abstracts}"
+
+    ---
+    ### **Instruções**:
+    1. **Temas Recorrentes**: Identifique **temas**, **teorias** ou **metodologias** que se repetem nos resumos e que sejam relevantes para o tema da tese.
+
+    2. **Áreas Inexploradas**: Aponte as **áreas** da pesquisa que ainda não foram investigadas a fundo. Considere **novos ângulos**, **fontes de dados** ou **perspectivas** que poderiam enriquecer a pesquisa atual.
+
+    3. **Perguntas de Pesquisa em Aberto**: Proponha as **principais perguntas em aberto** diretamente ligadas ao tema da tese e que a pesquisa atual não aborda em profundidade.
+
+    4. **Direções Futuras**: Sugira **direções concretas de pesquisa futura** que fariam avançar o conhecimento na área da tese, considerando tendências emergentes, avanços tecnológicos ou abordagens interdisciplinares.
+
+    ---
+    ### **Formato de Saída**:
+    Mantenha as chaves em inglês:
+    \`\`\`json
+    {
+      "commonThemes": ["tema 1", "tema 2"],
+      "unexploredAreas": ["área inexplorada 1", "área inexplorada 2"],
+      "openResearchQuestions": ["pergunta de pesquisa 1", "pergunta de pesquisa 2"],
+      "futureResearchDirections": ["direção futura 1", "direção futura 2"]
+    }
+    \`\`\`
+    ---
+    ### **Saída Esperada**:
+    - Uma **lista detalhada de lacunas de pesquisa**, **áreas inexploradas**, **perguntas em aberto** e **direções futuras** específicas do tema da tese.
+    - **Análises profundamente ligadas ao foco específico da pesquisa**.
+    ---
+    `,
+
+    prosCons: (abstracts, thesisDescription, context) => `Você é um assistente de pesquisa com IA especializado em avaliação acadêmica. Sua tarefa é analisar os resumos de artigos abaixo e apresentar uma **análise aprofundada de prós e contras** de pesquisar a **área específica** da tese indicada.
+
+    ### Tema da Tese:
+    "${thesisDescription}"
+${context}
+${MARKDOWN_GUIDELINES}
+    ---
+    ### Resumos dos Artigos:
+    "${abstracts}"
+
+    ---
+    ### **Instruções**:
+    1. **Prós**:
+       - Identifique as **principais vantagens** de pesquisar este tema, considerando seu **impacto**, **relevância** e **importância** acadêmica ou prática.
+       - Discuta os **pontos fortes** da área, como fontes de dados abundantes, interesse crescente ou a possibilidade de contribuições relevantes.
+
+    2. **Contras**:
+       - Analise os **desafios** e as **limitações** de pesquisar esta área, como **acesso a dados**, **restrições metodológicas**, **questões éticas** ou a **complexidade** do tema.
+       - Considere dificuldades como **literatura escassa**, **coleta de dados difícil** ou **falta de financiamento** neste domínio.
+
+    3. **Considerações Finais**:
+       - Faça um **resumo** dos **pontos fortes** e **fracos** da área e dê **recomendações finais** aos pesquisadores.
+       - Ofereça sugestões práticas para **superar os desafios** ou **aproveitar os pontos fortes** ao longo da pesquisa.
+
+    ---
+    ### **Formato de Saída**:
+    Mantenha as chaves em inglês:
+    \`\`\`json
+    {
+      "pros": ["vantagem 1", "vantagem 2"],
+      "cons": ["desafio 1", "desafio 2"],
+      "finalConsiderations": "Resumo dos pontos fortes da área e recomendações finais."
+    }
+    \`\`\`
+    ---
+    ### **Saída Esperada**:
+    - Uma **análise equilibrada de prós e contras** ligada ao tema da tese, mostrando tanto as **vantagens** quanto os **desafios** de pesquisar essa área.
+    - **Considerações práticas** para superar os desafios e **aproveitar os pontos fortes** no processo de pesquisa.
+    ---
+    `,
+};
@@ -0,0 +1,88 @@
+import dotenv from "dotenv";
+import RateLimitCounter from "../models/RateLimitCounter";
+import { UserRole } from "../models/User";
+
+dotenv.config();
+
+export interface LimitResult {
+    allowed: boolean;
+    limit: number;
+    used: number;
+    remaining: number;
+    resetAt: Date;
+}
+
+// --- Windows ---
+
+export interface Window {
+    id: string; // Part of the counter key
+    start: Date;
+    end: Date;
+}
+
+export const fixedWindow = (windowMs: number, now = new Date()): Window => {
+    const start = Math.floor(now.getTime() / windowMs) * windowMs;
+    return { id: String(start), start: new Date(start), end: new Date(start + windowMs) };
+};
+
+// Calendar month in UTC, e.g. "2026-10"
+export const monthWindow = (now = new Date()): Window => {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    return { id: start.toISOString().slice(0, 7), start, end };
+};
+
+// --- Counters ---
+
+const EXPIRY_GRACE_MS = 60 * 60 * 1000; // Keep counters an hour past their window for inspection
+
+/**
+ * Counts one hit against `key` in `window`, atomically and only while under `limit`,
+ * so concurrent requests on several instances can't overshoot.
+ */
+export const consumeLimit = async (key: string, limit: number, window: Window): Promise<LimitResult> => {
+    const counterKey = `${key}:${window.id}`;
+    try {
+        const counter = await RateLimitCounter.findOneAndUpdate(
+            { key: counterKey, count: { $lt: limit } },
+            {
+                $inc: { count: 1 },
+                $setOnInsert: { resetAt: window.end, expiresAt: new Date(window.end.getTime() + EXPIRY_GRACE_MS) },
+            },
+            { upsert: true, new: true }
+        );
+        return { allowed: true, limit, used: counter.count, remaining: Math.max(0, limit - counter.count), resetAt: window.end };
+    } catch (error: any) {
+        // The counter exists but is full: the conditional upsert collides with the unique key
+        if (error?.code !== 11000) throw error;
+        return { allowed: false, limit, used: limit, remaining: 0, resetAt: window.end };
+    }
+};
+
+// Current usage without counting a hit
+export const peekLimit = async (key: string, limit: number, window: Window): Promise<LimitResult> => {
+    const counter = await RateLimitCounter.findOne({ key: `${key}:${window.id}` });
+    const used = counter?.count ?? 0;
+    return { allowed: used < limit, limit, used, remaining: Math.max(0, limit - used), resetAt: window.end };
+};
+
+// Give back a hit, e.g. when the counted request failed
+export const refundLimit = async (key: string, window: Window) => {
+    await RateLimitCounter.updateOne({ key: `${key}:${window.id}`, count: { $gt: 0 } }, { $inc: { count: -1 } });
+};
+
+// --- Monthly generation quota ---
+
+// Full roadmap generations per calendar month; override with GENERATION_QUOTA_<ROLE> (0 = unlimited)
+const DEFAULT_GENERATION_QUOTA: Record<UserRole, number> = {
+    student: 10,
+    advisor: 20,
+    admin: 0,
+};
+
+export const getGenerationQuota = (role: UserRole): number => {
+    const configured = process.env[`GENERATION_QUOTA_${role.toUpperCase()}`];
+    return configured !== undefined && configured !== "" ? Number(configured) : DEFAULT_GENERATION_QUOTA[role];
+};
+
+export const generationQuotaKey = (userId: string) => `quota-generation:${userId}`;
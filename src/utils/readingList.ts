@@ -0,0 +1,169 @@
+import mongoose from "mongoose";
+import Paper, { IPaper } from "../models/Paper";
+import ReadingItem, { READING_STATUSES } from "../models/ReadingItem";
+import { IThesis } from "../models/Thesis";
+import { normalizeDoi } from "./paperMerge";
+import { ReadingNote } from "./prompts";
+import { array, Infer, number, object, oneOf, optional, string } from "./schema";
+import { findSourcePaper } from "./thesisSections";
+
+// --- Reading List ---
+
+const MAX_TAGS = 20;
+const MAX_HIGHLIGHTS = 200;
+// Keeps the research-gap prompt a reasonable size
+const MAX_PROMPT_ITEMS = 15;
+const MAX_PROMPT_NOTE_LENGTH = 1500;
+const MAX_PROMPT_HIGHLIGHTS = 5;
+
+const truncate = (value: string, length: number) => (value.length > length ? `${value.slice(0, length)}…` : value);
+
+export const paperInputSchema = object({
+    title: string({ min: 1, max: 500 }),
+    authors: optional(string({ max: 2000 })),
+    year: optional(number({ integer: true, min: 1000, max: 3000 })),
+    doi: optional(string({ max: 200 })),
+    url: optional(string({ max: 2000 })),
+    abstract: optional(string({ max: 20000 })),
+});
+
+export type PaperInput = Infer<typeof paperInputSchema> & Partial<Pick<IPaper, "citationCount" | "pdfLink" | "externalIds">>;
+
+const highlightSchema = object({
+    text: string({ min: 1, max: 5000 }),
+    note: optional(string({ max: 2000 })),
+    page: optional(number({ integer: true, min: 1 })),
+});
+
+// Fields the student edits on an item; null clears notes and rating
+export const readingItemFields = {
+    status: optional(oneOf(READING_STATUSES)),
+    tags: optional(array(string({ min: 1, max: 50 }), { max: MAX_TAGS })),
+    highlights: optional(array(highlightSchema, { max: MAX_HIGHLIGHTS })),
+    notes: optional(string({ max: 20000 })),
+    rating: optional(number({ integer: true, min: 1, max: 5 })),
+};
+
+export const readingItemUpdateSchema = object(readingItemFields);
+
+export type ReadingItemUpdate = Infer<typeof readingItemUpdateSchema>;
+
+// Tags are matched case-insensitively, so they are stored lowercase and once
+export const normalizeTags = (tags: string[]) => [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+/**
+ * Normalizes a paper URL so the same page always gives the same key:
+ * lowercase host, no scheme, "www.", fragment or trailing slash.
+ * @returns The normalized URL, or undefined if the value isn't an http(s) URL.
+ */
+export const normalizePaperUrl = (url?: string | null): string | undefined => {
+    if (!url) return undefined;
+    try {
+        const parsed = new URL(url.trim());
+        if (!["http:", "https:"].includes(parsed.protocol)) return undefined;
+        const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+        return `${host}${parsed.pathname.replace(/\/+$/, "")}${parsed.search}`;
+    } catch {
+        return undefined;
+    }
+};
+
+const findExistingPaper = (doi?: string, url?: string) => {
+    const conditions = [...(doi ? [{ doi }] : []), ...(url ? [{ url }] : [])];
+    return conditions.length > 0 ? Paper.findOne({ $or: conditions }) : null;
+};
+
+/**
+ * Returns the stored paper with the same DOI (or else URL) as `input`, creating it when
+ * there is none. Fields missing on the stored paper are filled in from `input`.
+ */
+export const findOrCreatePaper = async (input: PaperInput): Promise<IPaper> => {
+    const doi = normalizeDoi(input.doi);
+    const url = normalizePaperUrl(input.url);
+    const fields = { ...input, doi, url };
+
+    const existing = await findExistingPaper(doi, url);
+    if (existing) {
+        for (const [key, value] of Object.entries(fields)) {
+            if (value !== undefined && existing.get(key) === undefined) existing.set(key, value);
+        }
+        return existing.isModified() ? existing.save() : existing;
+    }
+
+    try {
+        return await Paper.create(fields);
+    } catch (error: any) {
+        // Added by a concurrent request in the meantime
+        if (error.code === 11000) {
+            const created = await findExistingPaper(doi, url);
+            if (created) return created;
+        }
+        throw error;
+    }
+};
+
+// A related paper of a generated roadmap, completed with the abstract and ids of its source paper
+export const paperFromRelatedPaper = (thesis: IThesis, related: IThesis["relatedPapers"][number]): PaperInput => {
+    const source = findSourcePaper(related, thesis.sourcePapers);
+    return {
+        title: related.title,
+        authors: related.author,
+        year: related.year,
+        doi: related.doi || source?.doi,
+        url: related.link || source?.paperLink || source?.url,
+        abstract: source?.abstract,
+        citationCount: source?.citationCount,
+        pdfLink: source?.pdfLink,
+        externalIds: source?.externalIds,
+    };
+};
+
+/**
+ * Keeps what students read for a deleted thesis on their reading lists, outside any thesis.
+ * A paper already saved outside a thesis keeps that copy (one item per user, paper and thesis).
+ */
+export const detachReadingItems = async (thesisId: mongoose.Types.ObjectId | string): Promise<void> => {
+    const items = await ReadingItem.find({ thesis: thesisId }).select("user paper");
+    if (!items.length) return;
+
+    const existing = await ReadingItem.find({
+        thesis: null,
+        $or: items.map(({ user, paper }) => ({ user, paper })),
+    }).select("user paper");
+    const taken = new Set(existing.map(({ user, paper }) => `${user}:${paper}`));
+    const duplicates = items.filter(({ user, paper }) => taken.has(`${user}:${paper}`)).map(({ _id }) => _id);
+
+    if (duplicates.length) await ReadingItem.deleteMany({ _id: { $in: duplicates } });
+    await ReadingItem.updateMany({ thesis: thesisId }, { $set: { thesis: null } });
+};
+
+/**
+ * Notes and highlights the given users wrote on the papers they read for a thesis,
+ * most relevant first. Discarded papers are left out.
+ * Reading lists are private: only pass the requesting user and the thesis owner.
+ */
+export const getReadingNotes = async (
+    thesisId: mongoose.Types.ObjectId | string,
+    userIds: (mongoose.Types.ObjectId | string)[]
+): Promise<ReadingNote[]> => {
+    const items = await ReadingItem.find({
+        thesis: thesisId,
+        user: { $in: userIds },
+        status: { $ne: "discarded" },
+        $or: [{ notes: { $nin: [null, ""] } }, { "highlights.0": { $exists: true } }],
+    })
+        .populate<{ paper: IPaper }>("paper", "title")
+        .sort({ rating: -1, updatedAt: -1 })
+        .limit(MAX_PROMPT_ITEMS);
+
+    return items
+        .filter((item) => item.paper)
+        .map((item) => ({
+            title: item.paper.title,
+            status: item.status,
+            rating: item.rating,
+            tags: item.tags,
+            notes: item.notes?.trim() ? truncate(item.notes.trim(), MAX_PROMPT_NOTE_LENGTH) : undefined,
+            highlights: item.highlights.slice(0, MAX_PROMPT_HIGHLIGHTS).map(({ text, note }) => ({ text, note })),
+        }));
+};
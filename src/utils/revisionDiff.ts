@@ -0,0 +1,120 @@
+import { RevisionSnapshot } from "../models/ThesisRevision";
+import { normalizeDoi, normalizeTitle, titleSimilarity } from "./paperMerge";
+
+type Step = RevisionSnapshot["roadmap"][number];
+
+export interface StepChange {
+    stepNumber: number;
+    title: string;
+}
+
+export interface RevisionDiff {
+    steps: {
+        added: StepChange[];
+        removed: StepChange[];
+        reworded: { stepNumber: number; before: Pick<Step, "title" | "details">; after: Pick<Step, "title" | "details"> }[];
+        renumbered: { title: string; from: number; to: number }[];
+    };
+    papers: {
+        added: { title: string; doi?: string }[];
+        removed: { title: string; doi?: string }[];
+    };
+    // Dotted paths of the values that changed inside the JSON sections
+    sections: Record<"methodology" | "researchGapAnalysis" | "prosAndCons", string[]>;
+    timeline: {
+        added: string[];
+        removed: string[];
+        moved: { milestone: string; from: string; to: string }[];
+    };
+}
+
+const STEP_MATCH_THRESHOLD = 0.6; // Below this a renamed step counts as removed + added
+
+// Pair each "after" step with a "before" step: same id, then same or similar title
+const matchSteps = (before: Step[], after: Step[]) => {
+    const unmatched = [...before];
+    const take = (predicate: (step: Step) => boolean) => {
+        const index = unmatched.findIndex(predicate);
+        return index >= 0 ? unmatched.splice(index, 1)[0] : undefined;
+    };
+
+    const pairs = after.map((step) => ({ after: step, before: step._id ? take((old) => old._id === step._id) : undefined }));
+    for (const pair of pairs.filter((entry) => !entry.before)) {
+        const title = normalizeTitle(pair.after.title);
+        pair.before =
+            take((old) => normalizeTitle(old.title) === title) ||
+            take((old) => titleSimilarity(normalizeTitle(old.title), title) >= STEP_MATCH_THRESHOLD);
+    }
+    return { pairs, removed: unmatched };
+};
+
+const paperKey = (paper: Record<string, any>) => {
+    const doi = normalizeDoi(paper.doi);
+    return doi ? `doi:${doi}` : `title:${normalizeTitle(paper.title || "")}`;
+};
+
+// Leaf paths whose values differ between two JSON values
+const changedPaths = (before: unknown, after: unknown, path = ""): string[] => {
+    const isObject = (value: unknown) => value !== null && typeof value === "object" && !Array.isArray(value);
+    if (isObject(before) && isObject(after)) {
+        const keys = new Set([...Object.keys(before as object), ...Object.keys(after as object)]);
+        return [...keys].flatMap((key) =>
+            changedPaths((before as any)[key], (after as any)[key], path ? `${path}.${key}` : key)
+        );
+    }
+    return JSON.stringify(before ?? null) === JSON.stringify(after ?? null) ? [] : [path || "(root)"];
+};
+
+/**
+ * Structural diff between two revision snapshots.
+ */
+export const diffSnapshots = (before: RevisionSnapshot, after: RevisionSnapshot): RevisionDiff => {
+    const { pairs, removed } = matchSteps(before.roadmap || [], after.roadmap || []);
+    const steps: RevisionDiff["steps"] = {
+        added: pairs.filter((pair) => !pair.before).map(({ after: step }) => ({ stepNumber: step.stepNumber, title: step.title })),
+        removed: removed.map((step) => ({ stepNumber: step.stepNumber, title: step.title })),
+        reworded: [],
+        renumbered: [],
+    };
+    for (const { before: old, after: step } of pairs) {
+        if (!old) continue;
+        if (old.title !== step.title || old.details !== step.details) {
+            steps.reworded.push({
+                stepNumber: step.stepNumber,
+                before: { title: old.title, details: old.details },
+                after: { title: step.title, details: step.details },
+            });
+        }
+        if (old.stepNumber !== step.stepNumber) {
+            steps.renumbered.push({ title: step.title, from: old.stepNumber, to: step.stepNumber });
+        }
+    }
+
+    const beforePapers = new Map((before.relatedPapers || []).map((paper) => [paperKey(paper), paper]));
+    const afterPapers = new Map((after.relatedPapers || []).map((paper) => [paperKey(paper), paper]));
+    const describePaper = (paper: Record<string, any>) => ({ title: paper.title, doi: paper.doi });
+
+    const beforeMilestones = new Map((before.timeline || []).map((entry) => [entry.milestone as string, entry]));
+    const afterMilestones = new Map((after.timeline || []).map((entry) => [entry.milestone as string, entry]));
+
+    return {
+        steps,
+        papers: {
+            added: [...afterPapers].filter(([key]) => !beforePapers.has(key)).map(([, paper]) => describePaper(paper)),
+            removed: [...beforePapers].filter(([key]) => !afterPapers.has(key)).map(([, paper]) => describePaper(paper)),
+        },
+        sections: {
+            methodology: changedPaths(before.methodology, after.methodology),
+            researchGapAnalysis: changedPaths(before.researchGapAnalysis, after.researchGapAnalysis),
+            prosAndCons: changedPaths(before.prosAndCons, after.prosAndCons),
+        },
+        timeline: {
+            added: [...afterMilestones.keys()].filter((milestone) => !beforeMilestones.has(milestone)),
+            removed: [...beforeMilestones.keys()].filter((milestone) => !afterMilestones.has(milestone)),
+            moved: [...afterMilestones].flatMap(([milestone, entry]) => {
+                const old = beforeMilestones.get(milestone);
+                return old && old.dueDate !== entry.dueDate ? [{ milestone, from: old.dueDate, to: entry.dueDate }] : [];
+            }),
+        },
+    };
+};
@@ -0,0 +1,109 @@
+import { array, Infer, number, object, optional, Schema, string } from "./schema";
+
+// --- Section Schemas ---
+// Each schema mirrors the "Output Format" block of the matching PromptGenerator template.
+
+const text = () => string({ min: 1 });
+
+export const stepByStepSchema = array(
+    object({
+        stepNumber: number({ integer: true, min: 1 }),
+        title: text(),
+        details: text(),
+    }),
+    { min: 1 }
+);
+
+export const rankedPapersSchema = array(
+    object({
+        rank: number({ integer: true, min: 1 }),
+        title: text(),
+        summary: text(),
+        authors: text(),
+        date: optional(string()),
+        link: optional(string()),
+    })
+);
+
+export const methodologySchema = object({
+    researchApproach: object({
+        selectedApproach: text(),
+        justification: text(),
+    }),
+    dataCollectionMethods: object({
+        techniques: array(text(), { min: 1 }),
+        participantSelection: text(),
+        ethicalConsiderations: text(),
+    }),
+    dataAnalysisTechniques: object({
+        analysisMethods: array(text(), { min: 1 }),
+        integration: optional(string()), // Only meaningful for mixed methods
+    }),
+});
+
+export const researchGapAnalysisSchema = object({
+    commonThemes: array(text(), { min: 1 }),
+    unexploredAreas: array(text(), { min: 1 }),
+    openResearchQuestions: array(text(), { min: 1 }),
+    futureResearchDirections: array(text(), { min: 1 }),
+});
+
+export const prosAndConsSchema = object({
+    pros: array(text(), { min: 1 }),
+    cons: array(text(), { min: 1 }),
+    finalConsiderations: text(),
+});
+
+// Relative effort of each roadmap step, used to schedule the timeline
+export const effortEstimatesSchema = array(
+    object({
+        stepNumber: number({ integer: true, min: 1 }),
+        weight: number({ min: 1, max: 10 }),
+        rationale: optional(string()),
+    }),
+    { min: 1 }
+);
+
+// Questions asked before the roadmap is generated, answered by the student
+export const clarifyingQuestionsSchema = array(
+    object({
+        question: string({ min: 1 }),
+        purpose: optional(string()),
+        suggestedAnswers: optional(array(string({ min: 1 }), { max: 4 })),
+    }),
+    { min: 1, max: 5 }
+);
+
+// English keywords used to query the paper providers for theses written in other languages
+export const searchKeywordsSchema = object({
+    keywords: array(string({ min: 1 }), { min: 1 }),
+});
+
+export type RoadmapStepItem = Infer<typeof stepByStepSchema>[number];
+export type RankedPaper = Infer<typeof rankedPapersSchema>[number];
+export type Methodology = Infer<typeof methodologySchema>;
+export type ResearchGapAnalysis = Infer<typeof researchGapAnalysisSchema>;
+export type ProsAndCons = Infer<typeof prosAndConsSchema>;
+export type EffortEstimate = Infer<typeof effortEstimatesSchema>[number];
+export type ClarifyingQuestion = Infer<typeof clarifyingQuestionsSchema>[number];
+
+// Schemas keyed by the LLM context that produces them
+export const SECTION_SCHEMAS = {
+    stepByStep: stepByStepSchema,
+    relatedPapers: rankedPapersSchema,
+    methodology: methodologySchema,
+    researchGapAnalysis: researchGapAnalysisSchema,
+    prosAndCons: prosAndConsSchema,
+} satisfies Record<string, Schema<unknown>>;
+
+export type LlmSection = keyof typeof SECTION_SCHEMAS;
+
+// Every schema generateSection can validate: the roadmap sections plus auxiliary LLM outputs
+export const LLM_SCHEMAS = {
+    ...SECTION_SCHEMAS,
+    effortEstimates: effortEstimatesSchema,
+    searchKeywords: searchKeywordsSchema,
+    clarifyingQuestions: clarifyingQuestionsSchema,
+};
+
+export type LlmSchemaName = keyof typeof LLM_SCHEMAS;
@@ -0,0 +1,140 @@
+// --- Minimal Schema Validation ---
+// Small composable validators used to check LLM output (and anything else shaped like JSON).
+
+export interface ValidationIssue {
+    path: string; // Dot path to the offending field, e.g. "[2].stepNumber" or "researchApproach.justification"
+    message: string;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+export interface Schema<T> {
+    validate(value: unknown, path?: string): ValidationResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const joinPath = (path: string, key: string | number) =>
+    typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const fail = (path: string, message: string): ValidationResult<never> => ({ ok: false, issues: [{ path, message }] });
+
+const describe = (value: unknown) => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value);
+
+const typeError = (path: string, expected: string, value: unknown) =>
+    fail(path, value === undefined ? "Is required" : `Expected ${expected}, received ${describe(value)}`);
+
+export const string = (options: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> => ({
+    validate(value, path = "") {
+        if (typeof value !== "string") return typeError(path, "a string", value);
+        const trimmed = value.trim();
+        if (options.min !== undefined && trimmed.length < options.min) {
+            return fail(path, options.min === 1 ? "Must not be empty" : `Must be at least ${options.min} characters`);
+        }
+        if (options.max !== undefined && value.length > options.max) return fail(path, `Must be at most ${options.max} characters`);
+        if (options.pattern && !options.pattern.test(value)) return fail(path, "Has an invalid format");
+        return { ok: true, value };
+    },
+});
+
+export const number = (options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> => ({
+    validate(value, path = "") {
+        if (typeof value !== "number" || Number.isNaN(value)) return typeError(path, "a number", value);
+        if (options.integer && !Number.isInteger(value)) return fail(path, "Must be an integer");
+        if (options.min !== undefined && value < options.min) return fail(path, `Must be at least ${options.min}`);
+        if (options.max !== undefined && value > options.max) return fail(path, `Must be at most ${options.max}`);
+        return { ok: true, value };
+    },
+});
+
+export const boolean = (): Schema<boolean> => ({
+    validate(value, path = "") {
+        if (typeof value !== "boolean") return typeError(path, "a boolean", value);
+        return { ok: true, value };
+    },
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+    validate(value, path = "") {
+        if (typeof value !== "string" || !values.includes(value as T)) {
+            return fail(path, `Must be one of: ${values.join(", ")}`);
+        }
+        return { ok: true, value: value as T };
+    },
+});
+
+export const array = <T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> => ({
+    validate(value, path = "") {
+        if (!Array.isArray(value)) return typeError(path, "an array", value);
+        if (options.min !== undefined && value.length < options.min) return fail(path, `Must contain at least ${options.min} item(s)`);
+        if (options.max !== undefined && value.length > options.max) return fail(path, `Must contain at most ${options.max} item(s)`);
+
+        const issues: ValidationIssue[] = [];
+        const items: T[] = [];
+        value.forEach((entry, index) => {
+            const result = item.validate(entry, joinPath(path, index));
+            if (result.ok) items.push(result.value);
+            else issues.push(...result.issues);
+        });
+        return issues.length > 0 ? { ok: false, issues } : { ok: true, value: items };
+    },
+});
+
+type Shape = Record<string, Schema<any>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+export type ObjectOf<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+/**
+ * Validates each declared key. Unknown keys are dropped from the result.
+ */
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+    validate(value, path = "") {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            return typeError(path, "an object", value);
+        }
+
+        const issues: ValidationIssue[] = [];
+        const result: Record<string, unknown> = {};
+        for (const key of Object.keys(shape)) {
+            const field = shape[key].validate((value as Record<string, unknown>)[key], joinPath(path, key));
+            if (!field.ok) issues.push(...field.issues);
+            else if (field.value !== undefined) result[key] = field.value;
+        }
+        return issues.length > 0 ? { ok: false, issues } : { ok: true, value: result as ObjectOf<S> };
+    },
+});
+
+/**
+ * Like object, but unknown keys are an issue instead of being dropped (e.g. request bodies copied onto a document).
+ */
+export const strictObject = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+    validate(value, path = "") {
+        const result = object(shape).validate(value, path);
+        if (typeof value !== "object" || value === null || Array.isArray(value)) return result;
+
+        const unknown: ValidationIssue[] = Object.keys(value)
+            .filter((key) => !Object.prototype.hasOwnProperty.call(shape, key))
+            .map((key) => ({ path: joinPath(path, key), message: "Is not allowed" }));
+        if (unknown.length === 0) return result;
+        return { ok: false, issues: [...(result.ok ? [] : result.issues), ...unknown] };
+    },
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+    validate(value, path = "") {
+        if (value === undefined || value === null) return { ok: true, value: undefined };
+        return schema.validate(value, path);
+    },
+});
+
+// Fields the schema never fails on (stored as-is)
+export const any = (): Schema<any> => ({
+    validate(value) {
+        return { ok: true, value };
+    },
+});
+
+export const formatIssues = (issues: ValidationIssue[]) =>
+    issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`).join("\n");
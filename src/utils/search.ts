@@ -0,0 +1,258 @@
+import mongoose from "mongoose";
+import Paper from "../models/Paper";
+import ReadingItem from "../models/ReadingItem";
+import Thesis from "../models/Thesis";
+import { findSourcePaper } from "./thesisSections";
+import { accessibleThesesFilter } from "./thesisAccess";
+
+// --- Search ---
+
+export const SEARCH_TYPES = ["thesis", "step", "methodology", "paper", "note"] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export interface SearchHit {
+    type: SearchType;
+    score: number;
+    title: string; // Thesis title, step title, paper title...
+    snippet: string; // HTML-escaped, matched words wrapped in <mark>
+    field: string; // Field the snippet comes from
+    thesis?: { _id: mongoose.Types.ObjectId; title: string };
+    itemId?: mongoose.Types.ObjectId; // Roadmap step, related paper or reading item
+}
+
+export interface SearchResults {
+    hits: SearchHit[];
+    truncated: boolean; // A collection had more than MAX_DOCUMENTS matches: hits beyond them are missing
+}
+
+export interface SearchOptions {
+    types?: SearchType[]; // Every type when omitted
+    thesis?: string; // Only this thesis and the reading items for it
+    language?: string; // Stemming language of the query, English by default
+}
+
+// Candidate documents per collection, before hits are ranked
+const MAX_DOCUMENTS = 50;
+
+// One document past the cap is fetched to tell whether the collection had more matches
+const capDocuments = <T>(documents: T[]) => ({
+    documents: documents.slice(0, MAX_DOCUMENTS),
+    truncated: documents.length > MAX_DOCUMENTS,
+});
+const SNIPPET_LENGTH = 160;
+
+// Hits rank by the document's text score times the weight of the matched field (as in the text indexes)
+const FIELD_WEIGHTS: Record<string, number> = {
+    title: 10,
+    relatedPaper: 6,
+    stepTitle: 5,
+    tags: 5,
+    description: 4,
+    authors: 3,
+    notes: 3,
+    highlights: 2,
+    details: 2,
+    methodology: 2,
+    summary: 2,
+    abstract: 1,
+};
+const MAX_WEIGHT = 10;
+
+// --- Snippets ---
+
+const escapeHtml = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * The words of a query, reduced to rough stems so "papers" also finds "paper"
+ * (MongoDB stems when matching; this only decides what the snippets highlight).
+ */
+export const searchTerms = (query: string): string[] => [
+    ...new Set(
+        query
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter((word) => word.length >= 2)
+            .map((word) => (word.length > 4 ? word.replace(/(ing|ed|es|s)$/, "") : word))
+    ),
+];
+
+const termPattern = (terms: string[]) => new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`, "giu");
+
+/**
+ * A window of `text` around the first matched term, with every match wrapped in <mark>.
+ * @returns The snippet, or null when no term matches.
+ */
+export const buildSnippet = (text: string | undefined, terms: string[], length = SNIPPET_LENGTH): string | null => {
+    if (!text || terms.length === 0) return null;
+    const compact = text.replace(/\s+/g, " ").trim();
+    const first = termPattern(terms).exec(compact);
+    if (!first) return null;
+
+    let start = Math.max(0, Math.min(first.index - Math.floor(length / 3), compact.length - length));
+    // Don't cut the first word
+    const space = compact.indexOf(" ", start);
+    if (start > 0 && space >= 0 && space < first.index) start = space + 1;
+    const end = Math.min(compact.length, start + length);
+    const window = compact.slice(start, end);
+
+    let snippet = "";
+    let last = 0;
+    for (const match of window.matchAll(termPattern(terms))) {
+        snippet += `${escapeHtml(window.slice(last, match.index))}<mark>${escapeHtml(match[0])}</mark>`;
+        last = (match.index as number) + match[0].length;
+    }
+    snippet += escapeHtml(window.slice(last));
+    return `${start > 0 ? "…" : ""}${snippet}${end < compact.length ? "…" : ""}`;
+};
+
+// Start of a text, for documents MongoDB matched through stemming the snippet terms miss
+const leadSnippet = (text = "") => {
+    const compact = text.replace(/\s+/g, " ").trim();
+    return escapeHtml(compact.slice(0, SNIPPET_LENGTH)) + (compact.length > SNIPPET_LENGTH ? "…" : "");
+};
+
+// The best-weighted field of `fields` with a match, as a hit
+const bestMatch = (fields: [string, string | undefined][], terms: string[]) => {
+    const matched = fields
+        .map(([field, text]) => ({ field, snippet: buildSnippet(text, terms) }))
+        .filter((entry): entry is { field: string; snippet: string } => entry.snippet !== null);
+    return matched.sort((a, b) => (FIELD_WEIGHTS[b.field] || 1) - (FIELD_WEIGHTS[a.field] || 1))[0];
+};
+
+const hitScore = (documentScore: number, field: string) =>
+    Math.round(documentScore * ((FIELD_WEIGHTS[field] || 1) / MAX_WEIGHT) * 1000) / 1000;
+
+// --- Collections ---
+
+const textStage = (query: string, language?: string) => ({ $text: { $search: query, ...(language && { $language: language }) } });
+
+// Theses the user can access, split into thesis / step / methodology / paper hits
+const searchTheses = async (query: string, terms: string[], userId: string, options: SearchOptions): Promise<SearchResults> => {
+    const found = await Thesis.aggregate([
+        {
+            $match: {
+                ...textStage(query, options.language),
+                ...accessibleThesesFilter(userId),
+                ...(options.thesis && { _id: new mongoose.Types.ObjectId(options.thesis) }),
+            },
+        },
+        { $addFields: { score: { $meta: "textScore" } } },
+        { $sort: { score: -1 } },
+        { $limit: MAX_DOCUMENTS + 1 },
+        { $project: { title: 1, description: 1, roadmap: 1, methodologyText: 1, relatedPapers: 1, sourcePapers: 1, score: 1 } },
+    ]);
+    const { documents: theses, truncated } = capDocuments(found);
+
+    const thesisHits = theses.flatMap((thesis): SearchHit[] => {
+        const context = { _id: thesis._id, title: thesis.title };
+        const hits: SearchHit[] = [];
+        const add = (type: SearchType, title: string, match: { field: string; snippet: string } | undefined, itemId?: mongoose.Types.ObjectId) => {
+            if (match) hits.push({ type, score: hitScore(thesis.score, match.field), title, ...match, thesis: context, itemId });
+        };
+
+        add("thesis", thesis.title, bestMatch([["title", thesis.title], ["description", thesis.description]], terms));
+        for (const step of thesis.roadmap || []) {
+            add("step", step.title, bestMatch([["stepTitle", step.title], ["details", step.details], ["notes", step.notes]], terms), step._id);
+        }
+        add("methodology", thesis.title, bestMatch([["methodology", thesis.methodologyText]], terms));
+        for (const paper of thesis.relatedPapers || []) {
+            const abstract = findSourcePaper(paper, thesis.sourcePapers || [])?.abstract;
+            add("paper", paper.title, bestMatch([["relatedPaper", paper.title], ["summary", paper.summary], ["abstract", abstract]], terms), paper._id);
+        }
+        if (hits.length === 0) add("thesis", thesis.title, { field: "description", snippet: leadSnippet(thesis.description) });
+        return hits;
+    });
+    return { hits: thesisHits, truncated };
+};
+
+// Notes and highlights on the user's own reading list
+const searchReadingNotes = async (query: string, terms: string[], userId: string, options: SearchOptions): Promise<SearchResults> => {
+    const found = await ReadingItem.aggregate([
+        {
+            $match: {
+                ...textStage(query, options.language),
+                user: new mongoose.Types.ObjectId(userId),
+                ...(options.thesis && { thesis: new mongoose.Types.ObjectId(options.thesis) }),
+            },
+        },
+        { $addFields: { score: { $meta: "textScore" } } },
+        { $sort: { score: -1 } },
+        { $limit: MAX_DOCUMENTS + 1 },
+        { $lookup: { from: "papers", localField: "paper", foreignField: "_id", as: "paper" } },
+        { $lookup: { from: "theses", localField: "thesis", foreignField: "_id", as: "thesis" } },
+        { $project: { notes: 1, highlights: 1, tags: 1, score: 1, "paper.title": 1, "thesis._id": 1, "thesis.title": 1 } },
+    ]);
+    const { documents: items, truncated } = capDocuments(found);
+
+    const hits = items.flatMap((item): SearchHit[] => {
+        const highlights = (item.highlights || []).map((entry: any) => [entry.text, entry.note].filter(Boolean).join(" ")).join(" … ");
+        const match = bestMatch([["notes", item.notes], ["highlights", highlights], ["tags", (item.tags || []).join(", ")]], terms) ||
+            { field: "notes", snippet: leadSnippet(item.notes || highlights) };
+        return [{
+            type: "note",
+            score: hitScore(item.score, match.field),
+            title: item.paper[0]?.title || "Untitled",
+            ...match,
+            thesis: item.thesis[0],
+            itemId: item._id,
+        }];
+    });
+    return { hits, truncated };
+};
+
+// Papers on the user's reading list (papers are shared, so only those the user added are searched)
+const searchReadingListPapers = async (query: string, terms: string[], userId: string, options: SearchOptions): Promise<SearchResults> => {
+    const items = await ReadingItem.find({ user: userId, ...(options.thesis && { thesis: options.thesis }) })
+        .select("paper thesis")
+        .populate("thesis", "title")
+        .lean();
+    if (items.length === 0) return { hits: [], truncated: false };
+
+    const found = await Paper.aggregate([
+        { $match: { ...textStage(query, options.language), _id: { $in: items.map((item) => item.paper) } } },
+        { $addFields: { score: { $meta: "textScore" } } },
+        { $sort: { score: -1 } },
+        { $limit: MAX_DOCUMENTS + 1 },
+        { $project: { title: 1, authors: 1, abstract: 1, score: 1 } },
+    ]);
+    const { documents: papers, truncated } = capDocuments(found);
+
+    const hits = papers.flatMap((paper): SearchHit[] => {
+        const match = bestMatch([["title", paper.title], ["authors", paper.authors], ["abstract", paper.abstract]], terms) ||
+            { field: "abstract", snippet: leadSnippet(paper.abstract) };
+        const item = items.find((entry) => entry.paper.toString() === paper._id.toString());
+        if (!item) return [];
+        const thesis = item.thesis as unknown as { _id: mongoose.Types.ObjectId; title: string } | undefined;
+        return [{ type: "paper", score: hitScore(paper.score, match.field), title: paper.title, ...match, thesis, itemId: item._id }];
+    });
+    return { hits, truncated };
+};
+
+/**
+ * Searches everything the user can see: the theses they own or collaborate on and
+ * their own reading list. Hits are ranked by text score and field weight.
+ * Only the best MAX_DOCUMENTS documents of each collection are considered; `truncated` tells when more matched.
+ */
+export const searchUserContent = async (query: string, userId: string, options: SearchOptions = {}): Promise<SearchResults> => {
+    const none: SearchResults = { hits: [], truncated: false };
+    const terms = searchTerms(query);
+    const types = options.types?.length ? options.types : SEARCH_TYPES;
+    const wants = (...candidates: SearchType[]) => candidates.some((type) => types.includes(type));
+
+    const results = await Promise.all([
+        wants("thesis", "step", "methodology", "paper") ? searchTheses(query, terms, userId, options) : none,
+        wants("note") ? searchReadingNotes(query, terms, userId, options) : none,
+        wants("paper") ? searchReadingListPapers(query, terms, userId, options) : none,
+    ]);
+
+    return {
+        hits: results
+            .flatMap((result) => result.hits)
+            .filter((hit) => types.includes(hit.type))
+            .sort((a, b) => b.score - a.score),
+        truncated: results.some((result) => result.truncated),
+    };
+};
@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import { Request, Response, CookieOptions } from "express";
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import Session, { ISession, SessionRevokeReason } from "../models/Session";
+import { AppError, ConflictError } from "./errors";
+
+dotenv.config();
+
+// --- Configuration ---
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60; // 15 minutes
+const REFRESH_TOKEN_TTL_SECONDS = Number(process.env.REFRESH_TOKEN_TTL_SECONDS) || 30 * 24 * 60 * 60; // 30 days
+const MAX_PREVIOUS_TOKENS = 20; // Rotated secrets remembered for reuse detection
+const CONCURRENT_REFRESH_GRACE_MS = 10 * 1000; // The token just rotated may still come back from another tab
+
+export const ACCESS_COOKIE = "token";
+export const REFRESH_COOKIE = "refreshToken";
+const REFRESH_COOKIE_PATH = "/api/auth"; // Only sent to the refresh/logout routes
+
+export interface AccessTokenPayload {
+  id: string; // User id
+  sid: string; // Session id
+}
+
+export class RefreshTokenError extends AppError {
+  constructor(message: string, readonly reuseDetected = false) {
+    super("AUTH_REFRESH_INVALID", message);
+  }
+}
+
+const hashSecret = (secret: string) => crypto.createHash("sha256").update(secret).digest("hex");
+const newSecret = () => crypto.randomBytes(48).toString("base64url");
+
+const baseCookieOptions: CookieOptions = {
+  httpOnly: true, // Prevents JavaScript access
+  secure: process.env.NODE_ENV === "production", // Enable secure flag in production
+  sameSite: "strict", // Helps prevent CSRF attacks
+};
+
+export const generateAccessToken = (userId: string, sessionId: string) =>
+  jwt.sign({ id: userId, sid: sessionId }, process.env.JWT_SECRET as string, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+
+// Set both cookies for a session; the refresh token is "<sessionId>.<secret>"
+const setAuthCookies = (res: Response, userId: string, sessionId: string, secret: string) => {
+  res.cookie(ACCESS_COOKIE, generateAccessToken(userId, sessionId), {
+    ...baseCookieOptions,
+    maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000,
+  });
+  res.cookie(REFRESH_COOKIE, `${sessionId}.${secret}`, {
+    ...baseCookieOptions,
+    path: REFRESH_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_TTL_SECONDS * 1000,
+  });
+};
+
+export const clearAuthCookies = (res: Response) => {
+  res.clearCookie(ACCESS_COOKIE, baseCookieOptions);
+  res.clearCookie(REFRESH_COOKIE, { ...baseCookieOptions, path: REFRESH_COOKIE_PATH });
+};
+
+export const isSessionActive = (session: ISession | null): session is ISession =>
+  Boolean(session && !session.revokedAt && session.expiresAt > new Date());
+
+/**
+ * Starts a new session (token family) for a user who just logged in and sets the auth cookies.
+ */
+export const startSession = async (req: Request, res: Response, userId: string): Promise<ISession> => {
+  const secret = newSecret();
+  const session = await Session.create({
+    user: userId,
+    tokenHash: hashSecret(secret),
+    userAgent: req.get("user-agent"),
+    ip: req.ip,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+  });
+  setAuthCookies(res, userId, session._id.toString(), secret);
+  return session;
+};
+
+// Split "<sessionId>.<secret>", or null if the token is malformed
+export const parseRefreshToken = (token?: string): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret] = (token || "").split(".");
+  return sessionId && secret && mongoose.isValidObjectId(sessionId) ? { sessionId, secret } : null;
+};
+
+// The other request set the new cookies: the client retries with them
+const concurrentRefreshError = () => new ConflictError("The refresh token was just rotated by another request");
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * Presenting an already rotated token revokes the whole session (token family).
+ * Rotation is atomic: of several concurrent refreshes with the same token, exactly one wins.
+ * @throws RefreshTokenError when the token is invalid, expired, revoked or reused.
+ * @throws ConflictError when another request rotated the same token first.
+ */
+export const rotateSession = async (res: Response, refreshToken?: string): Promise<ISession> => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) throw new RefreshTokenError("Refresh token missing or malformed");
+
+  const session = await Session.findById(parsed.sessionId);
+  if (!isSessionActive(session)) throw new RefreshTokenError("Session expired or revoked");
+
+  const presentedHash = hashSecret(parsed.secret);
+  if (presentedHash !== session.tokenHash) {
+    const justRotated =
+      session.previousTokenHashes[session.previousTokenHashes.length - 1] === presentedHash &&
+      Date.now() - session.lastUsedAt.getTime() < CONCURRENT_REFRESH_GRACE_MS;
+    if (justRotated) throw concurrentRefreshError();
+    if (session.previousTokenHashes.includes(presentedHash)) {
+      // 🚨 An old token came back: someone else holds a copy. Kill the family.
+      await revokeSession(session, "reuse_detected");
+      console.warn(`Refresh token reuse detected for session ${session._id}; session revoked.`);
+      throw new RefreshTokenError("Refresh token reuse detected", true);
+    }
+    throw new RefreshTokenError("Refresh token invalid");
+  }
+
+  // Only rotates if the token is still the current one
+  const secret = newSecret();
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, tokenHash: presentedHash, revokedAt: { $exists: false } },
+    {
+      $set: { tokenHash: hashSecret(secret), lastUsedAt: new Date() },
+      $push: { previousTokenHashes: { $each: [presentedHash], $slice: -MAX_PREVIOUS_TOKENS } },
+    },
+    { new: true }
+  );
+  if (!rotated) throw concurrentRefreshError();
+
+  setAuthCookies(res, rotated.user.toString(), rotated._id.toString(), secret);
+  return rotated;
+};
+
+export const revokeSession = async (session: ISession, reason: SessionRevokeReason) => {
+  session.revokedAt = new Date();
+  session.revokedReason = reason;
+  await session.save();
+};
+
+// Revoke every active session of a user, e.g. "log out everywhere" or after a password change
+export const revokeAllSessions = async (userId: string, reason: SessionRevokeReason) => {
+  const result = await Session.updateMany(
+    { user: userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount;
+};
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+import { IThesis, ThesisPermission } from "../models/Thesis";
+
+export type ThesisAccessLevel = ThesisPermission | "owner";
+
+const ACCESS_RANK: Record<ThesisAccessLevel, number> = {
+    viewer: 1,
+    commenter: 2,
+    editor: 3,
+    owner: 4,
+};
+
+export const isThesisPermission = (value: unknown): value is ThesisPermission =>
+    value === "viewer" || value === "commenter" || value === "editor";
+
+// The user's access to a thesis, or null when they have none
+export const getThesisAccess = (thesis: Pick<IThesis, "user" | "collaborators">, userId?: string): ThesisAccessLevel | null => {
+    if (!userId) return null;
+    if (thesis.user.toString() === userId) return "owner";
+    const collaborator = thesis.collaborators?.find((entry) => entry.user.toString() === userId);
+    return collaborator ? collaborator.permission : null;
+};
+
+export const hasThesisAccess = (access: ThesisAccessLevel | null, required: ThesisAccessLevel): boolean =>
+    access !== null && ACCESS_RANK[access] >= ACCESS_RANK[required];
+
+// Query filter matching every thesis the user owns or collaborates on
+export const accessibleThesesFilter = (userId: string) => {
+    const id = new mongoose.Types.ObjectId(userId);
+    return { $or: [{ user: id }, { "collaborators.user": id }] };
+};
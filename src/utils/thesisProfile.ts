@@ -0,0 +1,98 @@
+import { IThesis } from "../models/Thesis";
+import { array, Infer, number, object, oneOf, optional, string, ValidationIssue, ValidationResult } from "./schema";
+
+// --- Thesis Profile ---
+// Structured inputs that shape the generated roadmap: who the thesis is for and how much time it has.
+
+export const DEGREE_LEVELS = ["bachelor", "master", "phd"] as const;
+export type DegreeLevel = typeof DEGREE_LEVELS[number];
+
+export const METHODOLOGY_PREFERENCES = ["qualitative", "quantitative", "mixed", "undecided"] as const;
+export type MethodologyPreference = typeof METHODOLOGY_PREFERENCES[number];
+
+// Request fields of POST /api/thesis/generate that make up the profile
+export const PROFILE_FIELDS = ["degreeLevel", "discipline", "preferredMethodology", "timeAvailable", "requiredChapters"] as const;
+
+export const thesisProfileSchema = object({
+    degreeLevel: optional(oneOf(DEGREE_LEVELS)),
+    discipline: optional(string({ min: 1, max: 100 })),
+    preferredMethodology: optional(oneOf(METHODOLOGY_PREFERENCES)),
+    timeAvailable: optional(
+        object({
+            months: number({ min: 1, max: 120 }),
+            hoursPerWeek: optional(number({ min: 1, max: 80 })),
+        })
+    ),
+    requiredChapters: optional(array(string({ min: 1, max: 120 }), { max: 20 })),
+});
+
+export type ThesisProfile = Infer<typeof thesisProfileSchema>;
+
+// Usual length of each degree's thesis, and the least total work it can be done in
+const DEGREE_REQUIREMENTS: Record<DegreeLevel, { minMonths: number; maxMonths: number; minHours: number }> = {
+    bachelor: { minMonths: 1, maxMonths: 18, minHours: 100 },
+    master: { minMonths: 3, maxMonths: 36, minHours: 300 },
+    phd: { minMonths: 12, maxMonths: 96, minHours: 1500 },
+};
+
+const WEEKS_PER_MONTH = 4.33;
+
+// Cross-field checks the schema can't express
+const findInconsistencies = (profile: ThesisProfile): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const { degreeLevel, timeAvailable, requiredChapters = [] } = profile;
+
+    if (degreeLevel && timeAvailable) {
+        const { minMonths, maxMonths, minHours } = DEGREE_REQUIREMENTS[degreeLevel];
+        if (timeAvailable.months < minMonths || timeAvailable.months > maxMonths) {
+            issues.push({
+                path: "timeAvailable.months",
+                message: `A ${degreeLevel} thesis takes between ${minMonths} and ${maxMonths} months`,
+            });
+        }
+
+        const totalHours = timeAvailable.hoursPerWeek && Math.round(timeAvailable.months * WEEKS_PER_MONTH * timeAvailable.hoursPerWeek);
+        if (totalHours && totalHours < minHours) {
+            issues.push({
+                path: "timeAvailable.hoursPerWeek",
+                message: `About ${totalHours} hours in total are not enough for a ${degreeLevel} thesis (at least ${minHours})`,
+            });
+        }
+    }
+
+    const seen = new Set<string>();
+    requiredChapters.forEach((chapter, index) => {
+        const key = chapter.trim().toLowerCase();
+        if (seen.has(key)) issues.push({ path: `requiredChapters[${index}]`, message: "Is listed more than once" });
+        seen.add(key);
+    });
+
+    // A chapter needs at least a week of work
+    const weeks = timeAvailable && Math.floor(timeAvailable.months * WEEKS_PER_MONTH);
+    if (weeks && requiredChapters.length > weeks) {
+        issues.push({
+            path: "requiredChapters",
+            message: `${requiredChapters.length} chapters do not fit in ${timeAvailable.months} month(s)`,
+        });
+    }
+    return issues;
+};
+
+/**
+ * Validates a profile's fields and checks that they are consistent with each other.
+ */
+export const parseThesisProfile = (value: unknown): ValidationResult<ThesisProfile> => {
+    const result = thesisProfileSchema.validate(value);
+    if (!result.ok) return result;
+
+    const issues = findInconsistencies(result.value);
+    return issues.length > 0 ? { ok: false, issues } : result;
+};
+
+// The saved profile as a plain object, for the prompts
+export const getThesisProfile = (thesis: IThesis): ThesisProfile | undefined => thesis.toObject().profile;
+
+// True when at least one field is set, i.e. the prompts have something to use
+export const hasThesisProfile = (profile?: ThesisProfile | null): profile is ThesisProfile =>
+    !!profile &&
+    !!(profile.degreeLevel || profile.discipline || profile.preferredMethodology || profile.timeAvailable || profile.requiredChapters?.length);
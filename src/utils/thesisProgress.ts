@@ -0,0 +1,107 @@
+import dotenv from "dotenv";
+import { IThesis, StepStatus } from "../models/Thesis";
+
+dotenv.config();
+
+// --- Configuration ---
+const VELOCITY_WINDOW_DAYS = Number(process.env.VELOCITY_WINDOW_DAYS) || 28; // Velocity looks at the last 4 weeks
+const BEHIND_TOLERANCE_PERCENT = Number(process.env.BEHIND_TOLERANCE_PERCENT) || 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const STEP_STATUSES: StepStatus[] = ["todo", "doing", "blocked", "done"];
+
+export interface ThesisProgress {
+    completionPercent: number; // Share of steps done, weighted by the milestone effort weights when scheduled
+    steps: Record<StepStatus, number>;
+    velocity: number; // Steps completed per week over the velocity window
+    expectedPercent: number | null; // Where the thesis should be today given start date and deadline
+    projectedCompletion: Date | null; // When the remaining steps will be done at the current velocity
+    behind: boolean;
+    atRisk: boolean; // The scheduler could not fit the remaining milestones before the deadline
+}
+
+export const isStepStatus = (value: unknown): value is StepStatus => STEP_STATUSES.includes(value as StepStatus);
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Effort weight of a step, taken from its timeline milestone when the thesis is scheduled
+const stepWeight = (thesis: IThesis, stepNumber: number) =>
+    thesis.timeline.find((entry) => entry.stepNumber === stepNumber)?.weight || 1;
+
+export const computeThesisProgress = (thesis: IThesis, now = new Date()): ThesisProgress => {
+    const steps = Object.fromEntries(STEP_STATUSES.map((status) => [status, 0])) as Record<StepStatus, number>;
+    let totalWeight = 0;
+    let doneWeight = 0;
+    for (const step of thesis.roadmap) {
+        const status = step.status || "todo";
+        const weight = stepWeight(thesis, step.stepNumber);
+        steps[status] += 1;
+        totalWeight += weight;
+        if (status === "done") doneWeight += weight;
+    }
+    const completionPercent = totalWeight ? round((doneWeight / totalWeight) * 100) : 0;
+
+    const windowStart = now.getTime() - VELOCITY_WINDOW_DAYS * DAY_MS;
+    const recentlyDone = thesis.roadmap.filter(
+        (step) => step.status === "done" && step.completedAt && step.completedAt.getTime() >= windowStart
+    ).length;
+    const velocity = round(recentlyDone / (VELOCITY_WINDOW_DAYS * DAY_MS / WEEK_MS), 2);
+
+    const remaining = thesis.roadmap.length - steps.done;
+    const projectedCompletion =
+        remaining === 0 ? null : velocity > 0 ? new Date(now.getTime() + (remaining / velocity) * WEEK_MS) : null;
+
+    let expectedPercent: number | null = null;
+    const schedule = thesis.schedule;
+    if (schedule?.startDate && schedule.deadline) {
+        const span = schedule.deadline.getTime() - schedule.startDate.getTime();
+        const elapsed = now.getTime() - schedule.startDate.getTime();
+        expectedPercent = span > 0 ? round(Math.min(100, Math.max(0, (elapsed / span) * 100))) : 100;
+    }
+
+    const atRisk = Boolean(schedule?.atRisk);
+    const behind =
+        remaining > 0 &&
+        (atRisk ||
+            (expectedPercent !== null && completionPercent + BEHIND_TOLERANCE_PERCENT < expectedPercent) ||
+            Boolean(schedule?.deadline && projectedCompletion && projectedCompletion > schedule.deadline));
+
+    return { completionPercent, steps, velocity, expectedPercent, projectedCompletion, behind, atRisk };
+};
+
+/**
+ * Moves the thesis between draft, in progress and completed from its step statuses.
+ * @returns true when the status changed.
+ */
+export const updateThesisStatus = (thesis: IThesis): boolean => {
+    const statuses = thesis.roadmap.map((step) => step.status || "todo");
+    const next: IThesis["status"] =
+        statuses.length > 0 && statuses.every((status) => status === "done")
+            ? "completed"
+            : statuses.some((status) => status !== "todo")
+            ? "in progress"
+            : "draft";
+
+    if (next === thesis.status) return false;
+    thesis.status = next;
+    return true;
+};
+
+/**
+ * Sets a step's status and its timestamps, and keeps the step's timeline milestone in sync.
+ */
+export const setStepStatus = (thesis: IThesis, step: IThesis["roadmap"][number], status: StepStatus, now = new Date()) => {
+    if (step.status === status) return;
+
+    step.status = status;
+    step.statusChangedAt = now;
+    if (status === "doing" && !step.startedAt) step.startedAt = now;
+    step.completedAt = status === "done" ? now : undefined;
+
+    const milestone = thesis.timeline.find((entry) => entry.stepNumber === step.stepNumber);
+    if (milestone) {
+        milestone.completedAt = status === "done" ? milestone.completedAt || now : undefined;
+    }
+};
@@ -0,0 +1,107 @@
+import mongoose from "mongoose";
+import { IThesis } from "../models/Thesis";
+import ThesisRevision, { IThesisRevision, RevisionCause, RevisionSnapshot } from "../models/ThesisRevision";
+import { SECTION_FIELDS, THESIS_SECTIONS, getThesisSection, restoreThesisSection } from "./thesisSections";
+import { updateThesisStatus } from "./thesisProgress";
+
+export const REVISION_FIELDS: (keyof RevisionSnapshot)[] = [
+    "roadmap",
+    "relatedPapers",
+    "methodology",
+    "researchGapAnalysis",
+    "prosAndCons",
+    "timeline",
+    "schedule",
+];
+
+export interface RevisionContext {
+    author?: string | mongoose.Types.ObjectId;
+    cause: RevisionCause;
+    note?: string;
+}
+
+// Plain JSON copy: ObjectIds become strings, dates ISO strings
+const toJson = (value: unknown) => (value == null ? null : JSON.parse(JSON.stringify(value)));
+
+/**
+ * The tracked content of a thesis. Step progress (status, notes...) is left out:
+ * it is not part of the plan and rolling back must not undo work.
+ */
+export const snapshotThesis = (thesis: IThesis): RevisionSnapshot => ({
+    roadmap: (toJson(getThesisSection(thesis, "stepByStep")) || []).map((step: any) => ({
+        _id: step._id,
+        stepNumber: step.stepNumber,
+        title: step.title,
+        details: step.details,
+    })),
+    relatedPapers: toJson(getThesisSection(thesis, "relatedPapers")) || [],
+    methodology: toJson(thesis.methodology),
+    researchGapAnalysis: toJson(thesis.researchGapAnalysis),
+    prosAndCons: toJson(thesis.prosAndCons),
+    timeline: toJson(thesis.timeline) || [],
+    schedule: toJson(thesis.schedule),
+});
+
+const changedFields = (previous: RevisionSnapshot | null, next: RevisionSnapshot) =>
+    REVISION_FIELDS.filter((field) => JSON.stringify(previous?.[field] ?? null) !== JSON.stringify(next[field] ?? null));
+
+/**
+ * Saves the thesis' current content as a new revision if it differs from the latest one.
+ * Call after the thesis is saved.
+ * @returns The new revision, or null when nothing tracked changed.
+ */
+export const recordRevision = async (thesis: IThesis, context: RevisionContext): Promise<IThesisRevision | null> => {
+    const snapshot = snapshotThesis(thesis);
+
+    // Two writers can race for the same number; the unique index makes the loser retry
+    for (let attempt = 0; attempt < 3; attempt++) {
+        const latest = await ThesisRevision.findOne({ thesis: thesis._id }).sort({ number: -1 });
+        const fields = changedFields(latest?.snapshot ?? null, snapshot);
+        if (!fields.length) return null;
+
+        try {
+            return await ThesisRevision.create({
+                thesis: thesis._id,
+                number: (latest?.number ?? 0) + 1,
+                author: context.author,
+                cause: context.cause,
+                changedFields: fields,
+                note: context.note,
+                snapshot,
+            });
+        } catch (error: any) {
+            if (error?.code !== 11000) throw error;
+        }
+    }
+    throw new Error(`Could not record a revision for thesis ${thesis._id}`);
+};
+
+// Revision recording must never fail the change that triggered it
+export const recordRevisionSafely = async (thesis: IThesis, context: RevisionContext) => {
+    try {
+        return await recordRevision(thesis, context);
+    } catch (error) {
+        console.error(`Error recording revision for thesis ${thesis._id}:`, error);
+        return null;
+    }
+};
+
+/**
+ * Puts a revision's content back on the thesis. Steps keep their current progress; the thesis status is derived again.
+ */
+export const applyRevisionSnapshot = (thesis: IThesis, snapshot: RevisionSnapshot) => {
+    for (const section of THESIS_SECTIONS) {
+        const field = SECTION_FIELDS[section] as keyof RevisionSnapshot;
+        restoreThesisSection(thesis, section, snapshot[field] ?? (section === "stepByStep" || section === "relatedPapers" ? [] : null));
+    }
+    thesis.set("timeline", snapshot.timeline || []);
+    thesis.set("schedule", snapshot.schedule ?? undefined);
+
+    // Milestones follow the (kept) step progress
+    for (const milestone of thesis.timeline) {
+        const step = thesis.roadmap.find((entry) => entry.stepNumber === milestone.stepNumber);
+        if (step) milestone.completedAt = step.status === "done" ? step.completedAt || milestone.completedAt : undefined;
+    }
+    // The status follows the restored steps, e.g. back to draft when the roadmap is gone
+    updateThesisStatus(thesis);
+};
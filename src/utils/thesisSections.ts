@@ -0,0 +1,142 @@
+import mongoose from "mongoose";
+import { IThesis, ThesisSection } from "../models/Thesis";
+import { snowballedRankedPapers } from "./citationGraph";
+import { RoadmapSections } from "./generateThesisRoadmap";
+import { ResearchPaper } from "./paperSearch";
+import { normalizeDoi, normalizeTitle, titleSimilarity } from "./paperMerge";
+
+export const THESIS_SECTIONS: ThesisSection[] = ["stepByStep", "relatedPapers", "methodology", "researchGapAnalysis", "prosAndCons"];
+
+// Thesis field holding each generated section
+export const SECTION_FIELDS: Record<ThesisSection, keyof IThesis> = {
+  stepByStep: "roadmap",
+  relatedPapers: "relatedPapers",
+  methodology: "methodology",
+  researchGapAnalysis: "researchGapAnalysis",
+  prosAndCons: "prosAndCons",
+};
+
+const MAX_SECTION_HISTORY = 10; // Older versions of a section are dropped
+
+export const isThesisSection = (value: string): value is ThesisSection => THESIS_SECTIONS.includes(value as ThesisSection);
+
+const STEP_MATCH_THRESHOLD = 0.85;
+
+// Progress fields carried from an old step to the step that replaces it
+const stepProgress = (step: any) => ({
+  _id: step._id,
+  status: step.status || "todo",
+  notes: step.notes,
+  linkedPapers: step.linkedPapers || [],
+  startedAt: step.startedAt,
+  completedAt: step.completedAt,
+  statusChangedAt: step.statusChangedAt,
+});
+
+/**
+ * Map the generated step objects onto IThesis.roadmap. Steps matching one of `previous`
+ * by (fuzzy) title keep its id and progress, so regenerating the roadmap loses no work.
+ */
+export const toRoadmapSteps = (steps: any[] | null | undefined, previous: IThesis["roadmap"] = []): IThesis["roadmap"] => {
+  const unmatched = [...previous];
+  return (steps || []).map((step: any, index: number) => {
+    const title = step.title || `Step ${index + 1}`;
+    const normalized = normalizeTitle(title);
+    let matchIndex = unmatched.findIndex((old) => normalizeTitle(old.title) === normalized);
+    if (matchIndex < 0) {
+      matchIndex = unmatched.findIndex((old) => titleSimilarity(normalizeTitle(old.title), normalized) >= STEP_MATCH_THRESHOLD);
+    }
+    const [match] = matchIndex >= 0 ? unmatched.splice(matchIndex, 1) : [];
+
+    return {
+      ...stepProgress(match || step),
+      stepNumber: Number(step.stepNumber) || index + 1,
+      title,
+      details: step.details || "",
+    };
+  });
+};
+
+const SOURCE_MATCH_THRESHOLD = 0.9;
+
+// The source paper the LLM ranked, matched by link or (fuzzy) title
+export const findSourcePaper = (paper: any, sourcePapers: ResearchPaper[]) => {
+  const title = normalizeTitle(paper.title || "");
+  return (
+    sourcePapers.find((source) => paper.link && [source.url, source.paperLink].includes(paper.link)) ||
+    sourcePapers.find((source) => titleSimilarity(normalizeTitle(source.title), title) >= SOURCE_MATCH_THRESHOLD)
+  );
+};
+
+// Map the ranked paper objects onto IThesis.relatedPapers, adding DOI and year from the source papers
+export const toRelatedPapers = (papers: any[] | null | undefined, sourcePapers: ResearchPaper[] = []): IThesis["relatedPapers"] =>
+  (papers || []).map((paper: any) => {
+    const source = findSourcePaper(paper, sourcePapers);
+    const year = source?.year || Number(String(paper.date || "").slice(0, 4)) || undefined;
+    return {
+      rank: paper.rank,
+      title: paper.title || "Untitled",
+      author: paper.authors || paper.author || "Unknown authors",
+      summary: paper.summary,
+      date: paper.date,
+      link: paper.link || source?.paperLink || source?.url,
+      doi: normalizeDoi(paper.doi) || normalizeDoi(source?.doi),
+      year,
+    };
+  });
+
+// Store the graph and append the snowballed papers after the ranked ones
+const applyCitationGraph = (thesis: IThesis, graph: RoadmapSections["citationGraph"]) => {
+  thesis.citationGraph = graph ? { nodes: graph.nodes, edges: graph.edges, builtAt: graph.builtAt } : null;
+  if (!graph || graph.added.length === 0) return;
+
+  const lastRank = Math.max(0, ...thesis.relatedPapers.map((paper) => paper.rank || 0));
+  thesis.sourcePapers = [...thesis.sourcePapers, ...graph.added];
+  thesis.relatedPapers = [...thesis.relatedPapers, ...toRelatedPapers(snowballedRankedPapers(graph, lastRank), graph.added)];
+};
+
+// Copy every generated section present in `sections` onto the thesis document
+export const applyRoadmapSections = (thesis: IThesis, sections: RoadmapSections) => {
+  if (sections.papers !== undefined) thesis.sourcePapers = sections.papers;
+  if (sections.stepByStep !== undefined) thesis.roadmap = toRoadmapSteps(sections.stepByStep, thesis.roadmap);
+  if (sections.relatedPapers !== undefined) thesis.relatedPapers = toRelatedPapers(sections.relatedPapers, thesis.sourcePapers);
+  if (sections.citationGraph !== undefined) applyCitationGraph(thesis, sections.citationGraph);
+  if (sections.methodology !== undefined) thesis.methodology = sections.methodology;
+  if (sections.researchGapAnalysis !== undefined) thesis.researchGapAnalysis = sections.researchGapAnalysis;
+  if (sections.prosAndCons !== undefined) thesis.prosAndCons = sections.prosAndCons;
+};
+
+// Plain copy of a section as stored on the thesis
+export const getThesisSection = (thesis: IThesis, section: ThesisSection): unknown => {
+  const value = thesis.get(SECTION_FIELDS[section]);
+  return value && typeof value.toObject === "function" ? value.toObject() : value;
+};
+
+/**
+ * Moves the current version of a section into sectionHistory so it can be reverted later.
+ * @returns The id of the new history entry.
+ */
+export const archiveThesisSection = (thesis: IThesis, section: ThesisSection, guidance?: string) => {
+  const entry: IThesis["sectionHistory"][number] = {
+    _id: new mongoose.Types.ObjectId(),
+    section,
+    value: getThesisSection(thesis, section),
+    replacedAt: new Date(),
+    guidance,
+  };
+  thesis.sectionHistory.push(entry);
+
+  const entries = thesis.sectionHistory.filter((entry) => entry.section === section);
+  if (entries.length > MAX_SECTION_HISTORY) {
+    const dropped = new Set(entries.slice(0, entries.length - MAX_SECTION_HISTORY).map((entry) => entry._id.toString()));
+    thesis.sectionHistory = thesis.sectionHistory.filter((entry) => !dropped.has(entry._id.toString()));
+  }
+  return entry._id;
+};
+
+// Put a stored (thesis-format) version of a section back in place
+export const restoreThesisSection = (thesis: IThesis, section: ThesisSection, value: unknown) => {
+  // Progress made since that version was archived is kept
+  const restored = section === "stepByStep" ? toRoadmapSteps(value as any[], thesis.roadmap) : value;
+  thesis.set(SECTION_FIELDS[section], restored);
+};
@@ -0,0 +1,152 @@
+import { IThesis } from "../models/Thesis";
+
+// --- Deadline-Aware Scheduling ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest schedule accepted (about ten years); also bounds the day-by-day walk of availableDays
+export const MAX_SCHEDULE_DAYS = 3660;
+
+export interface Blackout {
+    start: Date;
+    end: Date;
+    label?: string;
+}
+
+export interface ScheduleOptions {
+    startDate: Date;
+    deadline: Date;
+    blackouts?: Blackout[];
+    skipWeekends?: boolean;
+}
+
+export interface WeightedStep {
+    stepNumber: number;
+    title: string;
+    weight: number;
+}
+
+export interface ScheduledMilestone {
+    milestone: string;
+    stepNumber: number;
+    weight: number;
+    startDate: Date;
+    dueDate: Date;
+}
+
+export class ScheduleError extends Error {}
+
+// Midnight UTC of the given date, so schedules work in whole days
+export const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const isBlackedOut = (day: Date, blackouts: Blackout[]) =>
+    blackouts.some((blackout) => day >= startOfDay(blackout.start) && day <= startOfDay(blackout.end));
+
+const spanInDays = (startDate: Date, deadline: Date) => (startOfDay(deadline).getTime() - startOfDay(startDate).getTime()) / DAY_MS;
+
+/**
+ * Lists the days work can be planned on, from startDate to deadline inclusive.
+ * Days past MAX_SCHEDULE_DAYS from the start are never listed.
+ */
+export const availableDays = ({ startDate, deadline, blackouts = [], skipWeekends = false }: ScheduleOptions): Date[] => {
+    const days: Date[] = [];
+    const first = startOfDay(startDate);
+    const last = new Date(Math.min(startOfDay(deadline).getTime(), first.getTime() + MAX_SCHEDULE_DAYS * DAY_MS));
+    for (let day = first; day <= last; day = new Date(day.getTime() + DAY_MS)) {
+        const weekday = day.getUTCDay();
+        if (skipWeekends && (weekday === 0 || weekday === 6)) continue;
+        if (isBlackedOut(day, blackouts)) continue;
+        days.push(day);
+    }
+    return days;
+};
+
+/**
+ * Spreads the steps over the available days in proportion to their weights.
+ * Every step gets at least one day and the last step is due on the last available day.
+ * @throws ScheduleError when there are fewer available days than steps, or the deadline is too far away.
+ */
+export const scheduleSteps = (steps: WeightedStep[], options: ScheduleOptions): ScheduledMilestone[] => {
+    if (steps.length === 0) return [];
+    if (options.deadline <= options.startDate) {
+        throw new ScheduleError("The deadline must be after the start date");
+    }
+    if (spanInDays(options.startDate, options.deadline) > MAX_SCHEDULE_DAYS) {
+        throw new ScheduleError(`The deadline must be at most ${MAX_SCHEDULE_DAYS} days after the start date`);
+    }
+
+    const days = availableDays(options);
+    if (days.length < steps.length) {
+        throw new ScheduleError(`Only ${days.length} working day(s) are available for ${steps.length} step(s)`);
+    }
+
+    const totalWeight = steps.reduce((sum, step) => sum + step.weight, 0);
+    const milestones: ScheduledMilestone[] = [];
+    let cumulativeWeight = 0;
+    let previousEnd = -1;
+
+    steps.forEach((step, index) => {
+        cumulativeWeight += step.weight;
+        const stepsLeft = steps.length - index - 1;
+        const proportionalEnd = Math.round((cumulativeWeight / totalWeight) * days.length) - 1;
+        // At least one day for this step, and one for each step after it
+        const end = Math.min(Math.max(proportionalEnd, previousEnd + 1), days.length - 1 - stepsLeft);
+
+        milestones.push({
+            milestone: step.title,
+            stepNumber: step.stepNumber,
+            weight: step.weight,
+            startDate: days[previousEnd + 1],
+            dueDate: days[end],
+        });
+        previousEnd = end;
+    });
+
+    return milestones;
+};
+
+/**
+ * Spreads the unfinished milestones over the remaining time when one of them is overdue.
+ * Completed milestones are left untouched. Marks the schedule as at risk when the
+ * remaining work no longer fits before the deadline.
+ * @returns true when the thesis was changed.
+ */
+export const rescheduleIfSlipped = (thesis: IThesis, now = new Date()): boolean => {
+    const schedule = thesis.schedule;
+    if (!schedule) return false;
+
+    const today = startOfDay(now);
+    const pending = thesis.timeline.filter((entry) => !entry.completedAt);
+    const slipped = pending.some((entry) => startOfDay(entry.dueDate) < today);
+    if (!slipped) return false;
+
+    try {
+        const rescheduled = scheduleSteps(
+            pending.map((entry, index) => ({
+                stepNumber: entry.stepNumber ?? index + 1,
+                title: entry.milestone,
+                weight: entry.weight || 1,
+            })),
+            // Explicit fields: spreading the Mongoose subdocument would not copy them
+            {
+                startDate: today,
+                deadline: schedule.deadline,
+                blackouts: schedule.blackouts,
+                skipWeekends: schedule.skipWeekends,
+            }
+        );
+
+        pending.forEach((entry, index) => {
+            entry.startDate = rescheduled[index].startDate;
+            entry.dueDate = rescheduled[index].dueDate;
+        });
+        schedule.atRisk = false;
+    } catch (error) {
+        if (!(error instanceof ScheduleError)) throw error;
+        if (schedule.atRisk) return false; // Already flagged, nothing new to save
+        schedule.atRisk = true;
+    }
+
+    schedule.rescheduledAt = now;
+    schedule.rescheduleCount = (schedule.rescheduleCount || 0) + 1;
+    return true;
+};
@@ -0,0 +1,27 @@
+import { object, oneOf, optional, string } from "../schema";
+import { CACHE_SOURCES } from "../cache";
+import { date, objectId, paginationQuery } from "./common";
+
+// --- /api/admin ---
+
+export const LLM_USAGE_GROUPINGS = ["day", "month", "user", "thesis", "section", "model"] as const;
+export type LlmUsageGrouping = typeof LLM_USAGE_GROUPINGS[number];
+
+export const cacheSourceQuery = object({ source: optional(oneOf(CACHE_SOURCES)) });
+
+export const listCacheEntriesQuery = object({ source: optional(oneOf(CACHE_SOURCES)), ...paginationQuery });
+
+const llmUsageFilters = {
+    from: optional(date()),
+    to: optional(date()),
+    user: optional(objectId()),
+    thesis: optional(objectId()),
+    section: optional(string({ max: 100 })),
+    provider: optional(string({ max: 100 })),
+};
+
+export const llmUsageStatsQuery = object({ ...llmUsageFilters, groupBy: optional(oneOf(LLM_USAGE_GROUPINGS)) });
+
+export const listLlmCallsQuery = object({ ...llmUsageFilters, ...paginationQuery });
+
+export const updateUserRoleSchema = object({ role: oneOf(["student", "advisor", "admin"] as const) });
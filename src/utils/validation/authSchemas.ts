@@ -0,0 +1,25 @@
+import { object, string } from "../schema";
+import { email, password } from "./common";
+
+// --- /api/auth ---
+
+// Everyone registers as a student: advisors and admins are promoted by an admin
+export const registerSchema = object({
+    username: string({ min: 1, max: 50 }),
+    email: email(),
+    password: password(),
+});
+
+export const loginSchema = object({
+    email: string({ min: 1, max: 254 }),
+    password: string({ min: 1, max: 200 }),
+});
+
+export const emailTokenSchema = object({ token: string({ min: 1, max: 2000 }) });
+
+export const forgotPasswordSchema = object({ email: string({ min: 1, max: 254 }) });
+
+export const resetPasswordSchema = object({
+    token: string({ min: 1, max: 2000 }),
+    password: password(),
+});
@@ -0,0 +1,59 @@
+import { oneOf, object, optional, Schema, string } from "../schema";
+import { normalizeLanguage, SUPPORTED_LANGUAGES } from "../prompts";
+
+// --- Shared Request Schemas ---
+// Params and query strings are always strings, so numbers, booleans and lists are checked in their text form.
+
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const objectId = () => string({ pattern: OBJECT_ID });
+
+export const email = () => string({ min: 3, max: 254, pattern: EMAIL });
+
+// New passwords; bcrypt only reads the first 72 bytes
+export const password = () => string({ min: 8, max: 72 });
+
+export const integerString = () => string({ pattern: /^\d+$/ });
+
+export const booleanString = () => oneOf(["true", "false"] as const);
+
+// An ISO date string or a timestamp
+export const date = (): Schema<string | number> => ({
+    validate(value, path = "") {
+        if (typeof value !== "string" && typeof value !== "number") {
+            return { ok: false, issues: [{ path, message: value === undefined ? "Is required" : "Must be a valid date" }] };
+        }
+        return Number.isNaN(new Date(value).getTime())
+            ? { ok: false, issues: [{ path, message: "Must be a valid date" }] }
+            : { ok: true, value };
+    },
+});
+
+// A supported thesis language, also as a locale such as "pt-BR"
+export const language = (): Schema<string> => ({
+    validate(value, path = "") {
+        return normalizeLanguage(value)
+            ? { ok: true, value: value as string }
+            : { ok: false, issues: [{ path, message: `Must be one of: ${SUPPORTED_LANGUAGES.join(", ")}` }] };
+    },
+});
+
+// Comma-separated list of allowed values, e.g. ?status=toRead,reading
+export const listOf = <T extends string>(values: readonly T[]): Schema<string> => ({
+    validate(value, path = "") {
+        const result = string({ min: 1 }).validate(value, path);
+        if (!result.ok) return result;
+        const unknown = result.value.split(",").filter((entry) => !values.includes(entry as T));
+        return unknown.length > 0
+            ? { ok: false, issues: [{ path, message: `Unknown value(s) ${unknown.join(", ")}. Expected: ${values.join(", ")}` }] }
+            : result;
+    },
+});
+
+export const idParams = object({ id: objectId() });
+
+export const paginationQuery = {
+    page: optional(integerString()),
+    limit: optional(integerString()),
+};
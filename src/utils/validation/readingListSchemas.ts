@@ -0,0 +1,27 @@
+import { object, oneOf, optional, string } from "../schema";
+import { READING_STATUSES } from "../../models/ReadingItem";
+import { paperInputSchema, readingItemFields } from "../readingList";
+import { listOf, objectId } from "./common";
+
+// --- /api/reading-list ---
+
+export const READING_LIST_SORTS = ["added", "updated", "rating", "title", "year", "status"] as const;
+export type ReadingListSort = typeof READING_LIST_SORTS[number];
+
+export const listReadingItemsQuery = object({
+    status: optional(listOf(READING_STATUSES)),
+    tag: optional(string({ max: 50 })),
+    thesis: optional(string({ pattern: /^(none|[a-f\d]{24})$/i })), // A thesis id, or "none" for items without one
+    minRating: optional(oneOf(["1", "2", "3", "4", "5"] as const)),
+    q: optional(string({ max: 200 })),
+    sort: optional(oneOf(READING_LIST_SORTS)),
+    order: optional(oneOf(["asc", "desc"] as const)),
+});
+
+export const itemParams = object({ itemId: objectId() });
+
+export const addReadingItemSchema = object({
+    paper: paperInputSchema,
+    thesisId: optional(objectId()),
+    ...readingItemFields,
+});
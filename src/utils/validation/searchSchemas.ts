@@ -0,0 +1,15 @@
+import { object, optional, string } from "../schema";
+import { SEARCH_TYPES } from "../search";
+import { language, listOf, objectId, paginationQuery } from "./common";
+
+// --- /api/search ---
+
+const MAX_QUERY_LENGTH = 200;
+
+export const searchQuery = object({
+    q: string({ min: 1, max: MAX_QUERY_LENGTH }),
+    types: optional(listOf(SEARCH_TYPES)),
+    thesis: optional(objectId()),
+    language: optional(language()),
+    ...paginationQuery,
+});
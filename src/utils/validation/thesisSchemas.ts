@@ -0,0 +1,185 @@
+import { any, array, boolean, number, object, oneOf, optional, strictObject, string } from "../schema";
+import { methodologySchema, prosAndConsSchema, researchGapAnalysisSchema } from "../roadmapSchemas";
+import { THESIS_SECTIONS } from "../thesisSections";
+import { STEP_STATUSES } from "../thesisProgress";
+import { MAX_ANSWER_LENGTH } from "../clarifyingQuestions";
+import { booleanString, date, email, integerString, language, objectId } from "./common";
+
+// --- /api/thesis ---
+// Thesis profiles (degree level, discipline...) are checked by parseThesisProfile, which also catches inconsistencies.
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 20000;
+const MAX_PAPER_FIELD_LENGTH = 500;
+const MAX_SEARCH_KEYWORDS_LENGTH = 300;
+const MAX_GUIDANCE_LENGTH = 2000;
+const MAX_STEP_NOTES_LENGTH = 5000;
+const MAX_COMMENT_LENGTH = 10000;
+
+const THESIS_PERMISSIONS = ["viewer", "commenter", "editor"] as const;
+
+export const createThesisSchema = object({
+    thesisDescription: string({ min: 1, max: MAX_DESCRIPTION_LENGTH }),
+    title: optional(string({ min: 1, max: MAX_TITLE_LENGTH })),
+    language: optional(language()),
+    searchKeywords: optional(string({ max: MAX_SEARCH_KEYWORDS_LENGTH })),
+});
+
+// Edited sections come back as returned by GET /:id; fields set by the server (_id, timestamps...) may be sent along
+const roadmapStepSchema = object({
+    _id: optional(objectId()),
+    stepNumber: number({ integer: true, min: 1 }),
+    title: string({ min: 1, max: MAX_TITLE_LENGTH }),
+    details: string({ min: 1, max: MAX_DESCRIPTION_LENGTH }),
+    status: optional(oneOf(STEP_STATUSES)),
+    notes: optional(string({ max: MAX_STEP_NOTES_LENGTH })),
+    linkedPapers: optional(
+        array(
+            object({
+                paperId: optional(string({ max: 100 })),
+                title: string({ min: 1, max: MAX_PAPER_FIELD_LENGTH }),
+                doi: optional(string({ max: 200 })),
+                link: optional(string({ max: 2000 })),
+            })
+        )
+    ),
+    startedAt: optional(date()),
+    completedAt: optional(date()),
+    statusChangedAt: optional(date()),
+});
+
+const relatedPaperSchema = object({
+    _id: optional(objectId()),
+    rank: optional(number({ integer: true, min: 1 })),
+    title: string({ min: 1, max: MAX_PAPER_FIELD_LENGTH }),
+    author: string({ min: 1, max: 2000 }),
+    summary: optional(string({ max: MAX_DESCRIPTION_LENGTH })),
+    date: optional(string({ max: 100 })),
+    link: optional(string({ max: 2000 })),
+    doi: optional(string({ max: 200 })),
+    year: optional(number({ integer: true, min: 1000, max: 3000 })),
+});
+
+const milestoneSchema = object({
+    _id: optional(objectId()),
+    milestone: string({ min: 1, max: MAX_PAPER_FIELD_LENGTH }),
+    dueDate: date(),
+    startDate: optional(date()),
+    stepNumber: optional(number({ integer: true, min: 1 })),
+    weight: optional(number({ min: 1, max: 10 })),
+    completedAt: optional(date()),
+});
+
+// Mirrors EDITABLE_FIELDS of the thesis controller (plus the profile); any other key is rejected
+export const updateThesisSchema = strictObject({
+    title: optional(string({ min: 1, max: MAX_TITLE_LENGTH })),
+    description: optional(string({ min: 1, max: MAX_DESCRIPTION_LENGTH })),
+    language: optional(language()),
+    status: optional(oneOf(["draft", "in progress", "completed"] as const)),
+    roadmap: optional(array(roadmapStepSchema)),
+    relatedPapers: optional(array(relatedPaperSchema)),
+    methodology: optional(methodologySchema),
+    researchGapAnalysis: optional(researchGapAnalysisSchema),
+    prosAndCons: optional(prosAndConsSchema),
+    timeline: optional(array(milestoneSchema)),
+    profile: optional(any()), // Checked by parseThesisProfile
+});
+
+// --- Sections ---
+
+export const sectionParams = object({ id: objectId(), section: oneOf(THESIS_SECTIONS) });
+
+export const regenerateSectionSchema = object({ guidance: optional(string({ max: MAX_GUIDANCE_LENGTH })) });
+
+export const revertSectionSchema = object({ versionId: optional(objectId()) });
+
+export const clarificationAnswersSchema = object({
+    answers: array(object({ questionId: objectId(), answer: string({ max: MAX_ANSWER_LENGTH }) }), { min: 1 }),
+});
+
+// --- Roadmap and timeline ---
+
+export const stepParams = object({ id: objectId(), stepId: objectId() });
+
+export const updateStepSchema = object({
+    status: optional(oneOf(STEP_STATUSES)),
+    notes: optional(string({ max: MAX_STEP_NOTES_LENGTH })),
+    linkedPapers: optional(array(objectId())), // Ids of entries in relatedPapers
+});
+
+export const scheduleSchema = object({
+    deadline: date(),
+    startDate: optional(date()),
+    skipWeekends: optional(boolean()),
+    blackouts: optional(array(object({ start: date(), end: date(), label: optional(string({ max: 200 })) }))),
+});
+
+export const milestoneParams = object({ id: objectId(), milestoneId: objectId() });
+
+export const updateMilestoneSchema = object({
+    completed: optional(boolean()),
+    dueDate: optional(date()),
+});
+
+// --- Export and papers ---
+
+export const exportQuery = object({ format: optional(oneOf(["md", "tex", "html"] as const)) });
+
+export const exportPapersQuery = object({
+    format: optional(oneOf(["bibtex", "ris", "csl-json"] as const)),
+    scope: optional(oneOf(["related", "sources"] as const)),
+});
+
+export const importPapersQuery = object({ format: optional(oneOf(["bibtex", "ris"] as const)) });
+
+export const relatedPapersToReadingListSchema = object({ paperIds: optional(array(objectId())) });
+
+// --- Revisions ---
+
+export const revisionParams = object({ id: objectId(), number: integerString() });
+
+export const listRevisionsQuery = object({
+    limit: optional(integerString()),
+    before: optional(integerString()),
+});
+
+export const diffRevisionsQuery = object({
+    from: optional(integerString()),
+    to: optional(integerString()),
+});
+
+// --- Sharing ---
+
+export const inviteCollaboratorSchema = object({
+    email: email(),
+    permission: optional(oneOf(THESIS_PERMISSIONS)),
+    relationship: optional(oneOf(["advisor", "coauthor"] as const)),
+});
+
+export const collaboratorParams = object({ id: objectId(), userId: objectId() });
+
+export const updateCollaboratorSchema = object({ permission: oneOf(THESIS_PERMISSIONS) });
+
+export const invitationParams = object({ id: objectId(), invitationId: objectId() });
+
+// --- Comments ---
+
+export const commentParams = object({ id: objectId(), commentId: objectId() });
+
+export const listCommentsQuery = object({
+    section: optional(oneOf(THESIS_SECTIONS)),
+    itemId: optional(string({ min: 1, max: 100 })),
+    includeResolved: optional(booleanString()),
+});
+
+// Replies (with `parent`) take the section of the comment they answer
+export const createCommentSchema = object({
+    body: string({ min: 1, max: MAX_COMMENT_LENGTH }),
+    section: optional(oneOf(THESIS_SECTIONS)),
+    itemId: optional(string({ min: 1, max: 100 })),
+    parent: optional(objectId()),
+});
+
+export const updateCommentSchema = object({ body: string({ min: 1, max: MAX_COMMENT_LENGTH }) });
+
+export const markCommentsReadSchema = object({ commentIds: optional(array(objectId())) });